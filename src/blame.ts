@@ -0,0 +1,56 @@
+/**
+ * Blame（文字ごとの作者情報）
+ *
+ * 指定バージョンの文書の各要素について、どのエージェントのどの操作で挿入されたかを求める。
+ * 結果はスナップショットの位置に揃えたRLEのランとして返す。
+ */
+
+import { lvToRaw } from './causal-graph.js'
+import { createContextAt, elementOf, PLACEHOLDER_OFFSET } from './edit-context.js'
+import { ItemState, type LV, type ListOpLog } from './types.js'
+
+/**
+ * スナップショットの [start, end) を、agent の seq から連続する操作で挿入したことを表すラン。
+ * 圧縮済みのベースに含まれる要素は挿入者が分からないため agent が null になり、
+ * seq はベースの内容でのインデックスを表す。
+ */
+export interface BlameRun {
+  start: number
+  end: number
+  agent: string | null
+  /** start の要素を挿入した操作のシーケンス番号（以降の要素は1ずつ増える） */
+  seq: number
+}
+
+/**
+ * version 時点の文書の各要素の挿入者を求める。
+ * Document でも TextDocument でも、doc.oplog とそのバージョンを渡せばよい。
+ */
+export function blame<T>(
+  oplog: ListOpLog<T>,
+  version: LV[] = oplog.cg.heads,
+): BlameRun[] {
+  const ctx = createContextAt(oplog, version)
+  const runs: BlameRun[] = []
+  let pos = 0
+
+  for (const { item, len } of ctx.items.toRuns()) {
+    if (item.curState !== ItemState.Inserted) continue
+    // 移動された要素は移動先のスロットではなく要素を挿入した操作を返す
+    const id = elementOf(ctx, item)
+    const [agent, seq] =
+      id >= PLACEHOLDER_OFFSET
+        ? [null, id - PLACEHOLDER_OFFSET]
+        : lvToRaw(oplog.cg, id)
+
+    const last = runs[runs.length - 1]
+    if (last != null && last.agent === agent && last.seq + (last.end - last.start) === seq) {
+      last.end += len
+    } else {
+      runs.push({ start: pos, end: pos + len, agent, seq })
+    }
+    pos += len
+  }
+
+  return runs
+}
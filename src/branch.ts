@@ -4,33 +4,38 @@
  * checkout, mergeChangesIntoBranch などの文書スナップショット管理。
  */
 
-import { diff, isFastForward, findConflicting, findDominators } from './causal-graph-advanced.js'
-import { traverseAndApply, createEditContext } from './edit-context.js'
-import { wrapArray } from './snapshot-ops.js'
+import { nextLV, rawToLVList } from './causal-graph.js'
+import { fastForwardRanges, findConflicting, findDominators } from './causal-graph-advanced.js'
+import { traverseAndApply, createEditContext, PLACEHOLDER_OFFSET } from './edit-context.js'
+import { sliceTargetOps, containsBase, DEFAULT_SEQUENCE } from './oplog.js'
+import { recordInsert, recordDelete, recordingSnapshot, type DeltaRecorder } from './events.js'
+import { wrapArray, type SnapshotOps } from './snapshot-ops.js'
 import { Rope } from './rope.js'
-import { OrderStatisticTree } from './order-statistic-tree.js'
 import {
-  ItemState,
   DiffFlag,
   type LV,
   type LVRange,
-  type Item,
-  type EditContext,
+  type RawVersion,
   type Branch,
   type ListOpLog,
+  type EditContext,
 } from './types.js'
 
 const DiffFlagOnlyB = DiffFlag.OnlyB
 
+/** target のシーケンスのベースの内容（ベースは既定のシーケンスの内容だけを持つ） */
+const baseContent = <T>(oplog: ListOpLog<T>, target: string): T[] =>
+  oplog.base != null && target === DEFAULT_SEQUENCE ? oplog.base.content.slice() : []
+
 /** 空のブランチを作成 */
 export function createEmptyBranch<T = string>(): Branch<T> {
   return { snapshot: [], version: [] }
 }
 
-/** OpLogから全操作を適用してブランチを作成 */
-export function checkout<T>(oplog: ListOpLog<T>): Branch<T> {
-  const ctx = createEditContext(oplog.ops.length)
-  const snapshot: T[] = []
+/** OpLogから target のシーケンスの全操作を適用してブランチを作成 */
+export function checkout<T>(oplog: ListOpLog<T>, target: string = DEFAULT_SEQUENCE): Branch<T> {
+  const ctx = createEditContext(nextLV(oplog.cg), true, target)
+  const snapshot: T[] = baseContent(oplog, target)
   traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
   return {
@@ -39,17 +44,48 @@ export function checkout<T>(oplog: ListOpLog<T>): Branch<T> {
   }
 }
 
+/**
+ * 任意のバージョン（フロンティア）時点のブランチを作成する。
+ * version の履歴に含まれる操作だけを適用し、それ以降や並行する操作は無視する。
+ * 圧縮済みの場合、ベースより前のバージョンは指定できない。
+ */
+export function checkoutAt<T>(
+  oplog: ListOpLog<T>,
+  version: LV[],
+  target: string = DEFAULT_SEQUENCE,
+): Branch<T> {
+  const end = nextLV(oplog.cg)
+  for (const v of version) {
+    if (v < 0 || v >= end) throw Error('未知のバージョン: ' + v)
+  }
+  if (!containsBase(oplog, version)) {
+    throw Error('圧縮済みの履歴より前のバージョンはチェックアウトできません')
+  }
+
+  const branch = createEmptyBranch<T>()
+  mergeChangesIntoBranch(branch, oplog, version, null, target)
+  return branch
+}
+
+/** RawVersion で指定したバージョン時点のブランチを作成する */
+export function checkoutAtRaw<T>(oplog: ListOpLog<T>, version: RawVersion[]): Branch<T> {
+  return checkoutAt(oplog, rawToLVList(oplog.cg, version))
+}
+
 /** OpLogから全操作を適用してスナップショットを返す */
 export function checkoutSimple<T>(oplog: ListOpLog<T>): T[] {
   return checkout(oplog).snapshot
 }
 
-/** OpLogから全操作を適用して文字列を返す（Ropeで高速化） */
+/** OpLogから target のシーケンスの全操作を適用して文字列を返す（Ropeで高速化） */
 export function checkoutSimpleString(
   oplog: ListOpLog<string>,
+  target: string = DEFAULT_SEQUENCE,
 ): string {
-  const ctx = createEditContext(oplog.ops.length)
+  const ctx = createEditContext(nextLV(oplog.cg), true, target)
   const rope = new Rope()
+  const base = baseContent(oplog, target)
+  rope.insertRange(0, base)
   traverseAndApply(ctx, oplog, rope)
   return rope.toString()
 }
@@ -61,62 +97,65 @@ export function checkoutSimpleString(
 function applyFastForward<T>(
   branch: Branch<T>,
   oplog: ListOpLog<T>,
-  mergeVersion: LV[],
+  ranges: LVRange[],
+  recorder: DeltaRecorder<T> | null,
+  target: string,
 ): void {
-  const ranges = diff(oplog.cg, branch.version, mergeVersion).bOnly
   for (const [start, end] of ranges) {
-    for (let lv = start; lv < end; lv++) {
-      const op = oplog.ops[lv]!
-      if (op.type === 'ins') {
-        branch.snapshot.splice(op.pos, 0, op.content)
-      } else {
-        branch.snapshot.splice(op.pos, 1)
+    for (const run of sliceTargetOps(oplog, start, end, target)) {
+      if (run.type === 'ins') {
+        wrapArray(branch.snapshot).insertRange(run.pos, run.content)
+        if (recorder) recordInsert(recorder, run.pos, run.content)
+      } else if (run.type === 'del') {
+        branch.snapshot.splice(run.pos, run.len)
+        if (recorder) recordDelete(recorder, run.pos, run.len)
+      } else if (run.type === 'move') {
+        const [content] = branch.snapshot.splice(run.from, 1) as [T]
+        branch.snapshot.splice(run.to, 0, content)
+        if (recorder) {
+          recordDelete(recorder, run.from, 1)
+          recordInsert(recorder, run.to, [content])
+        }
       }
     }
   }
-  branch.version = findDominators(oplog.cg, [
-    ...branch.version,
-    ...mergeVersion,
-  ])
 }
 
 /**
- * 既存のブランチに新しい変更をマージする。
+ * 並行操作を含む変更をスナップショットにマージする。
  *
- * 1. fast-forward可能ならEditContextなしで直接適用（高速パス）
- * 2. そうでなければ共通祖先を見つけて通常パスで処理
+ * 共通祖先を見つけ、共通祖先時点の文書を1つのプレースホルダーのランで表現した上で、
+ * 共通祖先以降の操作のみを再生する。コストは履歴全体ではなく競合区間に比例する。
+ * バージョンの更新は呼び出し側で行う。
  */
-export function mergeChangesIntoBranch<T>(
-  branch: Branch<T>,
+export function mergeConcurrentChanges<T>(
+  snapshot: SnapshotOps<T>,
+  snapshotLength: number,
+  version: LV[],
   oplog: ListOpLog<T>,
-  mergeVersion: LV[] = oplog.cg.heads,
+  mergeVersion: LV[],
+  target: string = DEFAULT_SEQUENCE,
 ): void {
-  // 高速パス: ブランチからmergeVersionへfast-forward可能な場合
-  if (isFastForward(oplog.cg, branch.version, mergeVersion)) {
-    applyFastForward(branch, oplog, mergeVersion)
-    return
-  }
-
   const newOps: LVRange[] = []
   const conflictOps: LVRange[] = []
 
   const commonAncestor = findConflicting(
     oplog.cg,
-    branch.version,
+    version,
     mergeVersion,
     (span, flag) => {
       // visitは逆順で呼ばれる
-      const target = flag === DiffFlagOnlyB ? newOps : conflictOps
+      const list = flag === DiffFlagOnlyB ? newOps : conflictOps
 
       let last: LVRange | undefined
       if (
-        target.length > 0 &&
-        (last = target[target.length - 1]!) &&
+        list.length > 0 &&
+        (last = list[list.length - 1]!) &&
         last[0] === span[1]
       ) {
         last[0] = span[0]
       } else {
-        target.push(span)
+        list.push(span)
       }
     },
   )
@@ -125,43 +164,83 @@ export function mergeChangesIntoBranch<T>(
   newOps.reverse()
   conflictOps.reverse()
 
-  const ctx: EditContext = {
-    items: new OrderStatisticTree(),
-    delTargets: new Array<number>(oplog.ops.length).fill(-1),
-    itemsByLV: new Array<Item | null>(oplog.ops.length).fill(null),
-    curVersion: commonAncestor,
-    _cursorHint: null,
-  }
-
-  // 共通祖先時点のプレースホルダーアイテムを作成
-  const placeholderLength =
-    branch.version.length === 0
-      ? 0
-      : Math.max(...branch.version) + 1
-  const PLACEHOLDER_OFFSET = 1e12
-
-  for (let i = 0; i < placeholderLength; i++) {
-    const opId = i + PLACEHOLDER_OFFSET
-    const item: Item = {
-      opId,
-      curState: ItemState.Inserted,
-      endState: ItemState.Inserted,
-      originLeft: -1,
-      rightParent: -1,
+  /** 共通祖先時点の文書を placeholderLength 個のプレースホルダーとして、競合する操作を再生する */
+  const replayConflicts = (placeholderLength: number): EditContext => {
+    const ctx = createEditContext(nextLV(oplog.cg), false, target)
+    ctx.curVersion = commonAncestor
+    ctx.items.pushPlaceholder(PLACEHOLDER_OFFSET, placeholderLength)
+    // スナップショットは変更しない
+    for (const [start, end] of conflictOps) {
+      traverseAndApply(ctx, oplog, null, start, end)
     }
-    ctx.items.push(item)
-    ctx.itemsByLV[opId] = item
+    return ctx
   }
 
-  // 競合する操作を再生（スナップショットは変更しない）
+  // 共通祖先時点の文書長: 現在の長さから競合区間の挿入・削除を巻き戻して求める。
+  // 並行して同じ要素を削除していると削除を重複して数えるため、その分だけ長くなる
+  let ancestorLength = snapshotLength
   for (const [start, end] of conflictOps) {
-    traverseAndApply(ctx, oplog, null, start, end)
+    for (const run of sliceTargetOps(oplog, start, end, target)) {
+      if (run.type === 'ins') ancestorLength -= run.content.length
+      else if (run.type === 'del') ancestorLength += run.len
+    }
+  }
+  let ctx = replayConflicts(ancestorLength)
+
+  // 再生した操作をすべて適用した状態（endState）の長さが現在の長さを超えた分は
+  // 重複して数えた削除なので、正しい長さで再生し直す
+  const excess = ctx.items.endLength - snapshotLength
+  if (excess !== 0) {
+    ancestorLength -= excess
+    ctx = replayConflicts(ancestorLength)
   }
 
   // 新しい操作を適用（スナップショットを更新）
-  const snapshotOps = wrapArray(branch.snapshot)
   for (const [start, end] of newOps) {
-    traverseAndApply(ctx, oplog, snapshotOps, start, end)
+    traverseAndApply(ctx, oplog, snapshot, start, end)
+  }
+}
+
+/**
+ * 既存のブランチに新しい変更をマージする。
+ *
+ * 1. fast-forward可能ならEditContextなしで直接適用（高速パス）
+ * 2. そうでなければ共通祖先を見つけて競合区間のみを再生
+ *
+ * OpLogが圧縮済みの場合、空のブランチはベースの内容から始める。
+ * recorder を渡すとスナップショットへの変更を差分として記録する。
+ * ブランチは target のシーケンスのスナップショットとして扱う。
+ */
+export function mergeChangesIntoBranch<T>(
+  branch: Branch<T>,
+  oplog: ListOpLog<T>,
+  mergeVersion: LV[] = oplog.cg.heads,
+  recorder: DeltaRecorder<T> | null = null,
+  target: string = DEFAULT_SEQUENCE,
+): void {
+  if (oplog.base != null && !containsBase(oplog, branch.version)) {
+    if (branch.version.length > 0) {
+      throw Error('圧縮済みの履歴より前のブランチにはマージできません')
+    }
+    branch.snapshot = baseContent(oplog, target)
+    branch.version = oplog.base.version.slice()
+    if (recorder) recordInsert(recorder, 0, branch.snapshot.slice())
+  }
+
+  const ranges = fastForwardRanges(oplog.cg, branch.version, mergeVersion)
+  if (ranges !== null) {
+    // 高速パス: ブランチからmergeVersionへ直列に適用できる場合
+    applyFastForward(branch, oplog, ranges, recorder, target)
+  } else {
+    const snapshot = wrapArray(branch.snapshot)
+    mergeConcurrentChanges(
+      recorder ? recordingSnapshot(snapshot, recorder) : snapshot,
+      branch.snapshot.length,
+      branch.version,
+      oplog,
+      mergeVersion,
+      target,
+    )
   }
 
   // バージョンを更新
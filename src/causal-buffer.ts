@@ -0,0 +1,115 @@
+/**
+ * 因果順の配送バッファ
+ *
+ * 親の操作がまだ届いていない外部操作を保留し、親が揃った時点で因果順に OpLog へ追加する。
+ * pushOps は親が未知だとエラーになるため、順序が保証されない経路で操作を受け取る場合はこれを挟む。
+ * 保留中の操作が待っている RawVersion を missingVersions で取得し、相手に再送を求められる。
+ */
+
+import { tryRawToLV } from './causal-graph.js'
+import { pushOps, opRunLength, checkTarget, DEFAULT_SEQUENCE } from './oplog.js'
+import type { RawVersion, ListOpLog, ListOpSpan } from './types.js'
+
+/** 配送バッファ */
+export interface CausalBuffer<T = string> {
+  readonly oplog: ListOpLog<T>
+}
+
+/** 親が揃うのを待っている操作のラン */
+interface PendingRun<T> {
+  id: RawVersion
+  parents: RawVersion[]
+  span: ListOpSpan<T>
+}
+
+/** 内部状態 */
+interface CausalBufferInternal<T> extends CausalBuffer<T> {
+  /** 受け取った順の保留中のラン */
+  pending: PendingRun<T>[]
+}
+
+/** oplog に操作を追加する配送バッファを作成する */
+export function createCausalBuffer<T>(oplog: ListOpLog<T>): CausalBuffer<T> {
+  const buffer: CausalBufferInternal<T> = { oplog, pending: [] }
+  return buffer
+}
+
+/**
+ * 外部の連続した操作（id から始まる1つのラン）を受け取る。
+ * 親がすべて既知ならすぐに追加し、保留中の操作のうち親が揃ったものも続けて追加する。
+ * 親が未知なら保留する。
+ * 戻り値はこの呼び出しで OpLog に新たに追加した操作数（保留していた操作を含む）。
+ */
+export function receiveOps<T>(
+  buffer: CausalBuffer<T>,
+  id: RawVersion,
+  parents: RawVersion[],
+  span: ListOpSpan<T>,
+): number {
+  const internal = buffer as CausalBufferInternal<T>
+  if (opRunLength(span) <= 0) throw Error('無効な操作長')
+  checkTarget(internal.oplog, span.target ?? DEFAULT_SEQUENCE)
+
+  if (!isReady(internal, parents)) {
+    internal.pending.push({ id, parents, span })
+    return 0
+  }
+  return pushOps(internal.oplog, id, parents, span) + flush(internal)
+}
+
+/** 保留中の操作数 */
+export function pendingCount<T>(buffer: CausalBuffer<T>): number {
+  let n = 0
+  for (const run of (buffer as CausalBufferInternal<T>).pending) n += opRunLength(run.span)
+  return n
+}
+
+/**
+ * 保留中の操作を追加するために必要な、OpLog にも保留中の操作にも含まれない RawVersion の一覧。
+ * これらを相手から受け取れば、保留中の操作はすべて追加できる。
+ */
+export function missingVersions<T>(buffer: CausalBuffer<T>): RawVersion[] {
+  const internal = buffer as CausalBufferInternal<T>
+  const missing = new Map<string, RawVersion>()
+  for (const { parents } of internal.pending) {
+    for (const [agent, seq] of parents) {
+      const key = agent + '\0' + seq
+      if (!missing.has(key) && !isKnown(internal, agent, seq) && !isPending(internal, agent, seq)) {
+        missing.set(key, [agent, seq])
+      }
+    }
+  }
+  return [...missing.values()]
+}
+
+// ===== 内部処理 =====
+
+/** OpLog が (agent, seq) の操作を持っているか */
+const isKnown = <T>(buffer: CausalBufferInternal<T>, agent: string, seq: number): boolean =>
+  tryRawToLV(buffer.oplog.cg, agent, seq) != null
+
+/** (agent, seq) の操作が保留中か */
+const isPending = <T>(buffer: CausalBufferInternal<T>, agent: string, seq: number): boolean =>
+  buffer.pending.some(({ id, span }) => id[0] === agent && seq >= id[1] && seq < id[1] + opRunLength(span))
+
+/** 親がすべて OpLog にあるか */
+const isReady = <T>(buffer: CausalBufferInternal<T>, parents: RawVersion[]): boolean =>
+  parents.every(([agent, seq]) => isKnown(buffer, agent, seq))
+
+/** 親が揃った保留中の操作を、追加できるものがなくなるまで追加する */
+function flush<T>(buffer: CausalBufferInternal<T>): number {
+  let added = 0
+  for (let i = 0; i < buffer.pending.length; ) {
+    const run = buffer.pending[i]!
+    if (!isReady(buffer, run.parents)) {
+      i++
+      continue
+    }
+    // 追加に失敗しても残り続けないよう、先に取り除く
+    buffer.pending.splice(i, 1)
+    added += pushOps(buffer.oplog, run.id, run.parents, run.span)
+    // 追加した操作を親に持つ操作が前にあるかもしれないので先頭から見直す
+    i = 0
+  }
+  return added
+}
@@ -140,6 +140,63 @@ export const isFastForward = (
   return diff(cg, from, to).aOnly.length === 0
 }
 
+// ===== fast-forward判定 =====
+
+/** 順序を無視してバージョン（フロンティア）が等しいか判定 */
+export const sameFrontier = (a: LV[], b: LV[]): boolean => {
+  if (a.length !== b.length) return false
+  if (a.length <= 1) return a[0] === b[0]
+  const sa = a.slice().sort((x, y) => x - y)
+  const sb = b.slice().sort((x, y) => x - y)
+  return lvEq(sa, sb)
+}
+
+/**
+ * fromからtoへ並行操作なしで直接適用できる場合、適用する操作範囲を返す。
+ * 適用できない場合はnullを返す。
+ *
+ * toにのみ含まれる操作をLV順に辿り、各操作の親が直前までのバージョンと
+ * 一致していれば、操作の位置をそのままスナップショットに適用できる。
+ * isFastForward と異なり、途中で分岐→合流した履歴（ダイヤモンド）は対象外。
+ */
+export const fastForwardRanges = (
+  cg: CausalGraph,
+  from: LV[],
+  to: LV[],
+): LVRange[] | null => {
+  if (lvEq(from, to)) return []
+
+  const { aOnly, bOnly } = diff(cg, from, to)
+  if (bOnly.length === 0) return []
+  if (aOnly.length > 0) return null
+
+  let version = from
+  let linear = true
+  for (const [start, end] of bOnly) {
+    eachVersionBetween(cg, start, end, (e, vs, ve) => {
+      const parents = vs === e.version ? e.parents : [vs - 1]
+      if (!sameFrontier(parents, version)) linear = false
+      version = [ve - 1]
+    })
+    if (!linear) return null
+  }
+  return bOnly
+}
+
+/**
+ * ブランチから全てのマージ先headsへ並行操作なしでfast-forward可能か判定。
+ *
+ * isFastForward(cg, from, to) は「from ⊆ to の履歴」を判定するが、
+ * これだけでは不十分。例えば from=[4] to=[4,9] で 9 が 4 の子孫でない場合、
+ * isFastForwardはtrueを返すが実際には並行操作がある。
+ * to が from の子孫でも、間に分岐と合流を含む場合は同様に直接適用できない。
+ */
+export const canFastForward = (
+  cg: CausalGraph,
+  branchVersion: LV[],
+  mergeHeads: LV[],
+): boolean => fastForwardRanges(cg, branchVersion, mergeHeads) !== null
+
 // ===== versionContainsLV =====
 
 /** フロンティアがtargetを含むかどうか判定 */
@@ -358,6 +358,27 @@ export const rawVersionCmp = (
 export const lvCmp = (cg: CausalGraph, a: LV, b: LV): number =>
   rawVersionCmp(lvToRaw(cg, a), lvToRaw(cg, b))
 
+/**
+ * 並行する操作も含めてLVを全順序に並べる比較関数を作成する。
+ * Lamport 時刻で比較し、同じ場合は (エージェント, シーケンス番号) で比較するため、
+ * 因果的に後の操作は常に後になり、どのピアでも同じ順序になる。
+ */
+export function lamportCmp(cg: CausalGraph): (a: LV, b: LV) => number {
+  // 各エントリの先頭の操作の Lamport 時刻（エントリは因果順に並んでいる）
+  const starts = new Map<CGEntry, number>()
+  const lamport = (lv: LV): number => {
+    const [e, offset] = findEntryContaining(cg, lv)
+    return starts.get(e)! + offset
+  }
+  for (const e of cg.entries) {
+    let t = 0
+    for (const p of e.parents) t = max2(t, lamport(p) + 1)
+    starts.set(e, t)
+  }
+
+  return (a, b) => lamport(a) - lamport(b) || lvCmp(cg, a, b)
+}
+
 // ===== バージョンイテレーション =====
 
 /** 指定バージョン範囲のエントリをイテレートする */
@@ -0,0 +1,146 @@
+/**
+ * ドキュメントのチェックポイント
+ *
+ * ブランチのスナップショットをバージョンと一緒に定期的に保存しておき、
+ * ドキュメントを開くときは最も近いチェックポイントから残りの操作だけを再生する。
+ * restoreDocument と違って現在のバージョンのスナップショットがなくてもよく、
+ * 保存後にリモートの編集がいくつか届いていても、全操作を再生せずにすぐ開ける。
+ *
+ * バージョンは RawVersion で保存するため、チェックポイントはJSONとして永続化でき、
+ * 別のピアから受け取り直した（LVの異なる）OpLogにも使える。
+ */
+
+import { nextLV, lvToRawList, tryRawToLV } from './causal-graph.js'
+import { diff } from './causal-graph-advanced.js'
+import { containsBase } from './oplog.js'
+import { mergeChangesIntoBranch } from './branch.js'
+import { openDocument, restoreDocument, type Document } from './document.js'
+import type { LV, RawVersion, ListOpLog } from './types.js'
+
+/** 保存したスナップショット */
+export interface Checkpoint<T = string> {
+  version: RawVersion[]
+  snapshot: T[]
+}
+
+/** CheckpointStore の設定 */
+export interface CheckpointStoreOptions<T = string> {
+  /** 前回の保存からこの数以上の操作が増えたら保存する。既定値は1000 */
+  interval?: number
+  /** 保持するチェックポイントの最大数（古いものから捨てる）。既定値は5 */
+  maxCheckpoints?: number
+  /** 永続化しておいたチェックポイント */
+  checkpoints?: Checkpoint<T>[]
+}
+
+/** チェックポイントの保存先 */
+export interface CheckpointStore<T = string> {
+  /** 保存したチェックポイント（古い順） */
+  readonly checkpoints: readonly Checkpoint<T>[]
+}
+
+/** 内部状態 */
+interface CheckpointStoreInternal<T> extends CheckpointStore<T> {
+  checkpoints: Checkpoint<T>[]
+  interval: number
+  maxCheckpoints: number
+  /** 前回保存したときの OpLog の長さ。永続化から読み込んだ直後は、最初に使うときに求める（null） */
+  savedAt: LV | null
+}
+
+/** チェックポイントの保存先を作成する */
+export function createCheckpointStore<T>(options: CheckpointStoreOptions<T> = {}): CheckpointStore<T> {
+  const maxCheckpoints = options.maxCheckpoints ?? 5
+  if (maxCheckpoints < 1) throw Error('maxCheckpoints は1以上にしてください')
+  const checkpoints = (options.checkpoints ?? []).slice(-maxCheckpoints)
+  const store: CheckpointStoreInternal<T> = {
+    checkpoints,
+    interval: options.interval ?? 1000,
+    maxCheckpoints,
+    savedAt: checkpoints.length > 0 ? null : 0,
+  }
+  return store
+}
+
+/** ドキュメントの現在のスナップショットをチェックポイントとして保存する */
+export function saveCheckpoint<T>(store: CheckpointStore<T>, doc: Document<T>): Checkpoint<T> {
+  const internal = store as CheckpointStoreInternal<T>
+  const checkpoint: Checkpoint<T> = {
+    version: lvToRawList(doc.oplog.cg, doc.branch.version),
+    snapshot: doc.branch.snapshot.slice(),
+  }
+  internal.checkpoints.push(checkpoint)
+  if (internal.checkpoints.length > internal.maxCheckpoints) internal.checkpoints.shift()
+  internal.savedAt = nextLV(doc.oplog.cg)
+  return checkpoint
+}
+
+/**
+ * 前回の保存から interval 以上の操作が増えていればチェックポイントを保存する。
+ * 編集やマージの後に呼ぶ。保存した場合は true を返す。
+ * 永続化から読み込んだチェックポイントは、最も近いものに含まれない操作の数で判定する。
+ */
+export function checkpointIfNeeded<T>(store: CheckpointStore<T>, doc: Document<T>): boolean {
+  const internal = store as CheckpointStoreInternal<T>
+  const end = nextLV(doc.oplog.cg)
+  if (internal.savedAt == null) {
+    const closest = closestCheckpoint(doc.oplog, internal.checkpoints)
+    internal.savedAt = closest == null ? 0 : end - closest.cost
+  }
+  if (end - internal.savedAt < internal.interval) return false
+  saveCheckpoint(store, doc)
+  return true
+}
+
+/**
+ * 最も近いチェックポイントからドキュメントを開く。
+ *
+ * oplog の最新バージョンに含まれるチェックポイントのうち、そこから再生する操作が最も少ないもの
+ * （通常は最新のもの）を選び、残りの操作を mergeChangesIntoBranch で適用する。
+ * 最新バージョンと並行するチェックポイントは使わない。
+ * 使えるチェックポイントがなければ openDocument と同じく全操作を再生する。
+ */
+export function openDocumentFromCheckpoint<T>(
+  oplog: ListOpLog<T>,
+  checkpoints: readonly Checkpoint<T>[] | CheckpointStore<T>,
+): Document<T> {
+  const list = 'checkpoints' in checkpoints ? checkpoints.checkpoints : checkpoints
+  const best = closestCheckpoint(oplog, list)
+  if (best == null) return openDocument(oplog)
+  const doc = restoreDocument(oplog, best.checkpoint.snapshot, best.version)
+  if (best.cost > 0) mergeChangesIntoBranch(doc.branch, oplog, oplog.cg.heads)
+  return doc
+}
+
+/**
+ * oplog の最新バージョンに含まれるチェックポイントのうち、含まれない操作の数（cost）が最も少ないもの。
+ * 使えるものがなければ null
+ */
+function closestCheckpoint<T>(
+  oplog: ListOpLog<T>,
+  list: readonly Checkpoint<T>[],
+): { checkpoint: Checkpoint<T>; version: LV[]; cost: number } | null {
+  let best: { checkpoint: Checkpoint<T>; version: LV[]; cost: number } | null = null
+  for (const checkpoint of list) {
+    const version = toLocalVersion(oplog, checkpoint.version)
+    if (version == null || !containsBase(oplog, version)) continue
+    const { aOnly, bOnly } = diff(oplog.cg, version, oplog.cg.heads)
+    if (aOnly.length > 0) continue
+    let cost = 0
+    for (const [start, end] of bOnly) cost += end - start
+    // 同じコストなら後から保存したものを使う
+    if (best == null || cost <= best.cost) best = { checkpoint, version, cost }
+  }
+  return best
+}
+
+/** RawVersion のバージョンを oplog のLVに変換する。未知の操作を含む場合は null */
+function toLocalVersion<T>(oplog: ListOpLog<T>, version: RawVersion[]): LV[] | null {
+  const result: LV[] = []
+  for (const [agent, seq] of version) {
+    const lv = tryRawToLV(oplog.cg, agent, seq)
+    if (lv == null) return null
+    result.push(lv)
+  }
+  return result
+}
@@ -0,0 +1,99 @@
+/**
+ * 履歴の圧縮（ガベージコレクション）
+ *
+ * 全ピアが受け取り済みの安定バージョンより前の操作を破棄し、
+ * その時点の文書の内容（ベース）で置き換える。
+ *
+ * 因果グラフはエージェントとLVの対応やサマリに必要なため、そのまま残す。
+ * 歩行はベースを1つのプレースホルダーのランとして始めるため、
+ * 安定バージョン以降の並行編集は圧縮前と同じ結果に収束する。
+ */
+
+import { nextLV, advanceFrontier, eachVersionBetween } from './causal-graph.js'
+import { diff, findDominators, sameFrontier } from './causal-graph-advanced.js'
+import { checkoutAt } from './branch.js'
+import { sliceOps, opsStart, containsBase } from './oplog.js'
+import type { LV, CausalGraph, ListOpLog } from './types.js'
+
+/**
+ * version がクリティカルバージョンか判定する。
+ * version の履歴がちょうど [0, start) で、start 以降の操作がすべて version の子孫であればよい。
+ */
+function isCriticalVersion(cg: CausalGraph, version: LV[], start: LV): boolean {
+  let frontier: LV[] = []
+  eachVersionBetween(cg, 0, start, (e, vs, ve) => {
+    frontier = advanceFrontier(frontier, ve - 1, vs === e.version ? e.parents : [vs - 1])
+  })
+  if (!sameFrontier(frontier, version)) return false
+
+  // 親がすべて start 以降なら、その親が子孫であることから帰納的に子孫になる
+  if (start === nextLV(cg)) return true
+  let critical = true
+  eachVersionBetween(cg, start, nextLV(cg), (e, vs) => {
+    const parents = vs === e.version ? e.parents : [vs - 1]
+    if (parents.length > 0 && parents.every((p) => p >= start)) return
+    if (diff(cg, version, parents).aOnly.length > 0) critical = false
+  })
+  return critical
+}
+
+/**
+ * stableVersion より前の履歴を破棄し、その時点の文書をベースとして保持する。
+ *
+ * stableVersion はすべてのピアが受け取り済みで、OpLog内の以降の操作がすべてその子孫である
+ * （並行する操作がない）必要がある。圧縮後は stableVersion より前のバージョンの
+ * チェックアウトや、破棄した操作を持たないピアへの送信はできない。
+ * 既存の圧縮済みのベースと同じかそれより前のバージョンを指定した場合は何もしない。
+ *
+ * ベースは既定のシーケンスの要素の並びだけを保持するため、次の履歴は圧縮できずエラーになる
+ * （エラーの場合 OpLog は変更しない）。
+ * - 破棄する範囲に書式操作を含む（書式のアンカーが失われる）
+ * - 破棄する範囲にマップ操作を含む（メタデータの値が失われる）
+ * - 名前付きシーケンスの操作を含む
+ * 安定バージョンより後の書式操作・マップ操作は破棄しないため、圧縮の妨げにならない。
+ *
+ * 圧縮後のOpLogには名前付きシーケンスの操作を追加できない。ローカルの編集だけでなく、
+ * 名前付きシーケンスの操作を持つピアからの mergeOplogInto や applySyncPatch もエラーになる
+ * （エラーの場合 OpLog は変更しない）。名前付きシーケンスを使う文書は圧縮しないこと。
+ */
+export function compactOpLog<T>(oplog: ListOpLog<T>, stableVersion: LV[]): void {
+  const cg = oplog.cg
+  const end = nextLV(cg)
+  for (const v of stableVersion) {
+    if (v < 0 || v >= end) throw Error('未知のバージョン: ' + v)
+  }
+
+  const version = findDominators(cg, stableVersion)
+  if (version.length === 0 || !containsBase(oplog, version)) return
+
+  const start = Math.max(...version) + 1
+  if (start <= opsStart(oplog)) return
+  if (!isCriticalVersion(cg, version, start)) {
+    throw Error('安定バージョンと並行する操作があるため圧縮できません')
+  }
+
+  // ベースは既定のシーケンスの内容だけを保持する
+  if (oplog.targets != null) {
+    throw Error('名前付きシーケンスを含む履歴は圧縮できません')
+  }
+
+  // ベースは内容だけを保持するため、破棄すると書式やマップの値が失われる
+  const dropped = sliceOps(oplog, opsStart(oplog), start)
+  if (dropped.some((run) => run.type === 'mark')) {
+    throw Error('書式操作を含む履歴は圧縮できません')
+  }
+  if (dropped.some((run) => run.type === 'map')) {
+    throw Error('マップ操作を含む履歴は圧縮できません')
+  }
+
+  const content = checkoutAt(oplog, version).snapshot
+  oplog.ops = sliceOps(oplog, start, end)
+  oplog.base = { version, content }
+
+  // 破棄した操作のトランザクションの記録も取り除く
+  if (oplog.txns != null) {
+    const txns = oplog.txns.filter(([s]) => s >= start)
+    if (txns.length > 0) oplog.txns = txns
+    else delete oplog.txns
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 安定カーソル
+ *
+ * 位置（インデックス）ではなく、挿入操作のIDに付着するカーソル。
+ * 並行編集をマージしても同じ文字の隣を指し続けるため、
+ * ユーザーのカーソルやコメントのアンカーとして使える。
+ *
+ * 位置の解決には EditContext を使い、任意のバージョンでの位置を求められる。
+ * EditContext は OpLog ごとに保持し、次の呼び出しでは新しく追加された操作だけを適用して
+ * 指定のバージョンへ移動するため、呼び出しのたびに全履歴を再生することはない。
+ * 圧縮済みのOpLogでは、ベースに含まれる要素にはカーソルを付着できない。
+ */
+
+import { nextLV, lvToRaw, rawToLV } from './causal-graph.js'
+import {
+  createContextAt,
+  traverseAndApply,
+  moveToVersion,
+  elementOf,
+  currentSlot,
+  PLACEHOLDER_OFFSET,
+} from './edit-context.js'
+import { opsStart, containsBase } from './oplog.js'
+import { ItemState, type LV, type RawVersion, type ListOpLog, type EditContext } from './types.js'
+import type { Document } from './document.js'
+import type { TextDocument } from './text-document.js'
+
+/**
+ * カーソルが付着する向き
+ * - left: 左隣の要素に付く（その要素の直後を指す）
+ * - right: 右隣の要素に付く（その要素の直前を指す）
+ */
+export type CursorStick = 'left' | 'right'
+
+/** 挿入操作のIDに付着したカーソル */
+export interface Cursor {
+  /** 付着先の要素を挿入した操作のID。null は文書の端（left なら先頭、right なら末尾） */
+  anchor: RawVersion | null
+  stick: CursorStick
+}
+
+/** カーソルを解決できるドキュメント */
+type CursorDocument<T> = Document<T> | TextDocument
+
+const docVersion = <T>(doc: CursorDocument<T>): LV[] =>
+  'branch' in doc ? doc.branch.version : doc.version
+
+/** OpLog ごとに保持する、歩行済みの EditContext */
+interface CachedContext {
+  ctx: EditContext
+  /** 適用済みの操作の終端LV（排他的） */
+  walked: LV
+  /** 構築時の opsStart（圧縮でベースが変わったら作り直す） */
+  start: LV
+}
+
+const contexts = new WeakMap<object, CachedContext>()
+
+/** version 時点の EditContext を返す。前回のコンテキストがあれば新しい操作だけを適用して再利用する */
+function contextAt<T>(oplog: ListOpLog<T>, version: LV[]): EditContext {
+  const end = nextLV(oplog.cg)
+  const start = opsStart(oplog)
+  const cached = contexts.get(oplog)
+  if (cached == null || cached.start !== start) {
+    const ctx = createContextAt(oplog, version)
+    contexts.set(oplog, { ctx, walked: end, start })
+    return ctx
+  }
+
+  if (!containsBase(oplog, version)) {
+    throw Error('圧縮済みの履歴より前のバージョンは参照できません')
+  }
+  traverseAndApply(cached.ctx, oplog, null, cached.walked, end)
+  cached.walked = end
+  moveToVersion(cached.ctx, oplog, version)
+  return cached.ctx
+}
+
+/**
+ * 位置 pos をカーソルに変換する。
+ * version を省略した場合はドキュメントの現在のバージョンでの位置として扱う。
+ */
+export function posToCursor<T>(
+  doc: CursorDocument<T>,
+  pos: number,
+  stick: CursorStick = 'right',
+  version: LV[] = docVersion(doc),
+): Cursor {
+  const oplog = doc.oplog as ListOpLog<T>
+  const ctx = contextAt(oplog, version)
+  if (pos < 0 || pos > ctx.items.curLength) {
+    throw Error('範囲外の位置: ' + pos)
+  }
+
+  // 付着先の要素の位置（文書の端なら要素なし）
+  const target = stick === 'left' ? pos - 1 : pos
+  if (target < 0 || target >= ctx.items.curLength) return { anchor: null, stick }
+
+  let { idx } = ctx.items.findByCurPos(target)
+  let item = ctx.items.getByIndex(idx)!
+  while (item.curState !== ItemState.Inserted) {
+    item = ctx.items.getByIndex(++idx)!
+  }
+  // 移動された要素には移動先のスロットではなく要素自体に付着する
+  const id = elementOf(ctx, item)
+  if (id >= PLACEHOLDER_OFFSET) {
+    throw Error('圧縮済みの履歴に含まれる要素にはカーソルを付着できません')
+  }
+  return { anchor: lvToRaw(oplog.cg, id), stick }
+}
+
+/**
+ * カーソルを位置に変換する。
+ *
+ * 付着先の要素が削除されている場合は、その要素があった場所を返す。
+ * version が付着先の挿入を含まない場合も、挿入されるはずの場所を返す。
+ */
+export function cursorToPos<T>(
+  doc: CursorDocument<T>,
+  cursor: Cursor,
+  version: LV[] = docVersion(doc),
+): number {
+  const oplog = doc.oplog as ListOpLog<T>
+  const ctx = contextAt(oplog, version)
+  if (cursor.anchor === null) {
+    return cursor.stick === 'left' ? 0 : ctx.items.curLength
+  }
+
+  const lv = rawToLV(oplog.cg, cursor.anchor[0], cursor.anchor[1])
+  if (lv < opsStart(oplog)) throw Error('付着先の要素は圧縮済みです')
+  if (ctx.itemsByLV[lv] == null || ctx.moveElems.has(lv)) {
+    throw Error('挿入操作ではないIDにはカーソルを付着できません')
+  }
+  const item = currentSlot(ctx, lv)
+
+  const pos = ctx.items.curPosOfItem(item)
+  return cursor.stick === 'left' && item.curState === ItemState.Inserted ? pos + 1 : pos
+}
@@ -0,0 +1,154 @@
+/**
+ * テキスト差分（setText）
+ *
+ * 編集後のテキスト全体を受け取り、現在の内容との最小の差分を挿入・削除の操作として記録する。
+ * textarea のような非制御の入力要素と連携する場合に、入力のたびに値をそのまま渡せばよい。
+ *
+ * 差分は先頭と末尾の一致部分を取り除いた中間部分に Myers の差分アルゴリズムを適用して求める。
+ * 中間部分の編集距離が MAX_DIFF_COST を超える場合は、計算量を抑えるため中間部分全体の置き換えにする。
+ */
+
+import { docInsert, docDelete, getContent, transact, type Document } from './document.js'
+import { textDocInsert, textDocDelete, type TextDocument } from './text-document.js'
+
+/** Myers の差分で探索する編集距離の上限 */
+const MAX_DIFF_COST = 1024
+
+/** docInsert に一度に渡す要素数の上限（引数の展開でスタックが溢れないようにする） */
+const INSERT_CHUNK = 10000
+
+/**
+ * 差分の1要素: 変更前の列の oldPos から del 個を削除し、変更後の列の newPos から ins 個を挿入する。
+ * 先頭から順に適用する場合、適用時点の位置は newPos になる。
+ */
+export interface DiffEdit {
+  oldPos: number
+  newPos: number
+  del: number
+  ins: number
+}
+
+/** 列 a を列 b に変換する差分を位置の昇順で返す（要素は === で比較する） */
+export function diffSequence<T>(a: ArrayLike<T>, b: ArrayLike<T>): DiffEdit[] {
+  // 先頭の一致部分
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  // 末尾の一致部分（先頭の一致部分とは重ならない）
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const n = a.length - prefix - suffix
+  const m = b.length - prefix - suffix
+  if (n === 0 && m === 0) return []
+  if (n === 0 || m === 0) return [{ oldPos: prefix, newPos: prefix, del: n, ins: m }]
+
+  return myersDiff(a, b, prefix, n, m) ?? [{ oldPos: prefix, newPos: prefix, del: n, ins: m }]
+}
+
+/**
+ * a[offset, offset + n) と b[offset, offset + m) の最短編集スクリプトを求める。
+ * 編集距離が MAX_DIFF_COST を超える場合は null を返す。
+ */
+function myersDiff<T>(
+  a: ArrayLike<T>,
+  b: ArrayLike<T>,
+  offset: number,
+  n: number,
+  m: number,
+): DiffEdit[] | null {
+  const limit = Math.min(n + m, MAX_DIFF_COST)
+  // v[k + o] は対角線 k 上で到達できる最も遠い x
+  const o = limit + 1
+  const v = new Int32Array(2 * limit + 3)
+  // trace[d] は d 手目を終えた時点の v の [-d, d] の範囲
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[o + k - 1]! < v[o + k + 1]!) ? v[o + k + 1]! : v[o + k - 1]! + 1
+      let y = x - k
+      while (x < n && y < m && a[offset + x] === b[offset + y]) {
+        x++
+        y++
+      }
+      v[o + k] = x
+      if (x >= n && y >= m) return backtrack(trace, d, n, m, offset)
+    }
+    trace.push(v.slice(o - d, o + d + 1))
+  }
+  return null
+}
+
+/** 探索の記録を終点からたどり、編集スクリプトを組み立てる */
+function backtrack(trace: Int32Array[], cost: number, n: number, m: number, offset: number): DiffEdit[] {
+  // 1手ずつの編集（終点から逆順）
+  const steps: { x: number; y: number; insert: boolean }[] = []
+  let x = n
+  let y = m
+  for (let d = cost; d > 0; d--) {
+    const prev = trace[d - 1]!
+    const k = x - y
+    const insert = k === -d || (k !== d && prev[k - 1 + d - 1]! < prev[k + 1 + d - 1]!)
+    const prevK = insert ? k + 1 : k - 1
+    const prevX = prev[prevK + d - 1]!
+    const prevY = prevX - prevK
+    steps.push({ x: prevX, y: prevY, insert })
+    x = prevX
+    y = prevY
+  }
+
+  // 連続する編集をまとめる
+  const edits: DiffEdit[] = []
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const step = steps[i]!
+    const last = edits[edits.length - 1]
+    const oldPos = offset + step.x
+    const newPos = offset + step.y
+    if (last == null || last.oldPos + last.del !== oldPos || last.newPos + last.ins !== newPos) {
+      edits.push({ oldPos, newPos, del: step.insert ? 0 : 1, ins: step.insert ? 1 : 0 })
+    } else if (step.insert) {
+      last.ins++
+    } else {
+      last.del++
+    }
+  }
+  return edits
+}
+
+/**
+ * ドキュメントの内容を newText に置き換える。
+ * 現在の内容との差分だけを agent のローカル編集として記録するため、
+ * 変わっていない部分への並行編集やカーソルはそのまま保たれる。
+ *
+ * Document<string> では1文字を1要素として扱い、編集全体を1つのトランザクションにまとめる。
+ * TextDocument では差分の編集ごとに変更を通知する。
+ */
+export function setText(doc: Document<string>, agent: string, newText: string): void
+export function setText(doc: TextDocument, agent: string, newText: string): void
+export function setText(doc: Document<string> | TextDocument, agent: string, newText: string): void {
+  if ('branch' in doc) {
+    const chars = newText.split('')
+    const edits = diffSequence(getContent(doc), chars)
+    if (edits.length === 0) return
+    transact(doc, agent, () => {
+      for (const { newPos, del, ins } of edits) {
+        if (del > 0) docDelete(doc, agent, newPos, del)
+        for (let pos = newPos; pos < newPos + ins; pos += INSERT_CHUNK) {
+          docInsert(doc, agent, pos, ...chars.slice(pos, Math.min(pos + INSERT_CHUNK, newPos + ins)))
+        }
+      }
+    })
+  } else {
+    for (const { newPos, del, ins } of diffSequence(doc.text, newText)) {
+      if (del > 0) textDocDelete(doc, agent, newPos, del)
+      if (ins > 0) textDocInsert(doc, agent, newPos, newText.slice(newPos, newPos + ins))
+    }
+  }
+}
@@ -5,39 +5,33 @@
  * 普段はプレーンテキスト＋操作ログだけで動作する。
  */
 
-import { localInsert, localDelete, createOpLog, mergeOplogInto } from './oplog.js'
+import { nextLV } from './causal-graph.js'
+import {
+  localInsert,
+  localDelete,
+  localMove,
+  pushTxn,
+  createOpLog,
+  mergeOplogInto,
+} from './oplog.js'
 import { checkout, mergeChangesIntoBranch } from './branch.js'
-import { versionContainsLV } from './causal-graph-advanced.js'
-import { lvEq } from './causal-graph.js'
+import { applySyncPatch, type SyncPatch } from './sync.js'
 import { Rope } from './rope.js'
+import {
+  hasObservers,
+  emitChange,
+  createDeltaRecorder,
+  recordInsert,
+  recordDelete,
+  type DeltaRecorder,
+} from './events.js'
 import type { LV, ListOpLog, Branch } from './types.js'
 
-/**
- * ブランチから全てのマージ先headsへ並行操作なしでfast-forward可能か判定。
- *
- * isFastForward(cg, from, to) は「from ⊆ to の履歴」を判定するが、
- * これだけでは不十分。例えば from=[4] to=[4,9] で 9 が 4 の子孫でない場合、
- * isFastForwardはtrueを返すが実際には並行操作がある。
- *
- * この関数は、to の全headsが from の子孫であることを確認する。
- */
-export function canFastForward(
-  cg: import('./types.js').CausalGraph,
-  branchVersion: LV[],
-  mergeHeads: LV[],
-): boolean {
-  if (lvEq(branchVersion, mergeHeads)) return true
-  if (branchVersion.length === 0) return mergeHeads.length === 0
-
-  for (const h of mergeHeads) {
-    // このheadがブランチバージョンに既に含まれていればスキップ
-    if (branchVersion.includes(h)) continue
-    // ブランチの全バージョンがこのheadの祖先であることを確認
-    for (const bv of branchVersion) {
-      if (!versionContainsLV(cg, [h], bv)) return false
-    }
-  }
-  return true
+/** 実行中のトランザクション */
+interface DocTxn<T> {
+  agent: string
+  /** まとめて通知する差分（購読者がいなければ null） */
+  rec: DeltaRecorder<T> | null
 }
 
 /** Document 内部状態: Rope + テキストキャッシュ */
@@ -45,6 +39,7 @@ interface DocState {
   rope: Rope | null  // 遅延構築（初回getText時）
   textCache: string | null
   needsRebuild: boolean  // Ropeの再構築が必要か
+  txn: DocTxn<unknown> | null  // 実行中のトランザクション
 }
 
 /** ドキュメント（OpLog + スナップショットの統合管理） */
@@ -69,7 +64,7 @@ export function createDocument<T = string>(): Document<T> {
   const doc: DocumentInternal<T> = {
     oplog: createOpLog<T>(),
     branch: { snapshot: [], version: [] },
-    _state: { rope: new Rope(), textCache: '', needsRebuild: false },
+    _state: { rope: new Rope(), textCache: '', needsRebuild: false, txn: null },
   }
   return doc
 }
@@ -82,7 +77,7 @@ export function openDocument<T>(oplog: ListOpLog<T>): Document<T> {
   const doc: DocumentInternal<T> = {
     oplog,
     branch: checkout(oplog),
-    _state: { rope: null, textCache: null, needsRebuild: true },
+    _state: { rope: null, textCache: null, needsRebuild: true, txn: null },
   }
   return doc
 }
@@ -99,11 +94,49 @@ export function restoreDocument<T>(
   const doc: DocumentInternal<T> = {
     oplog,
     branch: { snapshot: snapshot.slice(), version: version.slice() },
-    _state: { rope: null, textCache: null, needsRebuild: true },
+    _state: { rope: null, textCache: null, needsRebuild: true, txn: null },
   }
   return doc
 }
 
+/**
+ * ローカル編集の前処理。
+ * トランザクション中は同じエージェントの編集だけを受け付ける。
+ * Ropeを差分更新できる場合は true を返す（トランザクション中も編集ごとに差分更新する）。
+ */
+function beginLocalEdit<T>(doc: Document<T>, agent: string): boolean {
+  const state = getState(doc)
+  if (state.txn != null && state.txn.agent !== agent) {
+    throw Error('トランザクション中は別のエージェントで編集できません')
+  }
+  state.textCache = null
+  if (state.rope && !state.needsRebuild) return true
+  // Ropeが未構築なら次回getText時に再構築
+  state.needsRebuild = true
+  return false
+}
+
+/**
+ * ローカル編集の後処理: バージョンを更新して変更を通知する。
+ * トランザクション中は差分を記録するだけで、更新と通知はトランザクションの終わりにまとめて行う。
+ */
+function endLocalEdit<T>(doc: Document<T>, record: (rec: DeltaRecorder<T>) => void): void {
+  const txn = getState(doc).txn as DocTxn<T> | null
+  if (txn != null) {
+    if (txn.rec) record(txn.rec)
+    return
+  }
+
+  const branch = doc.branch as Branch<T>
+  branch.version = doc.oplog.cg.heads.slice()
+
+  if (hasObservers(doc)) {
+    const rec = createDeltaRecorder<T>()
+    record(rec)
+    emitChange(doc, 'local', rec.delta)
+  }
+}
+
 /**
  * ローカル挿入。
  * OpLogとスナップショットの両方を直接更新する。
@@ -115,23 +148,18 @@ export function docInsert<T>(
   pos: number,
   ...content: T[]
 ): void {
+  const updateRope = beginLocalEdit(doc, agent)
   localInsert(doc.oplog, agent, pos, ...content)
   const branch = doc.branch as Branch<T>
   branch.snapshot.splice(pos, 0, ...content)
 
-  // Rope にも挿入 + キャッシュ無効化
-  const state = getState(doc)
-  if (state.rope && !state.needsRebuild) {
-    for (let i = 0; i < content.length; i++) {
-      state.rope.insert(pos + i, String(content[i]))
-    }
-  } else {
-    // Ropeが未構築なら次回getText時に再構築
-    state.needsRebuild = true
+  // Rope にも挿入
+  const rope = getState(doc).rope
+  if (updateRope && rope) {
+    rope.insertRange(pos, content.map(String))
   }
-  state.textCache = null
 
-  branch.version = doc.oplog.cg.heads.slice()
+  endLocalEdit(doc, (rec) => recordInsert(rec, pos, content))
 }
 
 /**
@@ -145,23 +173,90 @@ export function docDelete<T>(
   pos: number,
   len: number = 1,
 ): void {
-  localDelete(doc.oplog, agent, pos, len)
   const branch = doc.branch as Branch<T>
+  if (pos < 0 || pos + len > branch.snapshot.length) {
+    throw Error('範囲外の削除: ' + pos + ' + ' + len)
+  }
+  const updateRope = beginLocalEdit(doc, agent)
+  localDelete(doc.oplog, agent, pos, len)
   branch.snapshot.splice(pos, len)
 
-  // Rope からも削除 + キャッシュ無効化
+  // Rope からも削除
+  const rope = getState(doc).rope
+  if (updateRope && rope) {
+    rope.deleteRange(pos, len)
+  }
+
+  endLocalEdit(doc, (rec) => recordDelete(rec, pos, len))
+}
+
+/**
+ * ローカル移動。
+ * from の要素を取り除き、取り除いた後の列の to に入れる。
+ * 並行して同じ要素を移動した場合は、マージ後に1か所にだけ残る。
+ */
+export function docMove<T>(
+  doc: Document<T>,
+  agent: string,
+  from: number,
+  to: number,
+): void {
+  const branch = doc.branch as Branch<T>
+  const length = branch.snapshot.length
+  if (from < 0 || from >= length || to < 0 || to >= length) {
+    throw Error('範囲外の移動: ' + from + ' → ' + to)
+  }
+  const updateRope = beginLocalEdit(doc, agent)
+  localMove(doc.oplog, agent, from, to)
+  const [content] = branch.snapshot.splice(from, 1) as [T]
+  branch.snapshot.splice(to, 0, content)
+
+  // Rope も更新
+  const rope = getState(doc).rope
+  if (updateRope && rope) {
+    rope.delete(from)
+    rope.insert(to, String(content))
+  }
+
+  endLocalEdit(doc, (rec) => {
+    recordDelete(rec, from, 1)
+    recordInsert(rec, to, [content])
+  })
+}
+
+/**
+ * 複数のローカル編集を1つの論理的な変更としてまとめる。
+ *
+ * fn の中で agent による docInsert / docDelete / docMove を呼ぶと、
+ * バージョンの更新と変更の通知は fn の終了時に1回だけ行い、UndoManager では1回の取り消し単位になる。
+ * まとめた操作の範囲は OpLog にトランザクションとして記録し、同期時には一括で届けられる。
+ * OpLog は追記のみなので、fn が例外を投げた場合もそれまでの編集は残る（通知してから例外を投げ直す）。
+ * トランザクションは入れ子にでき、内側は外側の一部として扱う。
+ */
+export function transact<T, R>(doc: Document<T>, agent: string, fn: () => R): R {
   const state = getState(doc)
-  if (state.rope && !state.needsRebuild) {
-    for (let i = 0; i < len; i++) {
-      state.rope.delete(pos)
+  if (state.txn != null) {
+    if (state.txn.agent !== agent) {
+      throw Error('トランザクション中は別のエージェントで編集できません')
     }
-  } else {
-    // Ropeが未構築なら次回getText時に再構築
-    state.needsRebuild = true
+    return fn()
   }
-  state.textCache = null
 
-  branch.version = doc.oplog.cg.heads.slice()
+  const start = nextLV(doc.oplog.cg)
+  const txn: DocTxn<T> = { agent, rec: hasObservers(doc) ? createDeltaRecorder<T>() : null }
+  state.txn = txn
+  try {
+    return fn()
+  } finally {
+    state.txn = null
+    const end = nextLV(doc.oplog.cg)
+    if (end > start) {
+      pushTxn(doc.oplog, start, end)
+      const branch = doc.branch as Branch<T>
+      branch.version = doc.oplog.cg.heads.slice()
+      if (txn.rec) emitChange(doc, 'local', txn.rec.delta, true)
+    }
+  }
 }
 
 /** スナップショットの内容を取得（即時） */
@@ -189,30 +284,41 @@ export function getText(doc: Document<string>): string {
  * リモートのOpLogをマージ。
  *
  * fast-forward可能ならインクリメンタル更新（CRDT構造不要）。
- * 並行編集がある場合はフルリプレイで正確な収束を保証
+ * 並行編集がある場合は共通祖先以降の操作のみを再生して競合を解決する
  * （一時的にCRDT構造を構築→競合解決→破棄）。
  */
 export function mergeRemote<T>(
   doc: Document<T>,
   remoteOplog: ListOpLog<T>,
 ): void {
+  if (getState(doc).txn != null) throw Error('トランザクション中はマージできません')
   mergeOplogInto(doc.oplog, remoteOplog)
-  const branch = doc.branch as Branch<T>
-  const heads = doc.oplog.cg.heads
+  applyRemoteChanges(doc)
+}
 
-  if (canFastForward(doc.oplog.cg, branch.version, heads)) {
-    // fast-forward: スナップショットに直接適用（CRDT構造不要）
-    mergeChangesIntoBranch(branch, doc.oplog)
-  } else {
-    // 並行編集あり: フルリプレイで正確な収束を保証
-    const newBranch = checkout(doc.oplog)
-    branch.snapshot = newBranch.snapshot
-    branch.version = newBranch.version
-  }
+/**
+ * 同期パッチをマージする（不足している操作だけを受け取る場合の mergeRemote）。
+ * 親が未知の操作を含むパッチは何も適用せずにエラーになる。
+ */
+export function mergeRemotePatch<T>(
+  doc: Document<T>,
+  patch: SyncPatch<T>,
+): void {
+  if (getState(doc).txn != null) throw Error('トランザクション中はマージできません')
+  applySyncPatch(doc.oplog, patch)
+  applyRemoteChanges(doc)
+}
+
+/** OpLog に追加されたリモートの操作をスナップショットに反映し、変更を通知する */
+function applyRemoteChanges<T>(doc: Document<T>): void {
+  const rec = hasObservers(doc) ? createDeltaRecorder<T>() : null
+  mergeChangesIntoBranch(doc.branch as Branch<T>, doc.oplog, doc.oplog.cg.heads, rec)
 
   // Rope は遅延再構築 + キャッシュ無効化
   const state = getState(doc)
   state.rope = null
   state.textCache = null
   state.needsRebuild = true
+
+  if (rec) emitChange(doc, 'remote', rec.delta)
 }
@@ -0,0 +1,156 @@
+/**
+ * textarea との双方向バインディング
+ *
+ * 入力要素への入力を TextDocument のローカル編集として記録し、
+ * リモートのマージなど入力以外の変更は要素の値に反映する。
+ * 反映時には選択範囲を変更の差分に沿って移動するため、他のユーザーの編集でカーソルが飛ばない。
+ *
+ * 要素は value と選択範囲を持つもの（textarea / input）を対象とし、
+ * DOM に依存しないよう必要なプロパティだけを BindableElement として受け取る。
+ */
+
+import { textDocInsert, textDocDelete, type TextDocument } from './text-document.js'
+import { setText } from './diff.js'
+import { observe, type Delta } from './events.js'
+
+/** バインドできる入力要素（HTMLTextAreaElement / HTMLInputElement が満たす） */
+export interface BindableElement {
+  value: string
+  selectionStart: number | null
+  selectionEnd: number | null
+  selectionDirection?: 'forward' | 'backward' | 'none' | null
+  setSelectionRange(start: number, end: number, direction?: 'forward' | 'backward' | 'none'): void
+  addEventListener(type: 'beforeinput' | 'input', listener: () => void): void
+  removeEventListener(type: 'beforeinput' | 'input', listener: () => void): void
+}
+
+/** 入力要素と TextDocument のバインディング */
+export interface TextBinding {
+  readonly element: BindableElement
+  readonly doc: TextDocument
+  readonly agent: string
+}
+
+/** 内部状態 */
+interface TextBindingInternal extends TextBinding {
+  /** beforeinput 時点の選択範囲（入力で置き換えられる範囲） */
+  pending: { start: number; end: number } | null
+  /** 入力を記録中か（記録中の変更通知は要素に反映しない） */
+  recording: boolean
+  onBeforeInput: () => void
+  onInput: () => void
+  unobserve: () => void
+}
+
+/**
+ * element を doc にバインドする。
+ * バインド時に要素の値をドキュメントの内容に合わせ、以降の入力を agent の編集として記録する。
+ */
+export function bind(element: BindableElement, doc: TextDocument, agent: string): TextBinding {
+  const binding: TextBindingInternal = {
+    element,
+    doc,
+    agent,
+    pending: null,
+    recording: false,
+    onBeforeInput: () => {
+      binding.pending = {
+        start: element.selectionStart ?? 0,
+        end: element.selectionEnd ?? element.selectionStart ?? 0,
+      }
+    },
+    onInput: () => recordInput(binding),
+    unobserve: () => {},
+  }
+
+  element.value = doc.text
+  element.addEventListener('beforeinput', binding.onBeforeInput)
+  element.addEventListener('input', binding.onInput)
+  binding.unobserve = observe(doc, (event) => {
+    if (!binding.recording) applyDelta(binding, event.delta)
+  })
+  return binding
+}
+
+/** バインディングを解除する。要素の値はそのまま残る */
+export function unbind(binding: TextBinding): void {
+  const internal = binding as TextBindingInternal
+  internal.element.removeEventListener('beforeinput', internal.onBeforeInput)
+  internal.element.removeEventListener('input', internal.onInput)
+  internal.unobserve()
+}
+
+/**
+ * 要素の値の変化をローカル編集として記録する。
+ * beforeinput で得た選択範囲を置き換えた入力であればその通りに記録し、
+ * そうでなければ（IMEの確定や自動補完など）差分から編集を求める。
+ */
+function recordInput(binding: TextBindingInternal): void {
+  const { element, doc, agent, pending } = binding
+  const oldText = doc.text
+  const newText = element.value
+  binding.pending = null
+  binding.recording = true
+  try {
+    if (pending != null && isReplacement(oldText, newText, pending.start, pending.end)) {
+      const inserted = newText.slice(pending.start, newText.length - (oldText.length - pending.end))
+      if (pending.end > pending.start) textDocDelete(doc, agent, pending.start, pending.end - pending.start)
+      if (inserted.length > 0) textDocInsert(doc, agent, pending.start, inserted)
+    } else {
+      setText(doc, agent, newText)
+    }
+  } finally {
+    binding.recording = false
+  }
+}
+
+/** newText が oldText の [start, end) を何かで置き換えたものか */
+function isReplacement(oldText: string, newText: string, start: number, end: number): boolean {
+  const tail = oldText.length - end
+  return (
+    start <= end &&
+    end <= oldText.length &&
+    newText.length >= start + tail &&
+    newText.startsWith(oldText.slice(0, start)) &&
+    newText.endsWith(oldText.slice(end))
+  )
+}
+
+/** 入力以外の変更を要素に反映し、選択範囲を差分に沿って移動する */
+function applyDelta(binding: TextBindingInternal, delta: Delta<string>): void {
+  const { element, doc } = binding
+  const start = element.selectionStart
+  const end = element.selectionEnd
+  const direction = element.selectionDirection
+  element.value = doc.text
+  if (start == null || end == null) return
+
+  const newStart = transformPosition(delta, start)
+  const newEnd = Math.max(newStart, transformPosition(delta, end))
+  if (direction != null) {
+    element.setSelectionRange(newStart, newEnd, direction)
+  } else {
+    element.setSelectionRange(newStart, newEnd)
+  }
+}
+
+/**
+ * 変更前の位置 pos を変更後の位置に変換する。
+ * ちょうど pos への挿入は pos より後ろに入るものとして扱う（カーソルは挿入された内容の前に残る）。
+ */
+function transformPosition(delta: Delta<string>, pos: number): number {
+  let oldPos = 0
+  let result = pos
+  for (const op of delta) {
+    if (oldPos > pos) break
+    if ('retain' in op) {
+      oldPos += op.retain
+    } else if ('insert' in op) {
+      if (oldPos < pos) result += op.insert.length
+    } else {
+      result -= Math.min(op.delete, pos - oldPos)
+      oldPos += op.delete
+    }
+  }
+  return result
+}
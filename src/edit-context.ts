@@ -5,23 +5,40 @@
  * Fugue/YjsMod CRDTの統合アルゴリズムとイベントグラフの歩行ロジック。
  *
  * 順序統計木を使い、findByCurPos を O(log n) で実行する。
+ *
+ * 移動操作は移動先に新しいアイテム（スロット）を統合し、要素は勝者のスロットにだけ表示する。
+ * 並行する移動は因果的に後のものが、それでも決まらなければ (エージェント, シーケンス番号) が最大のものが勝つ。
  */
 
 import {
   nextLV,
   lvCmp,
+  advanceFrontier,
 } from './causal-graph.js'
 import { binarySearch } from './utils/binary-search.js'
-import { diff } from './causal-graph-advanced.js'
+import { diff, sameFrontier, findDominators } from './causal-graph-advanced.js'
 import { OrderStatisticTree } from './order-statistic-tree.js'
+import {
+  getOp,
+  sliceTargetOps,
+  opsStart,
+  containsBase,
+  opTarget,
+  DEFAULT_SEQUENCE,
+} from './oplog.js'
 import {
   ItemState,
+  type LV,
   type Item,
   type EditContext,
   type ListOpLog,
   type CausalGraph,
+  type MarkOp,
+  type MarkAnchor,
+  type MarkAnchors,
+  type MovedElement,
 } from './types.js'
-import type { SnapshotOps } from './snapshot-ops.js'
+import { batchSnapshot, type SnapshotOps } from './snapshot-ops.js'
 
 // ===== ヘルパー =====
 
@@ -32,6 +49,12 @@ const NYI = ItemState.NotYetInserted
 const INS = ItemState.Inserted
 const DEL = ItemState.Deleted
 
+/**
+ * プレースホルダーアイテムのIDの開始値。
+ * マージ時に共通祖先時点の文書を表すアイテムは、このオフセット以降のIDを持つ。
+ */
+export const PLACEHOLDER_OFFSET = 1e12
+
 /** ドキュメント内カーソル */
 interface DocCursor {
   idx: number
@@ -49,15 +72,103 @@ function findByCurPos(ctx: EditContext, targetPos: number): DocCursor {
   return { idx: result.idx, endPos: result.endPos }
 }
 
+/** LV（またはプレースホルダーID）からアイテムを取得する */
+export const itemByLV = (ctx: EditContext, lv: number): Item | null =>
+  lv >= PLACEHOLDER_OFFSET
+    ? ctx.items.getPlaceholder(lv)
+    : (ctx.itemsByLV[lv] ?? null)
+
 /** opIdでアイテムのインデックスを検索する O(log n) */
 const findItemIdx = (ctx: EditContext, needle: number): number => {
-  const item = ctx.itemsByLV[needle]
+  const item = itemByLV(ctx, needle)
   if (!item) throw Error('アイテムが見つかりません: ' + needle)
   const idx = ctx.items.indexOfItem(item)
   if (idx === -1) throw Error('アイテムが見つかりません: ' + needle)
   return idx
 }
 
+/** 操作が歩行中のシーケンスを対象とするか */
+const isTargetOp = <T>(ctx: EditContext, oplog: ListOpLog<T>, lv: LV): boolean =>
+  oplog.targets == null ? ctx.target === DEFAULT_SEQUENCE : opTarget(oplog, lv) === ctx.target
+
+// ===== 移動された要素 =====
+
+/** アイテムが表す要素のID（移動先のスロットなら移動した要素のID） */
+export const elementOf = (ctx: EditContext, item: Item): number =>
+  ctx.moveElems.get(item.opId) ?? item.opId
+
+/** 要素を現在のバージョンで置いているアイテム（移動されていなければ挿入したアイテム自身） */
+export const currentSlot = (ctx: EditContext, id: number): Item =>
+  ctx.moved.get(id)?.curSlot ?? itemByLV(ctx, id)!
+
+/** 移動操作のうち勝者（因果的に最後のもの。並行する場合は (エージェント, シーケンス番号) が最大のもの） */
+function winningMove(cg: CausalGraph, moves: LV[]): LV {
+  let best = -1
+  for (const lv of findDominators(cg, moves)) {
+    if (best === -1 || lvCmp(cg, lv, best) > 0) best = lv
+  }
+  return best
+}
+
+/** スロットのアイテムを取得する */
+const slotItem = (elem: MovedElement, lv: LV): Item =>
+  elem.slots.find((slot) => slot.item.opId === lv)!.item
+
+/** アイテムの表示用の状態を変更し、変わった場合はツリーのカウンタを更新する */
+function setDisplayState(ctx: EditContext, item: Item, curState: ItemState, endState: ItemState): void {
+  if (item.curState === curState && item.endState === endState) return
+  item.curState = curState
+  item.endState = endState
+  ctx.items.refreshCountsForItem(item)
+}
+
+/**
+ * 要素のスロットの表示用の状態を、要素の状態と既知の移動から計算し直す。
+ * 要素は勝者のスロットにだけ表示され、他のスロットは削除済みのアイテムとして扱う。
+ */
+function refreshMoved(ctx: EditContext, cg: CausalGraph, elem: MovedElement): void {
+  const known: LV[] = []
+  for (const slot of elem.slots) if (slot.known) known.push(slot.item.opId)
+  elem.curSlot = known.length === 0 ? elem.item : slotItem(elem, winningMove(cg, known))
+
+  const display = (item: Item, isKnown: boolean): void => {
+    const curState = !isKnown ? NYI : item === elem.curSlot && elem.curState === INS ? INS : DEL
+    const endState = item === elem.endSlot && !elem.endDeleted ? INS : DEL
+    setDisplayState(ctx, item, curState, endState)
+  }
+  display(elem.item, elem.curState !== NYI)
+  for (const slot of elem.slots) display(slot.item, slot.known)
+}
+
+/** 要素の移動状態（まだなければ挿入したアイテムの状態から作る） */
+function movedElement(ctx: EditContext, id: number): MovedElement {
+  let elem = ctx.moved.get(id)
+  if (elem == null) {
+    const item = itemByLV(ctx, id)!
+    elem = {
+      item,
+      curState: item.curState,
+      endDeleted: item.endState === DEL,
+      slots: [],
+      curSlot: item,
+      endSlot: item,
+    }
+    ctx.moved.set(id, elem)
+  }
+  return elem
+}
+
+/** 移動操作の既知の状態を切り替える */
+function setMoveKnown(ctx: EditContext, cg: CausalGraph, opId: LV, known: boolean): void {
+  const elem = ctx.moved.get(ctx.moveElems.get(opId)!)!
+  const slot = elem.slots.find((s) => s.item.opId === opId)!
+  if (slot.known === known) {
+    throw Error('無効な状態 - 移動操作の' + (known ? 'advance' : 'retreat') + ': ' + opId)
+  }
+  slot.known = known
+  refreshMoved(ctx, cg, elem)
+}
+
 // ===== advance1 =====
 
 /**
@@ -69,28 +180,38 @@ function advance1<T>(
   oplog: ListOpLog<T>,
   opId: number,
 ): void {
-  const op = oplog.ops[opId]!
+  const op = getOp(oplog, opId)
+  // 書式操作・マップ操作と他のシーケンスの操作はアイテムの状態を変えない
+  if (op.type === 'mark' || op.type === 'map' || !isTargetOp(ctx, oplog, opId)) return
+  if (op.type === 'move') {
+    setMoveKnown(ctx, oplog.cg, opId, true)
+    return
+  }
   const targetLV = op.type === 'del' ? ctx.delTargets[opId]! : opId
-  const item = ctx.itemsByLV[targetLV]!
+  const item = itemByLV(ctx, targetLV)!
+  // 移動された要素は要素自体の状態を変更する
+  const elem = ctx.moved.get(targetLV)
+  const state = elem ?? item
 
   if (op.type === 'del') {
-    if (item.curState < INS) {
-      throw Error('無効な状態 - advance削除だがアイテムの状態が: ' + item.curState)
+    if (state.curState < INS) {
+      throw Error('無効な状態 - advance削除だがアイテムの状態が: ' + state.curState)
     }
-    if (item.endState < DEL) {
+    if (elem != null ? !elem.endDeleted : item.endState < DEL) {
       throw Error('endStateが削除でないアイテムのadvance削除')
     }
     // 削除カウントを増やす
-    item.curState = (item.curState + 1) as unknown as ItemState
+    state.curState = (state.curState + 1) as unknown as ItemState
   } else {
-    if (item.curState !== NYI) {
+    if (state.curState !== NYI) {
       throw Error('既に挿入されたアイテムのadvance挿入: ' + opId)
     }
-    item.curState = INS
+    state.curState = INS
   }
 
   // 状態変更後にツリーのカウンタを更新（O(log n)）
-  ctx.items.refreshCountsForItem(item)
+  if (elem != null) refreshMoved(ctx, oplog.cg, elem)
+  else ctx.items.refreshCountsForItem(item)
 }
 
 // ===== retreat1 =====
@@ -104,28 +225,36 @@ function retreat1<T>(
   oplog: ListOpLog<T>,
   opId: number,
 ): void {
-  const op = oplog.ops[opId]!
+  const op = getOp(oplog, opId)
+  if (op.type === 'mark' || op.type === 'map' || !isTargetOp(ctx, oplog, opId)) return
+  if (op.type === 'move') {
+    setMoveKnown(ctx, oplog.cg, opId, false)
+    return
+  }
   const targetLV = op.type === 'del' ? ctx.delTargets[opId]! : opId
-  const item = ctx.itemsByLV[targetLV]!
+  const item = itemByLV(ctx, targetLV)!
+  const elem = ctx.moved.get(targetLV)
+  const state = elem ?? item
 
   if (op.type === 'del') {
-    if (item.curState < DEL) {
+    if (state.curState < DEL) {
       throw Error('現在削除されていないアイテムのretreat削除')
     }
-    if (item.endState < DEL) {
+    if (elem != null ? !elem.endDeleted : item.endState < DEL) {
       throw Error('endStateが削除でないアイテムのretreat削除')
     }
   } else {
-    if (item.curState !== INS) {
+    if (state.curState !== INS) {
       throw Error('挿入状態でないアイテムのretreat挿入')
     }
   }
 
   // curStateを1つ戻す
-  item.curState = (item.curState - 1) as unknown as ItemState
+  state.curState = (state.curState - 1) as unknown as ItemState
 
   // 状態変更後にツリーのカウンタを更新（O(log n)）
-  ctx.items.refreshCountsForItem(item)
+  if (elem != null) refreshMoved(ctx, oplog.cg, elem)
+  else ctx.items.refreshCountsForItem(item)
 }
 
 // ===== integrate =====
@@ -204,9 +333,134 @@ function integrate(
 
 // ===== apply1 =====
 
+/** 現在のバージョンで pos にある（Inserted 状態の）アイテム */
+function visibleItemAt(ctx: EditContext, pos: number): Item {
+  let { idx } = findByCurPos(ctx, pos)
+  let item = ctx.items.getByIndex(idx)!
+  while (item.curState !== INS) item = ctx.items.getByIndex(++idx)!
+  return item
+}
+
+/**
+ * 書式操作の範囲の両端を、現在のバージョンのアイテムへのアンカーに変換する。
+ * 広げる側の端は範囲外の隣の要素に、広げない側の端は範囲内の端の要素に付着させる。
+ */
+function resolveMark(ctx: EditContext, mark: MarkOp): MarkAnchors {
+  const length = ctx.items.curLength
+  if (mark.end > length) throw Error('範囲外の書式範囲: ' + mark.end)
+  const expandBefore = mark.expand === 'before' || mark.expand === 'both'
+  const expandAfter = mark.expand === 'after' || mark.expand === 'both'
+
+  const start: MarkAnchor = expandBefore
+    ? mark.start === 0 ? null : { id: visibleItemAt(ctx, mark.start - 1).opId, side: 'after' }
+    : { id: visibleItemAt(ctx, mark.start).opId, side: 'before' }
+  const end: MarkAnchor = expandAfter
+    ? mark.end === length ? null : { id: visibleItemAt(ctx, mark.end).opId, side: 'before' }
+    : { id: visibleItemAt(ctx, mark.end - 1).opId, side: 'after' }
+  return [start, end]
+}
+
+/**
+ * 現在のバージョンの pos に新しいアイテムを統合して木に挿入し、挿入した位置のカーソルを返す。
+ * 挿入操作のアイテムと移動操作のスロットに共通の処理。
+ */
+function insertItem(
+  ctx: EditContext,
+  cg: CausalGraph,
+  opId: LV,
+  pos: number,
+  endState: ItemState,
+): DocCursor {
+  // 挿入: YjsMod統合アルゴリズムを使用
+  const cursor = findByCurPos(ctx, pos)
+
+  // 前のアイテムがInserted状態であることを確認
+  if (cursor.idx > 0) {
+    const prevItem = ctx.items.getByIndex(cursor.idx - 1)!
+    if (prevItem.curState !== INS) {
+      throw Error('前のアイテムがInserted状態ではありません')
+    }
+  }
+
+  // originLeftは左隣のアイテムのLV
+  const originLeft =
+    cursor.idx === 0 ? -1 : ctx.items.getByIndex(cursor.idx - 1)!.opId
+
+  // rightParentの検索（Fugue方式）
+  let rightParent = -1
+  for (let i = cursor.idx; i < ctx.items.length; i++) {
+    const nextItem = ctx.items.getByIndex(i)!
+    if (nextItem.curState !== NYI) {
+      // Fugue方式: originLeftが同じならrightParentとする
+      rightParent =
+        nextItem.originLeft === originLeft ? nextItem.opId : -1
+      break
+    }
+  }
+
+  const newItem: Item = {
+    curState: INS,
+    endState,
+    opId,
+    originLeft,
+    rightParent,
+  }
+  ctx.itemsByLV[opId] = newItem
+
+  // 統合アルゴリズムでカーソル位置を決定
+  integrate(ctx, cg, newItem, cursor)
+
+  // 順序統計木に挿入
+  ctx.items.insertAt(cursor.idx, newItem)
+  return cursor
+}
+
+/**
+ * 移動操作を適用する。
+ * 移動先にスロットを統合し、最終状態の勝者のスロットが変わった場合はスナップショットの要素を移す。
+ */
+function applyMove<T>(
+  ctx: EditContext,
+  snapshot: SnapshotOps<T> | null,
+  cg: CausalGraph,
+  opId: LV,
+  from: number,
+  to: number,
+): void {
+  const length = ctx.items.curLength
+  if (from >= length || to >= length) throw Error('範囲外の移動: ' + from + ' → ' + to)
+
+  const visible = visibleItemAt(ctx, from)
+  const id = elementOf(ctx, visible)
+  const elem = movedElement(ctx, id)
+
+  // 移動先の位置は要素を取り除いた列で数える
+  // （アイテムの状態が変わるのでカーソルヒントは無効化する）
+  setDisplayState(ctx, visible, DEL, visible.endState)
+  ctx._cursorHint = null
+  insertItem(ctx, cg, opId, to, DEL)
+  elem.slots.push({ item: ctx.itemsByLV[opId]!, known: true })
+  ctx.moveElems.set(opId, id)
+
+  const oldEnd = elem.endSlot
+  elem.endSlot = slotItem(elem, winningMove(cg, elem.slots.map((slot) => slot.item.opId)))
+  if (elem.endDeleted || oldEnd === elem.endSlot) {
+    refreshMoved(ctx, cg, elem)
+    return
+  }
+
+  // 最終状態で要素の置かれるスロットが変わったので、スナップショットの要素を移す
+  const oldPos = ctx.items.endPosOfItem(oldEnd)
+  const content = snapshot?.get(oldPos)
+  if (snapshot) snapshot.delete(oldPos)
+  refreshMoved(ctx, cg, elem)
+  if (snapshot) snapshot.insert(ctx.items.endPosOfItem(elem.endSlot), content!)
+}
+
 /**
  * 操作を適用する。
- * 挿入: integrate→insertAt、削除: 対象特定→状態更新
+ * 挿入: integrate→insertAt、削除: 対象特定→状態更新、書式: 両端のアンカーを記録、
+ * 移動: 移動先にスロットを統合
  */
 function apply1<T>(
   ctx: EditContext,
@@ -214,9 +468,16 @@ function apply1<T>(
   oplog: ListOpLog<T>,
   opId: number,
 ): void {
-  const op = oplog.ops[opId]!
-
-  if (op.type === 'del') {
+  if (!isTargetOp(ctx, oplog, opId)) return
+  const op = getOp(oplog, opId)
+  // マップ操作は列に影響しない
+  if (op.type === 'map') return
+
+  if (op.type === 'mark') {
+    ctx.markAnchors.set(opId, resolveMark(ctx, op.mark))
+  } else if (op.type === 'move') {
+    applyMove(ctx, snapshot, oplog.cg, opId, op.from, op.to)
+  } else if (op.type === 'del') {
     // 削除: 対象アイテムを見つけてマーク
     const cursor = findByCurPos(ctx, op.pos)
 
@@ -233,65 +494,34 @@ function apply1<T>(
       throw Error('現在Insertedでないアイテムを削除しようとしています')
     }
 
-    // 出力から削除
-    if (item.endState === INS) {
-      if (snapshot) snapshot.delete(cursor.endPos)
-    }
+    // 状態を更新（移動された要素は、最終状態で置かれているスロットから要素自体を削除する）
+    const id = elementOf(ctx, item)
+    const elem = ctx.moved.get(id)
+    if (elem != null) {
+      if (!elem.endDeleted && snapshot) snapshot.delete(ctx.items.endPosOfItem(elem.endSlot))
+      elem.curState = DEL
+      elem.endDeleted = true
+      refreshMoved(ctx, oplog.cg, elem)
+    } else {
+      // 出力から削除
+      if (item.endState === INS) {
+        if (snapshot) snapshot.delete(cursor.endPos)
+      }
 
-    // 状態を更新
-    item.curState = DEL
-    item.endState = DEL
+      item.curState = DEL
+      item.endState = DEL
 
-    // ツリーのカウンタを更新（O(log n)）
-    ctx.items.refreshCountsForItem(item)
+      // ツリーのカウンタを更新（O(log n)）
+      ctx.items.refreshCountsForItem(item)
+    }
 
-    // この削除が対象とするアイテムを記録
-    ctx.delTargets[opId] = item.opId
+    // この削除が対象とする要素を記録
+    ctx.delTargets[opId] = id
 
     // 削除後はカーソルヒントを無効化
     ctx._cursorHint = null
   } else {
-    // 挿入: YjsMod統合アルゴリズムを使用
-    const cursor = findByCurPos(ctx, op.pos)
-
-    // 前のアイテムがInserted状態であることを確認
-    if (cursor.idx > 0) {
-      const prevItem = ctx.items.getByIndex(cursor.idx - 1)!
-      if (prevItem.curState !== INS) {
-        throw Error('前のアイテムがInserted状態ではありません')
-      }
-    }
-
-    // originLeftは左隣のアイテムのLV
-    const originLeft =
-      cursor.idx === 0 ? -1 : ctx.items.getByIndex(cursor.idx - 1)!.opId
-
-    // rightParentの検索（Fugue方式）
-    let rightParent = -1
-    for (let i = cursor.idx; i < ctx.items.length; i++) {
-      const nextItem = ctx.items.getByIndex(i)!
-      if (nextItem.curState !== NYI) {
-        // Fugue方式: originLeftが同じならrightParentとする
-        rightParent =
-          nextItem.originLeft === originLeft ? nextItem.opId : -1
-        break
-      }
-    }
-
-    const newItem: Item = {
-      curState: INS,
-      endState: INS,
-      opId,
-      originLeft,
-      rightParent,
-    }
-    ctx.itemsByLV[opId] = newItem
-
-    // 統合アルゴリズムでカーソル位置を決定
-    integrate(ctx, oplog.cg, newItem, cursor)
-
-    // 順序統計木に挿入
-    ctx.items.insertAt(cursor.idx, newItem)
+    const cursor = insertItem(ctx, oplog.cg, opId, op.pos, INS)
 
     // スナップショットに挿入
     if (snapshot) snapshot.insert(cursor.endPos, op.content)
@@ -307,11 +537,72 @@ function apply1<T>(
 
 // ===== traverseAndApply =====
 
+/**
+ * アイテムの curState を version 時点の状態にする（retreat / advance のみで、apply はしない）。
+ * version に含まれる操作はすべてコンテキストに適用済みである必要がある。
+ */
+export function moveToVersion<T>(
+  ctx: EditContext,
+  oplog: ListOpLog<T>,
+  version: LV[],
+): void {
+  const { aOnly, bOnly } = diff(oplog.cg, ctx.curVersion, version)
+
+  const retreat = aOnly
+  const advance = bOnly
+
+  // retreat/advanceがある場合、curStateが変わるためカーソルヒント無効化
+  if (retreat.length > 0 || advance.length > 0) {
+    ctx._cursorHint = null
+  }
+
+  // Retreat: 逆順で処理（削除を元に戻してから挿入を元に戻す）
+  for (let i = retreat.length - 1; i >= 0; i--) {
+    const [start, end] = retreat[i]!
+    for (let lv = end - 1; lv >= start; lv--) {
+      retreat1(ctx, oplog, lv)
+    }
+  }
+
+  // Advance: 順方向で処理
+  for (const [start, end] of advance) {
+    for (let lv = start; lv < end; lv++) {
+      advance1(ctx, oplog, lv)
+    }
+  }
+
+  ctx.curVersion = version.slice()
+}
+
+/**
+ * 1エントリ分（親が parents の連続した操作 [vStart, vEnd)）を適用する。
+ * 親バージョンに合わせてretreat/advanceでコンテキストの状態を調整してからapply。
+ */
+function applyEntry<T>(
+  ctx: EditContext,
+  oplog: ListOpLog<T>,
+  snapshot: SnapshotOps<T> | null,
+  vStart: LV,
+  vEnd: LV,
+  parents: LV[],
+): void {
+  moveToVersion(ctx, oplog, parents)
+
+  // Apply: 操作を適用
+  for (let lv = vStart; lv < vEnd; lv++) {
+    apply1(ctx, snapshot, oplog, lv)
+  }
+
+  // 現在のバージョンを更新
+  ctx.curVersion = [vEnd - 1]
+}
+
 /**
  * イベントグラフを歩行して操作を適用するメインループ。
  *
  * 操作を順番に処理し、各操作の親バージョンに合わせて
  * retreat/advanceでコンテキストの状態を調整してからapply。
+ * スナップショットへの連続した挿入・削除は範囲の操作にまとめて適用する。
  */
 export function traverseAndApply<T>(
   ctx: EditContext,
@@ -321,6 +612,35 @@ export function traverseAndApply<T>(
   toOp: number = nextLV(oplog.cg),
 ): void {
   if (fromOp === toOp) return
+  const batched = snapshot && batchSnapshot(snapshot)
+  traverse(ctx, oplog, batched, fromOp, toOp)
+  batched?.flush()
+}
+
+/** traverseAndApply の本体 */
+function traverse<T>(
+  ctx: EditContext,
+  oplog: ListOpLog<T>,
+  snapshot: SnapshotOps<T> | null,
+  fromOp: number,
+  toOp: number,
+): void {
+
+  // 空のコンテキストから全履歴を歩行する場合のみクリティカルバージョンを利用できる
+  const fromScratch = fromOp === 0 && ctx.items.length === 0 && ctx.curVersion.length === 0
+  if (fromScratch && ctx.clearAtCriticalVersions) {
+    traverseWithCriticalVersions(ctx, oplog, snapshot, toOp)
+    return
+  }
+
+  // 圧縮済みの場合はベース時点の文書を1つのプレースホルダーのランとして始める
+  // （スナップショットには呼び出し側でベースの内容を入れておく）
+  if (fromScratch && oplog.base != null) {
+    ctx.items.pushPlaceholder(PLACEHOLDER_OFFSET, oplog.base.content.length)
+    ctx.curVersion = oplog.base.version.slice()
+    fromOp = opsStart(oplog)
+    if (fromOp >= toOp) return
+  }
 
   const cg = oplog.cg
 
@@ -338,48 +658,166 @@ export function traverseAndApply<T>(
     const vEnd = min2(toOp, entry.vEnd)
     const parents = vStart === entry.version ? entry.parents : [vStart - 1]
 
-    const { aOnly, bOnly } = diff(cg, ctx.curVersion, parents)
+    applyEntry(ctx, oplog, snapshot, vStart, vEnd, parents)
+  }
+}
 
-    const retreat = aOnly
-    const advance = bOnly
+/**
+ * クリティカルバージョンを検出しながら全履歴を歩行する。
+ *
+ * クリティカルバージョンとは、それまでの全操作が単一のheadに収束し、
+ * かつ以降の全操作がその子孫となるバージョン。ここを通過した後は
+ * 過去のアイテムを区別する必要がないため、順序統計木を破棄して
+ * 現在の文書長だけを覚えておく（必要になった時点で1つのプレースホルダーのランとして復元する）。
+ * 前後がともにクリティカルな操作は木を使わずスナップショットへ直接適用するため、
+ * ほぼ直列の履歴の再生に必要なメモリは並行区間の大きさに比例する。
+ */
+function traverseWithCriticalVersions<T>(
+  ctx: EditContext,
+  oplog: ListOpLog<T>,
+  snapshot: SnapshotOps<T> | null,
+  toOp: number,
+): void {
+  const entries = oplog.cg.entries
+
+  // minParentAfter[i]: entries[i]以降の全エントリの親の最小値
+  // 親を持たないエントリ（新しい根）がある場合はそれ以前にクリティカルバージョンはない
+  const minParentAfter = new Array<number>(entries.length + 1)
+  minParentAfter[entries.length] = Infinity
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const parents = entries[i]!.parents
+    let m = parents.length === 0 ? -Infinity : Infinity
+    for (const p of parents) m = min2(m, p)
+    minParentAfter[i] = min2(m, minParentAfter[i + 1]!)
+  }
 
-    // retreat/advanceがある場合、curStateが変わるためカーソルヒント無効化
-    if (retreat.length > 0 || advance.length > 0) {
-      ctx._cursorHint = null
-    }
+  let frontier: LV[] = []
+  // 木を破棄して文書長のみ保持している状態か
+  let cleared = false
+  let docLength = 0
+  // itemsByLV に現在の木のアイテムが登録されうる最小LV
+  let liveFrom = 0
+  let startLV = 0
+
+  // 圧縮済みの場合、ベースはクリティカルバージョンなので木を破棄した状態から始める
+  if (oplog.base != null) {
+    frontier = oplog.base.version.slice()
+    cleared = true
+    docLength = oplog.base.content.length
+    liveFrom = startLV = opsStart(oplog)
+    ctx.curVersion = frontier.slice()
+  }
 
-    // Retreat: 逆順で処理（削除を元に戻してから挿入を元に戻す）
-    for (let i = retreat.length - 1; i >= 0; i--) {
-      const [start, end] = retreat[i]!
-      for (let lv = end - 1; lv >= start; lv--) {
-        retreat1(ctx, oplog, lv)
+  /** クリティカルバージョン lv の直後で木を破棄する */
+  const clear = (lv: LV): void => {
+    docLength = ctx.items.endLength
+    ctx.items = new OrderStatisticTree()
+    ctx.itemsByLV.fill(null, liveFrom, lv + 1)
+    ctx.moveElems.clear()
+    ctx.moved.clear()
+    liveFrom = lv + 1
+    ctx._cursorHint = null
+    cleared = true
+  }
+
+  /** 破棄した木を現在の文書長のプレースホルダーとして復元する */
+  const restore = (): void => {
+    ctx.items.pushPlaceholder(PLACEHOLDER_OFFSET, docLength)
+    cleared = false
+  }
+
+  const firstIdx = binarySearch(entries, (e) =>
+    startLV < e.version ? -1 : startLV >= e.vEnd ? 1 : 0,
+  )
+  for (let i = firstIdx < 0 ? entries.length : firstIdx; i < entries.length; i++) {
+    const entry = entries[i]!
+    if (entry.version >= toOp) break
+
+    const vStart = max2(startLV, entry.version)
+    const vEnd = min2(toOp, entry.vEnd)
+    const parents = vStart === entry.version ? entry.parents : [vStart - 1]
+
+    // このエントリ内のクリティカルバージョンは [vStart, criticalEnd]
+    const criticalEnd = sameFrontier(parents, frontier)
+      ? min2(vEnd - 1, minParentAfter[i + 1]!)
+      : -1
+
+    let lv = vStart
+    if (criticalEnd >= vStart) {
+      if (!cleared) {
+        applyEntry(ctx, oplog, snapshot, vStart, vStart + 1, parents)
+        clear(vStart)
+        lv++
       }
-    }
 
-    // Advance: 順方向で処理
-    for (const [start, end] of advance) {
-      for (let lv = start; lv < end; lv++) {
-        advance1(ctx, oplog, lv)
+      // 前後ともクリティカルな操作はスナップショットへ直接適用
+      // （破棄する木のアイテムに付着する書式操作のアンカーは解決しない）
+      for (const run of sliceTargetOps(oplog, lv, criticalEnd + 1, ctx.target)) {
+        if (run.type === 'ins') {
+          if (snapshot) snapshot.insertRange(run.pos, run.content)
+          docLength += run.content.length
+        } else if (run.type === 'del') {
+          if (snapshot) snapshot.deleteRange(run.pos, run.len)
+          docLength -= run.len
+        } else if (run.type === 'move') {
+          if (snapshot) {
+            const content = snapshot.get(run.from)
+            snapshot.delete(run.from)
+            snapshot.insert(run.to, content)
+          }
+        }
       }
+      lv = criticalEnd + 1
+      ctx.curVersion = [criticalEnd]
     }
 
-    // Apply: 操作を適用
-    for (let lv = vStart; lv < vEnd; lv++) {
-      apply1(ctx, snapshot, oplog, lv)
+    if (lv < vEnd) {
+      if (cleared) restore()
+      applyEntry(ctx, oplog, snapshot, lv, vEnd, lv === vStart ? parents : [lv - 1])
     }
 
-    // 現在のバージョンを更新
-    ctx.curVersion = [vEnd - 1]
+    frontier = advanceFrontier(frontier, vEnd - 1, parents)
+  }
+
+  // 呼び出し後もコンテキストを使えるようにプレースホルダーを復元しておく
+  if (cleared) restore()
+}
+
+/**
+ * version 時点のアイテムの状態を持つ EditContext を構築する。
+ * version に含まれない操作のアイテムも保持するため、全操作を歩行してから version に戻す。
+ * 圧縮済みの場合、ベースの i 番目の要素は ID が PLACEHOLDER_OFFSET + i のアイテムになる。
+ */
+export function createContextAt<T>(
+  oplog: ListOpLog<T>,
+  version: LV[],
+  target: string = DEFAULT_SEQUENCE,
+): EditContext {
+  if (!containsBase(oplog, version)) {
+    throw Error('圧縮済みの履歴より前のバージョンは参照できません')
   }
+  const ctx = createEditContext(nextLV(oplog.cg), false, target)
+  traverseAndApply(ctx, oplog, null)
+  moveToVersion(ctx, oplog, version)
+  return ctx
 }
 
 /** 空のEditContextを作成する */
-export function createEditContext(opsLength: number): EditContext {
+export function createEditContext(
+  opsLength: number,
+  clearAtCriticalVersions: boolean = false,
+  target: string = DEFAULT_SEQUENCE,
+): EditContext {
   return {
     items: new OrderStatisticTree(),
     delTargets: new Array<number>(opsLength).fill(-1),
+    markAnchors: new Map(),
+    moveElems: new Map(),
+    moved: new Map(),
     itemsByLV: new Array<Item | null>(opsLength).fill(null),
     curVersion: [],
     _cursorHint: null,
+    clearAtCriticalVersions,
+    target,
   }
 }
@@ -0,0 +1,568 @@
+/**
+ * OpLogのバイナリエンコード
+ *
+ * ListOpLog<string> を保存・転送用のコンパクトなバイト列に変換する。
+ *
+ * フォーマット（数値はすべてvarint）:
+ *   ヘッダ      : マジックナンバー 'EGWL' + フォーマットバージョン
+ *   エージェント: 件数, [名前]...
+ *   CGエントリ  : 件数, [エージェント番号, seq, 長さ, 親の数, [親の相対LV]...]...
+ *   ベース      : バージョンの数, [LV]..., (数が1以上なら) 要素数*2 + 種別, 内容
+ *   操作ラン    : 件数, [ヘッダ(長さ*8 + 種別), 位置の差分(ZigZag), 内容]...
+ *   シーケンス  : 件数, [開始LVの差分, 名前]...（名前付きシーケンスの対象のラン）
+ *   トランザクション: 件数, [直前の終端からの開始LVの差分, 長さ]...
+ *
+ * 親は「エントリ先頭のLV - 親のLV」として保存するため、通常は小さい値になる。
+ * 操作は連続した挿入（位置が1ずつ進む）と連続した削除（同じ位置 or 1ずつ戻る）を
+ * 1つのランにまとめ、位置は直前のランの終了位置からの差分で保存する。
+ * 文字列はサロゲートペアの片割れも保持できるよう WTF-8 でエンコードする。
+ * 書式操作は1操作で1つのランになり、位置には範囲の先頭を保存する。
+ * 移動操作も1操作で1つのランになり、位置には移動元、続けて移動先を移動元からの差分(ZigZag)で保存する。
+ * マップ操作も1操作で1つのランになる。位置は使わないため差分は常に0で、キーと値を保存する。
+ * 圧縮済みのOpLogはベースの内容と、ベース以降の操作だけを保存する。
+ */
+
+import { createCG, add, nextLV } from './causal-graph.js'
+import { pushVarint, readVarint, zigzagEncode, zigzagDecode, type ByteCursor } from './utils/varint.js'
+import { getOp, pushOpRun, opsStart } from './oplog.js'
+import type {
+  LV,
+  LVRange,
+  ListOp,
+  ListOpRun,
+  ListOpLog,
+  OpLogBase,
+  TargetRun,
+  MarkOp,
+  MarkExpand,
+  MarkValue,
+  MapOp,
+  MapValue,
+} from './types.js'
+
+/** マジックナンバー 'EGWL' */
+const MAGIC = [0x45, 0x47, 0x57, 0x4c]
+
+/** フォーマットバージョン */
+const FORMAT_VERSION = 1
+
+/** 操作ランの種別 */
+const RunKind = {
+  /** 挿入（全要素が1文字） */
+  InsertChars: 0,
+  /** 挿入（複数文字の要素を含む） */
+  InsertElements: 1,
+  /** 同じ位置での連続削除（Delete キー） */
+  DeleteForward: 2,
+  /** 1つずつ戻る位置での連続削除（Backspace キー） */
+  DeleteBackward: 3,
+  /** 書式操作（長さは常に1） */
+  Mark: 4,
+  /** 移動操作（長さは常に1） */
+  Move: 5,
+  /** マップ操作（長さは常に1） */
+  Map: 6,
+} as const
+
+type RunKind = (typeof RunKind)[keyof typeof RunKind]
+
+/** ランのヘッダで種別に使う基数（長さ * KIND_RADIX + 種別） */
+const KIND_RADIX = 8
+
+/** エンコード時の操作ラン */
+interface OpRun {
+  kind: RunKind
+  pos: number
+  len: number
+  content: string[]
+  mark: MarkOp | null
+  /** 移動操作の移動先 */
+  to: number
+  map: MapOp | null
+}
+
+/** 書式の広がり方の番号 */
+const MARK_EXPANDS: readonly MarkExpand[] = ['none', 'before', 'after', 'both']
+
+/** 書式・マップの値の種別 */
+const ValueTag = {
+  Null: 0,
+  False: 1,
+  True: 2,
+  Number: 3,
+  String: 4,
+} as const
+
+// ===== 文字列 (WTF-8) =====
+
+/** 文字列をバイト長付きの WTF-8 として追加する */
+function pushString(out: number[], s: string): void {
+  const bytes: number[] = []
+  for (let i = 0; i < s.length; i++) {
+    let c = s.charCodeAt(i)
+    // サロゲートペアは1つのコードポイントにまとめる
+    if (c >= 0xd800 && c <= 0xdbff && i + 1 < s.length) {
+      const d = s.charCodeAt(i + 1)
+      if (d >= 0xdc00 && d <= 0xdfff) {
+        c = 0x10000 + (c - 0xd800) * 0x400 + (d - 0xdc00)
+        i++
+      }
+    }
+
+    if (c < 0x80) {
+      bytes.push(c)
+    } else if (c < 0x800) {
+      bytes.push(0xc0 | (c >> 6), 0x80 | (c & 0x3f))
+    } else if (c < 0x10000) {
+      bytes.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f))
+    } else {
+      bytes.push(
+        0xf0 | (c >> 18),
+        0x80 | ((c >> 12) & 0x3f),
+        0x80 | ((c >> 6) & 0x3f),
+        0x80 | (c & 0x3f),
+      )
+    }
+  }
+  pushVarint(out, bytes.length)
+  for (const b of bytes) out.push(b)
+}
+
+/** バイト長付きの WTF-8 文字列を読み取る */
+function readString(bytes: Uint8Array, cursor: ByteCursor): string {
+  const len = readVarint(bytes, cursor)
+  const end = cursor.pos + len
+  if (end > bytes.length) throw Error('文字列の途中でデータが終了しました')
+
+  const units: number[] = []
+  let result = ''
+  while (cursor.pos < end) {
+    const b = bytes[cursor.pos++]!
+    let c: number
+    let extra: number
+    if (b < 0x80) {
+      c = b
+      extra = 0
+    } else if (b >= 0xf0) {
+      c = b & 0x07
+      extra = 3
+    } else if (b >= 0xe0) {
+      c = b & 0x0f
+      extra = 2
+    } else if (b >= 0xc0) {
+      c = b & 0x1f
+      extra = 1
+    } else {
+      throw Error('無効な文字列エンコード')
+    }
+    if (cursor.pos + extra > end) throw Error('無効な文字列エンコード')
+    for (let i = 0; i < extra; i++) {
+      c = c * 0x40 + (bytes[cursor.pos++]! & 0x3f)
+    }
+
+    if (c >= 0x10000) {
+      c -= 0x10000
+      units.push(0xd800 + (c >> 10), 0xdc00 + (c & 0x3ff))
+    } else {
+      units.push(c)
+    }
+
+    // String.fromCharCode の引数上限を避けるため適当な長さで区切る
+    if (units.length >= 4096) {
+      result += String.fromCharCode(...units)
+      units.length = 0
+    }
+  }
+  return result + String.fromCharCode(...units)
+}
+
+// ===== 操作ラン =====
+
+/** 操作を直前のランに追加できるか判定し、可能なら追加する */
+function tryAppendOp(run: OpRun, op: ListOp<string>): boolean {
+  if (op.type === 'mark' || op.type === 'move' || op.type === 'map') return false
+  if (op.type === 'ins') {
+    if (run.kind !== RunKind.InsertChars && run.kind !== RunKind.InsertElements) return false
+    if (op.pos !== run.pos + run.len) return false
+    run.content.push(op.content)
+    if (op.content.length !== 1) run.kind = RunKind.InsertElements
+  } else {
+    if (run.kind === RunKind.DeleteForward && op.pos === run.pos) {
+      // そのまま
+    } else if (
+      (run.kind === RunKind.DeleteBackward || (run.kind === RunKind.DeleteForward && run.len === 1)) &&
+      op.pos === run.pos - run.len
+    ) {
+      run.kind = RunKind.DeleteBackward
+    } else {
+      return false
+    }
+  }
+  run.len++
+  return true
+}
+
+/** OpLogの操作をエンコード用のランにまとめる */
+function toRuns(oplog: ListOpLog<string>): OpRun[] {
+  const runs: OpRun[] = []
+  for (let lv = opsStart(oplog); lv < nextLV(oplog.cg); lv++) {
+    const op = getOp(oplog, lv)
+    const last = runs[runs.length - 1]
+    if (last != null && tryAppendOp(last, op)) continue
+
+    switch (op.type) {
+      case 'ins':
+        runs.push({
+          kind: op.content.length === 1 ? RunKind.InsertChars : RunKind.InsertElements,
+          pos: op.pos,
+          len: 1,
+          content: [op.content],
+          mark: null,
+          to: 0,
+          map: null,
+        })
+        break
+      case 'del':
+        runs.push({ kind: RunKind.DeleteForward, pos: op.pos, len: 1, content: [], mark: null, to: 0, map: null })
+        break
+      case 'mark':
+        runs.push({ kind: RunKind.Mark, pos: op.mark.start, len: 1, content: [], mark: op.mark, to: 0, map: null })
+        break
+      case 'move':
+        runs.push({ kind: RunKind.Move, pos: op.from, len: 1, content: [], mark: null, to: op.to, map: null })
+        break
+      case 'map':
+        // 位置は使わない（エンコード時に直前のランの終了位置に揃える）
+        runs.push({ kind: RunKind.Map, pos: 0, len: 1, content: [], mark: null, to: 0, map: op.map })
+        break
+    }
+  }
+  return runs
+}
+
+/** ラン適用後のカーソル位置（次のランの位置の基準） */
+function runEndPos(kind: RunKind, pos: number, len: number): number {
+  switch (kind) {
+    case RunKind.InsertChars:
+    case RunKind.InsertElements:
+      return pos + len
+    case RunKind.DeleteForward:
+    case RunKind.Mark:
+    case RunKind.Move:
+    case RunKind.Map:
+      return pos
+    case RunKind.DeleteBackward:
+      return pos - len + 1
+  }
+}
+
+/** 書式操作の位置以外の内容を追加する */
+function pushMark(out: number[], mark: MarkOp): void {
+  pushVarint(out, mark.end - mark.start)
+  pushVarint(out, MARK_EXPANDS.indexOf(mark.expand))
+  pushString(out, mark.markType)
+  pushValue(out, mark.value)
+}
+
+/** 書式・マップの値を追加する */
+function pushValue(out: number[], value: MapValue): void {
+  if (value === null) {
+    pushVarint(out, ValueTag.Null)
+  } else if (typeof value === 'boolean') {
+    pushVarint(out, value ? ValueTag.True : ValueTag.False)
+  } else if (typeof value === 'number') {
+    pushVarint(out, ValueTag.Number)
+    pushString(out, String(value))
+  } else {
+    pushVarint(out, ValueTag.String)
+    pushString(out, value)
+  }
+}
+
+/** 書式・マップの値を読み込む */
+function readValue(bytes: Uint8Array, cursor: ByteCursor): MapValue {
+  const tag = readVarint(bytes, cursor)
+  switch (tag) {
+    case ValueTag.Null:
+      return null
+    case ValueTag.False:
+    case ValueTag.True:
+      return tag === ValueTag.True
+    case ValueTag.Number:
+      return Number(readString(bytes, cursor))
+    case ValueTag.String:
+      return readString(bytes, cursor)
+    default:
+      throw Error('無効なOpLogエンコード: 未知の値の種別')
+  }
+}
+
+/** 位置 start の書式操作の残りの内容を読み込む */
+function readMark(bytes: Uint8Array, cursor: ByteCursor, start: number): MarkOp {
+  const end = start + readVarint(bytes, cursor)
+  const expand = MARK_EXPANDS[readVarint(bytes, cursor)]
+  if (expand == null || end === start) throw Error('無効なOpLogエンコード: 無効な書式操作')
+  const markType = readString(bytes, cursor)
+  const value: MarkValue | null = readValue(bytes, cursor)
+  return { start, end, markType, value, expand }
+}
+
+/** マップ操作を追加する（削除なら 0、設定なら 1 に続けて値） */
+function pushMap(out: number[], op: MapOp): void {
+  pushString(out, op.key)
+  if (op.type === 'delete') {
+    pushVarint(out, 0)
+  } else {
+    pushVarint(out, 1)
+    pushValue(out, op.value)
+  }
+}
+
+/** マップ操作を読み込む */
+function readMap(bytes: Uint8Array, cursor: ByteCursor): MapOp {
+  const key = readString(bytes, cursor)
+  switch (readVarint(bytes, cursor)) {
+    case 0:
+      return { type: 'delete', key }
+    case 1:
+      return { type: 'set', key, value: readValue(bytes, cursor) }
+    default:
+      throw Error('無効なOpLogエンコード: 無効なマップ操作')
+  }
+}
+
+// ===== 公開API =====
+
+/** OpLogをバイト列にエンコードする */
+export function encodeOpLog(oplog: ListOpLog<string>): Uint8Array {
+  const out: number[] = [...MAGIC]
+  pushVarint(out, FORMAT_VERSION)
+
+  // エージェントテーブル（CGエントリでの初出順）
+  const agentIdx = new Map<string, number>()
+  for (const e of oplog.cg.entries) {
+    if (!agentIdx.has(e.agent)) agentIdx.set(e.agent, agentIdx.size)
+  }
+  pushVarint(out, agentIdx.size)
+  for (const agent of agentIdx.keys()) pushString(out, agent)
+
+  // CGエントリ
+  pushVarint(out, oplog.cg.entries.length)
+  for (const e of oplog.cg.entries) {
+    pushVarint(out, agentIdx.get(e.agent)!)
+    pushVarint(out, e.seq)
+    pushVarint(out, e.vEnd - e.version)
+    pushVarint(out, e.parents.length)
+    for (const p of e.parents) pushVarint(out, e.version - p)
+  }
+
+  // ベース
+  const base = oplog.base
+  pushVarint(out, base?.version.length ?? 0)
+  if (base != null && base.version.length > 0) {
+    for (const v of base.version) pushVarint(out, v)
+    // 種別 0: 全要素が1文字（連結して保存）、1: 要素ごとに保存
+    const chars = base.content.every((c) => c.length === 1)
+    pushVarint(out, base.content.length * 2 + (chars ? 0 : 1))
+    if (chars) {
+      pushString(out, base.content.join(''))
+    } else {
+      for (const c of base.content) pushString(out, c)
+    }
+  }
+
+  // 操作ラン
+  const runs = toRuns(oplog)
+  pushVarint(out, runs.length)
+  let lastPos = 0
+  for (const run of runs) {
+    if (run.kind === RunKind.Map) run.pos = lastPos
+    pushVarint(out, run.len * KIND_RADIX + run.kind)
+    pushVarint(out, zigzagEncode(run.pos - lastPos))
+    if (run.kind === RunKind.InsertChars) {
+      pushString(out, run.content.join(''))
+    } else if (run.kind === RunKind.InsertElements) {
+      for (const c of run.content) pushString(out, c)
+    } else if (run.kind === RunKind.Mark) {
+      pushMark(out, run.mark!)
+    } else if (run.kind === RunKind.Move) {
+      pushVarint(out, zigzagEncode(run.to - run.pos))
+    } else if (run.kind === RunKind.Map) {
+      pushMap(out, run.map!)
+    }
+    lastPos = runEndPos(run.kind, run.pos, run.len)
+  }
+
+  // 名前付きシーケンス
+  const targets = oplog.targets ?? []
+  pushVarint(out, targets.length)
+  let lastVersion = 0
+  for (const { version, name } of targets) {
+    pushVarint(out, version - lastVersion)
+    pushString(out, name)
+    lastVersion = version
+  }
+
+  // トランザクション
+  const txns = oplog.txns ?? []
+  pushVarint(out, txns.length)
+  let lastEnd = 0
+  for (const [start, end] of txns) {
+    pushVarint(out, start - lastEnd)
+    pushVarint(out, end - start)
+    lastEnd = end
+  }
+
+  return Uint8Array.from(out)
+}
+
+/** encodeOpLog で作成したバイト列からOpLogを復元する */
+export function decodeOpLog(bytes: Uint8Array): ListOpLog<string> {
+  for (let i = 0; i < MAGIC.length; i++) {
+    if (bytes[i] !== MAGIC[i]) {
+      throw Error('無効なOpLogエンコード: マジックナンバーが一致しません')
+    }
+  }
+  const cursor: ByteCursor = { pos: MAGIC.length }
+
+  const version = readVarint(bytes, cursor)
+  if (version !== FORMAT_VERSION) {
+    throw Error('未対応のフォーマットバージョン: ' + version)
+  }
+
+  // エージェントテーブル
+  const agentCount = readVarint(bytes, cursor)
+  const agents: string[] = []
+  for (let i = 0; i < agentCount; i++) agents.push(readString(bytes, cursor))
+
+  // CGエントリ
+  const cg = createCG()
+  const entryCount = readVarint(bytes, cursor)
+  for (let i = 0; i < entryCount; i++) {
+    const agent = agents[readVarint(bytes, cursor)]
+    if (agent == null) throw Error('無効なOpLogエンコード: 未知のエージェント番号')
+    const seq = readVarint(bytes, cursor)
+    const len = readVarint(bytes, cursor)
+    const v = nextLV(cg)
+
+    const parentCount = readVarint(bytes, cursor)
+    const parents: LV[] = []
+    for (let j = 0; j < parentCount; j++) {
+      const offset = readVarint(bytes, cursor)
+      if (offset < 1 || offset > v) throw Error('無効なOpLogエンコード: 親のバージョンが範囲外')
+      parents.push(v - offset)
+    }
+
+    if (len === 0 || add(cg, agent, seq, seq + len, parents)?.version !== v) {
+      throw Error('無効なOpLogエンコード: 重複したCGエントリ')
+    }
+  }
+
+  // ベース
+  let base: OpLogBase<string> | null = null
+  const baseVersionCount = readVarint(bytes, cursor)
+  if (baseVersionCount > 0) {
+    const baseVersion: LV[] = []
+    for (let i = 0; i < baseVersionCount; i++) {
+      const v = readVarint(bytes, cursor)
+      if (v >= nextLV(cg)) throw Error('無効なOpLogエンコード: ベースのバージョンが範囲外')
+      baseVersion.push(v)
+    }
+    const header = readVarint(bytes, cursor)
+    const contentLength = Math.floor(header / 2)
+    let content: string[] = []
+    if (header % 2 === 0) {
+      content = readString(bytes, cursor).split('')
+      if (content.length !== contentLength) {
+        throw Error('無効なOpLogエンコード: ベースの内容の長さが一致しません')
+      }
+    } else {
+      for (let i = 0; i < contentLength; i++) content.push(readString(bytes, cursor))
+    }
+    base = { version: baseVersion, content }
+  }
+
+  // 操作ラン
+  const ops: ListOpRun<string>[] = []
+  let opCount = base == null ? 0 : Math.max(...base.version) + 1
+  const runCount = readVarint(bytes, cursor)
+  let lastPos = 0
+  for (let i = 0; i < runCount; i++) {
+    const header = readVarint(bytes, cursor)
+    const kind = (header % KIND_RADIX) as RunKind
+    const len = Math.floor(header / KIND_RADIX)
+    const pos = lastPos + zigzagDecode(readVarint(bytes, cursor))
+    if (pos < 0 || runEndPos(kind, pos, len) < 0) throw Error('無効なOpLogエンコード: 負の位置')
+
+    if (kind === RunKind.InsertChars) {
+      const content = readString(bytes, cursor)
+      if (content.length !== len) throw Error('無効なOpLogエンコード: 挿入内容の長さが一致しません')
+      pushOpRun(ops, { type: 'ins', version: opCount, pos, content: content.split('') })
+    } else if (kind === RunKind.InsertElements) {
+      const content: string[] = []
+      for (let j = 0; j < len; j++) content.push(readString(bytes, cursor))
+      pushOpRun(ops, { type: 'ins', version: opCount, pos, content })
+    } else if (kind === RunKind.DeleteForward) {
+      pushOpRun(ops, { type: 'del', version: opCount, pos, len })
+    } else if (kind === RunKind.Mark) {
+      if (len !== 1) throw Error('無効なOpLogエンコード: 書式操作の長さが1ではありません')
+      pushOpRun(ops, { type: 'mark', version: opCount, mark: readMark(bytes, cursor, pos) })
+    } else if (kind === RunKind.Move) {
+      if (len !== 1) throw Error('無効なOpLogエンコード: 移動操作の長さが1ではありません')
+      const to = pos + zigzagDecode(readVarint(bytes, cursor))
+      if (to < 0) throw Error('無効なOpLogエンコード: 負の位置')
+      pushOpRun(ops, { type: 'move', version: opCount, from: pos, to })
+    } else if (kind === RunKind.Map) {
+      if (len !== 1) throw Error('無効なOpLogエンコード: マップ操作の長さが1ではありません')
+      pushOpRun(ops, { type: 'map', version: opCount, map: readMap(bytes, cursor) })
+    } else if (kind === RunKind.DeleteBackward) {
+      for (let j = 0; j < len; j++) {
+        pushOpRun(ops, { type: 'del', version: opCount + j, pos: pos - j, len: 1 })
+      }
+    } else {
+      throw Error('無効なOpLogエンコード: 未知の操作ランの種別')
+    }
+    opCount += len
+    lastPos = runEndPos(kind, pos, len)
+  }
+
+  // 名前付きシーケンス
+  const targets: TargetRun[] = []
+  const targetCount = readVarint(bytes, cursor)
+  let targetVersion = 0
+  for (let i = 0; i < targetCount; i++) {
+    const delta = readVarint(bytes, cursor)
+    if (i > 0 && delta === 0) throw Error('無効なOpLogエンコード: シーケンスのランが重複しています')
+    targetVersion += delta
+    if (targetVersion >= opCount) throw Error('無効なOpLogエンコード: シーケンスのバージョンが範囲外')
+    targets.push({ version: targetVersion, name: readString(bytes, cursor) })
+  }
+  if (base != null && targets.length > 0) {
+    throw Error('無効なOpLogエンコード: 圧縮済みのOpLogに名前付きシーケンスがあります')
+  }
+
+  // トランザクション
+  const txns: LVRange[] = []
+  const txnCount = readVarint(bytes, cursor)
+  let txnEnd = 0
+  for (let i = 0; i < txnCount; i++) {
+    const start = txnEnd + readVarint(bytes, cursor)
+    txnEnd = start + readVarint(bytes, cursor)
+    if (txnEnd - start < 2 || txnEnd > opCount) {
+      throw Error('無効なOpLogエンコード: トランザクションの範囲が不正です')
+    }
+    txns.push([start, txnEnd])
+  }
+
+  if (cursor.pos !== bytes.length) {
+    throw Error('無効なOpLogエンコード: 末尾に余分なデータがあります')
+  }
+  if (opCount !== nextLV(cg)) {
+    throw Error('無効なOpLogエンコード: 操作数とCGが一致しません')
+  }
+
+  const oplog: ListOpLog<string> = base == null ? { ops, cg } : { ops, cg, base }
+  if (targets.length > 0) oplog.targets = targets
+  if (txns.length > 0) oplog.txns = txns
+  return oplog
+}
@@ -0,0 +1,237 @@
+/**
+ * 変更イベント
+ *
+ * Document / TextDocument の内容が変わったときに、位置ベースの差分（delta）を通知する。
+ * delta は変更前の文書を先頭から順にたどる retain / insert / delete の列で、
+ * エディタはこれをそのまま適用してビューを差分更新できる。
+ *
+ * 購読者はドキュメントごとに WeakMap で管理し、購読者がいない場合は差分を計算しない。
+ */
+
+import type { SnapshotOps } from './snapshot-ops.js'
+import type { Document } from './document.js'
+import type { TextDocument } from './text-document.js'
+
+// ===== 型定義 =====
+
+/** 差分の1要素（I は挿入内容の型: Document<T> では T[]、TextDocument では string） */
+export type DeltaOp<I> = { retain: number } | { insert: I } | { delete: number }
+
+/** 位置ベースの差分 */
+export type Delta<I> = DeltaOp<I>[]
+
+/** 変更の発生元 */
+export type ChangeOrigin = 'local' | 'remote'
+
+/** 変更イベント */
+export interface ChangeEvent<I> {
+  origin: ChangeOrigin
+  delta: Delta<I>
+  /** transact でまとめたローカル編集の場合 true */
+  transaction?: boolean
+}
+
+/** 変更イベントのリスナー */
+export type ChangeListener<I> = (event: ChangeEvent<I>) => void
+
+// ===== 差分の合成 =====
+
+/** 変更後の文書上での長さ */
+const newLength = <T>(op: DeltaOp<T[]>): number =>
+  'retain' in op ? op.retain : 'insert' in op ? op.insert.length : 0
+
+/** 隣接する同種の要素をまとめながら追加する（挿入は削除の前に置く） */
+function pushDeltaOp<T>(delta: Delta<T[]>, op: DeltaOp<T[]>): void {
+  if (newLength(op) === 0 && !('delete' in op && op.delete > 0)) return
+
+  const last = delta[delta.length - 1]
+  if (last != null && 'delete' in last && 'insert' in op) {
+    // 削除と挿入の順序は結果に影響しないため、挿入を先に正規化する
+    delta.pop()
+    pushDeltaOp(delta, op)
+    delta.push(last)
+    return
+  }
+
+  if (last == null) {
+    delta.push(op)
+  } else if ('retain' in last && 'retain' in op) {
+    delta[delta.length - 1] = { retain: last.retain + op.retain }
+  } else if ('delete' in last && 'delete' in op) {
+    delta[delta.length - 1] = { delete: last.delete + op.delete }
+  } else if ('insert' in last && 'insert' in op) {
+    delta[delta.length - 1] = { insert: last.insert.concat(op.insert) }
+  } else {
+    delta.push(op)
+  }
+}
+
+/** 変更後の文書上の位置 pos で差分を前後に分割する */
+function splitDelta<T>(delta: Delta<T[]>, pos: number): [Delta<T[]>, Delta<T[]>] {
+  const head: Delta<T[]> = []
+  let p = 0
+  let i = 0
+  for (; i < delta.length; i++) {
+    const op = delta[i]!
+    const n = newLength(op)
+    if (p + n <= pos) {
+      pushDeltaOp(head, op)
+      p += n
+      continue
+    }
+
+    // op の途中で分割する
+    const k = pos - p
+    if ('retain' in op) {
+      pushDeltaOp(head, { retain: k })
+      return [head, [{ retain: op.retain - k }, ...delta.slice(i + 1)]]
+    }
+    if ('insert' in op) {
+      pushDeltaOp(head, { insert: op.insert.slice(0, k) })
+      return [head, [{ insert: op.insert.slice(k) }, ...delta.slice(i + 1)]]
+    }
+  }
+
+  // 差分の末尾より後ろは暗黙の retain
+  pushDeltaOp(head, { retain: pos - p })
+  return [head, []]
+}
+
+/** 差分の後に「pos への挿入」を合成した差分を返す */
+export function composeInsert<T>(delta: Delta<T[]>, pos: number, content: T[]): Delta<T[]> {
+  const [head, tail] = splitDelta(delta, pos)
+  pushDeltaOp(head, { insert: content })
+  for (const op of tail) pushDeltaOp(head, op)
+  trimDelta(head)
+  return head
+}
+
+/** 差分の後に「pos から len 個の削除」を合成した差分を返す */
+export function composeDelete<T>(delta: Delta<T[]>, pos: number, len: number): Delta<T[]> {
+  const [head, tail] = splitDelta(delta, pos)
+  let n = len
+  for (const op of tail) {
+    if (n > 0 && 'retain' in op) {
+      const k = Math.min(n, op.retain)
+      pushDeltaOp(head, { delete: k })
+      pushDeltaOp(head, { retain: op.retain - k })
+      n -= k
+    } else if (n > 0 && 'insert' in op) {
+      // 差分内で挿入された要素の削除は相殺する
+      const k = Math.min(n, op.insert.length)
+      pushDeltaOp(head, { insert: op.insert.slice(k) })
+      n -= k
+    } else {
+      pushDeltaOp(head, op)
+    }
+  }
+  if (n > 0) pushDeltaOp(head, { delete: n })
+  trimDelta(head)
+  return head
+}
+
+/** 末尾の retain を取り除く */
+function trimDelta<T>(delta: Delta<T[]>): void {
+  const last = delta[delta.length - 1]
+  if (last != null && 'retain' in last) delta.pop()
+}
+
+/** 挿入内容を文字列にまとめた差分に変換する（TextDocument 用） */
+export function toTextDelta(delta: Delta<string[]>): Delta<string> {
+  return delta.map((op) => ('insert' in op ? { insert: op.insert.join('') } : op))
+}
+
+// ===== 差分の記録 =====
+
+/** スナップショットへの変更を差分として記録する */
+export interface DeltaRecorder<T> {
+  delta: Delta<T[]>
+}
+
+/** 空の記録を作成する */
+export function createDeltaRecorder<T>(): DeltaRecorder<T> {
+  return { delta: [] }
+}
+
+/** 挿入を記録する */
+export function recordInsert<T>(rec: DeltaRecorder<T>, pos: number, content: T[]): void {
+  rec.delta = composeInsert(rec.delta, pos, content)
+}
+
+/** 削除を記録する */
+export function recordDelete<T>(rec: DeltaRecorder<T>, pos: number, len: number): void {
+  rec.delta = composeDelete(rec.delta, pos, len)
+}
+
+/** 変更を記録しながら inner に適用する SnapshotOps を作成する */
+export function recordingSnapshot<T>(
+  inner: SnapshotOps<T>,
+  rec: DeltaRecorder<T>,
+): SnapshotOps<T> {
+  return {
+    insert(pos: number, content: T): void {
+      inner.insert(pos, content)
+      recordInsert(rec, pos, [content])
+    },
+    insertRange(pos: number, items: T[]): void {
+      inner.insertRange(pos, items)
+      recordInsert(rec, pos, items)
+    },
+    delete(pos: number): void {
+      inner.delete(pos)
+      recordDelete(rec, pos, 1)
+    },
+    deleteRange(pos: number, len: number): void {
+      inner.deleteRange(pos, len)
+      recordDelete(rec, pos, len)
+    },
+    get(pos: number): T {
+      return inner.get(pos)
+    },
+  }
+}
+
+// ===== 購読 =====
+
+const observers = new WeakMap<object, Set<ChangeListener<never>>>()
+
+/**
+ * ドキュメントの変更を購読する。
+ * ローカル編集とリモートのマージ（並行編集を含む）の両方で呼ばれる。
+ * 戻り値の関数を呼ぶと購読を解除する。
+ */
+export function observe<T>(doc: Document<T>, listener: ChangeListener<T[]>): () => void
+export function observe(doc: TextDocument, listener: ChangeListener<string>): () => void
+export function observe<I>(doc: object, listener: ChangeListener<I>): () => void {
+  let set = observers.get(doc)
+  if (set == null) {
+    set = new Set()
+    observers.set(doc, set)
+  }
+  set.add(listener)
+  return () => {
+    set.delete(listener)
+  }
+}
+
+/** 購読者がいるか（いなければ差分の計算を省略できる） */
+export function hasObservers(doc: object): boolean {
+  const set = observers.get(doc)
+  return set != null && set.size > 0
+}
+
+/** 変更イベントを通知する。差分が空の場合は通知しない */
+export function emitChange<I>(
+  doc: object,
+  origin: ChangeOrigin,
+  delta: Delta<I>,
+  transaction: boolean = false,
+): void {
+  const set = observers.get(doc)
+  if (set == null || delta.length === 0) return
+  const event: ChangeEvent<I> = transaction ? { origin, delta, transaction } : { origin, delta }
+  // 通知中の購読解除に備えてコピーしてから呼ぶ
+  for (const listener of [...set]) {
+    (listener as ChangeListener<I>)(event)
+  }
+}
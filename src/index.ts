@@ -6,7 +6,16 @@ export type {
   RawVersion,
   CausalGraph,
   ListOp,
+  ListOpRun,
+  ListOpSpan,
   ListOpLog,
+  OpLogBase,
+  TargetRun,
+  MarkOp,
+  MarkValue,
+  MarkExpand,
+  MapOp,
+  MapValue,
   Branch,
   DiffResult,
   ConflictingResult,
@@ -16,7 +25,32 @@ export type {
 export { ItemState, DiffFlag } from './types.js'
 
 export type { Document } from './document.js'
-export type { TextDocument } from './text-document.js'
+export type { Checkpoint, CheckpointStore, CheckpointStoreOptions } from './checkpoint.js'
+export type { SequenceDocument } from './sequences.js'
+export type { Cursor, CursorStick } from './cursor.js'
+export type { BlameRun } from './blame.js'
+export type { FormattedSpan } from './marks.js'
+export type { UndoManager, UndoManagerOptions } from './undo.js'
+export type { DiffEdit } from './diff.js'
+export type { BindableElement, TextBinding } from './dom-binding.js'
+export type { OpLogJSON } from './json.js'
+export type { CausalBuffer } from './causal-buffer.js'
+export type { SimEdit, NetworkSimOptions, NetworkSimStats, NetworkSim } from './simulator.js'
+export type {
+  DeltaOp,
+  Delta,
+  ChangeOrigin,
+  ChangeEvent,
+  ChangeListener,
+} from './events.js'
+export type {
+  SyncOpRun,
+  SyncHello,
+  SyncPatch,
+  SyncAck,
+  SyncMessage,
+} from './sync.js'
+export type { TextDocument, TextDocumentOptions } from './text-document.js'
 
 export type {
   DiffResult as CausalDiffResult,
@@ -32,12 +66,23 @@ export {
   restoreDocument,
   docInsert,
   docDelete,
+  docMove,
+  transact,
   getContent,
   getText,
   mergeRemote,
-  canFastForward,
+  mergeRemotePatch,
 } from './document.js'
 
+// ===== Checkpoint API =====
+
+export {
+  createCheckpointStore,
+  saveCheckpoint,
+  checkpointIfNeeded,
+  openDocumentFromCheckpoint,
+} from './checkpoint.js'
+
 // ===== TextDocument API =====
 
 export {
@@ -50,31 +95,145 @@ export {
   mergeTextRemote,
 } from './text-document.js'
 
+// ===== Diff API =====
+
+export { setText, diffSequence } from './diff.js'
+
+// ===== DOM Binding API =====
+
+export { bind, unbind } from './dom-binding.js'
+
+// ===== Simulator API =====
+
+export {
+  createNetworkSim,
+  stepNetworkSim,
+  settleNetworkSim,
+  assertConverged,
+  runNetworkSim,
+} from './simulator.js'
+
+// ===== SequenceDocument API =====
+
+export {
+  createSequenceDocument,
+  openSequenceDocument,
+  seqInsert,
+  seqDelete,
+  seqMove,
+  getSequence,
+  getSequenceText,
+  mergeSequenceRemote,
+} from './sequences.js'
+
 // ===== OpLog API =====
 
 export {
   createOpLog,
   localInsert,
   localDelete,
+  localMark,
+  localMove,
+  localSeqInsert,
+  localSeqDelete,
+  localSeqMove,
   pushOp,
+  pushOps,
+  getOp,
+  sliceOps,
+  opRunLength,
+  opsStart,
+  DEFAULT_SEQUENCE,
+  opTarget,
+  sliceTargetOps,
+  sequenceNames,
+  pushTxn,
+  txnsBetween,
   getLatestVersion,
   mergeOplogInto,
 } from './oplog.js'
 
+// ===== CausalBuffer API =====
+
+export {
+  createCausalBuffer,
+  receiveOps,
+  pendingCount,
+  missingVersions,
+} from './causal-buffer.js'
+
+// ===== Compaction API =====
+
+export { compactOpLog } from './compaction.js'
+
 // ===== Branch API =====
 
 export {
   createEmptyBranch,
   checkout,
+  checkoutAt,
+  checkoutAtRaw,
   checkoutSimple,
   checkoutSimpleString,
   mergeChangesIntoBranch,
 } from './branch.js'
 
+// ===== Cursor API =====
+
+export { posToCursor, cursorToPos } from './cursor.js'
+
+// ===== Blame API =====
+
+export { blame } from './blame.js'
+
+// ===== Marks API =====
+
+export { addMark, removeMark, getFormattedSpans } from './marks.js'
+
+// ===== Map API =====
+
+export { mapSet, mapDelete, mapGet, mapGetAll, mapToObject } from './map.js'
+
+// ===== Undo API =====
+
+export {
+  createUndoManager,
+  destroyUndoManager,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  stopCapturing,
+} from './undo.js'
+
+// ===== Events API =====
+
+export { observe } from './events.js'
+
+// ===== Sync API =====
+
+export {
+  createSyncHello,
+  createSyncAck,
+  createSyncPatch,
+  createSyncPatchSince,
+  applySyncPatch,
+  hasSyncPatchParents,
+} from './sync.js'
+
+// ===== Encoding API =====
+
+export { encodeOpLog, decodeOpLog } from './encoding.js'
+
+// ===== JSON API =====
+
+export { toJSON, fromJSON } from './json.js'
+
 // ===== CausalGraph API =====
 
 export {
   createCG,
+  nextLV,
   add,
   addRaw,
   lvToRaw,
@@ -89,6 +248,7 @@ export {
 export {
   diff,
   isFastForward,
+  canFastForward,
   versionContainsLV,
   findDominators,
   findConflicting,
@@ -0,0 +1,273 @@
+/**
+ * OpLogのJSON形式
+ *
+ * デバッグや問い合わせ対応のための、人が読める安定した表現。
+ * LVはピアごとに異なるため含めず、バージョンはすべて (エージェント, シーケンス番号) で表す。
+ *
+ *   formatVersion : フォーマットのバージョン（現在は1）
+ *   cg            : CGエントリ（serializeDiff と同じ形式。親も RawVersion）
+ *   ops           : 操作のラン（cg のエントリを先頭から順に並べたものと同じ順序・同じ長さ）
+ *   base          : 圧縮済みの場合のベース（ops はベース以降の操作だけを含む）
+ *   txns          : トランザクションでまとめた操作の、ops 内での位置の範囲
+ *
+ * 途中のバージョンからの差分だけを書き出すこともでき、その場合 cg の親には含まれない操作も現れる。
+ * 読み込み時の検証エラーは、問題のある要素を cg[2].parents[0] のようなパスで示す。
+ */
+
+import { nextLV, addRaw, lvToRawList, rawToLV, tryRawToLV } from './causal-graph.js'
+import { diff, serializeDiff, type PartialSerializedCG } from './causal-graph-advanced.js'
+import {
+  createOpLog,
+  opRunLength,
+  opsStart,
+  pushOpRun,
+  pushTxn,
+  spansIn,
+  txnOffsetsIn,
+} from './oplog.js'
+import { applySyncPatch } from './sync.js'
+import type { LV, LVRange, RawVersion, ListOpLog, ListOpRun, ListOpSpan, MarkOp, MapOp, MapValue } from './types.js'
+
+/** 現在のフォーマットバージョン */
+const FORMAT_VERSION = 1
+
+/** OpLogのJSON表現 */
+export interface OpLogJSON<T = string> {
+  formatVersion: number
+  cg: PartialSerializedCG
+  ops: ListOpSpan<T>[]
+  base?: { version: RawVersion[]; content: T[] }
+  txns?: LVRange[]
+}
+
+// ===== 書き出し =====
+
+/**
+ * OpLogをJSON表現に変換する。
+ * from を指定すると、そのバージョンに含まれない操作だけを書き出す。
+ * 圧縮済みのOpLogは、全体を書き出す場合のみベースを含めて書き出せる。
+ */
+export function toJSON<T>(oplog: ListOpLog<T>, from: LV[] = []): OpLogJSON<T> {
+  const ranges = diff(oplog.cg, from, oplog.cg.heads).bOnly
+  const start = opsStart(oplog)
+  const json: OpLogJSON<T> = { formatVersion: FORMAT_VERSION, cg: serializeDiff(oplog.cg, ranges), ops: [] }
+
+  let opRanges = ranges
+  if (ranges.length > 0 && ranges[0]![0] < start) {
+    if (from.length > 0 || oplog.base == null) throw Error('書き出す操作は圧縮済みです')
+    json.base = { version: lvToRawList(oplog.cg, oplog.base.version), content: oplog.base.content.slice() }
+    opRanges = [[start, nextLV(oplog.cg)]]
+  }
+
+  json.ops = spansIn(oplog, opRanges)
+  const txns = txnOffsetsIn(oplog, opRanges)
+  if (txns.length > 0) json.txns = txns
+  return json
+}
+
+// ===== 読み込み =====
+
+/**
+ * JSON表現を oplog に読み込んで返す（省略時は新しいOpLogに読み込む）。
+ * 差分の書き出しは、親の操作を既に持っている oplog にだけ読み込める。
+ * ベースを含むJSONは空のOpLogにしか読み込めない。
+ */
+export function fromJSON<T = string>(json: unknown, oplog: ListOpLog<T> = createOpLog<T>()): ListOpLog<T> {
+  const data = validateJSON<T>(json)
+  checkParents(oplog, data.cg)
+  if (data.base == null) {
+    const patch = { type: 'patch' as const, cg: data.cg, ops: data.ops }
+    applySyncPatch(oplog, data.txns == null ? patch : { ...patch, txns: data.txns })
+    return oplog
+  }
+
+  if (nextLV(oplog.cg) !== 0) throw Error('ベースを含むJSONは空のOpLogにしか読み込めません')
+  if (data.ops.some((op) => op.target != null)) {
+    fail('ops', '圧縮済みのOpLogに名前付きシーケンスの操作があります')
+  }
+  for (const { agent, seq, len, parents } of data.cg) addRaw(oplog.cg, [agent, seq], len, parents)
+  const baseVersion = data.base.version.map(([agent, seq]) => rawToLV(oplog.cg, agent, seq))
+  oplog.base = { version: baseVersion, content: data.base.content.slice() }
+
+  let version = opsStart(oplog)
+  if (nextLV(oplog.cg) - version !== totalLength(data.ops)) {
+    fail('ops', 'ベース以降の操作数とCGが一致しません')
+  }
+  for (const op of data.ops) {
+    pushOpRun(oplog.ops, { ...op, version } as ListOpRun<T>)
+    version += opRunLength(op)
+  }
+  const start = opsStart(oplog)
+  for (const [s, e] of data.txns ?? []) pushTxn(oplog, start + s, start + e)
+  return oplog
+}
+
+/** 検証エラーを投げる */
+function fail(path: string, reason: string): never {
+  throw Error('無効なJSON: ' + path + ': ' + reason)
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+
+const isIndex = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 0
+
+/** 0以上の整数を取り出す */
+function index(v: unknown, path: string, min: number = 0): number {
+  if (!isIndex(v) || v < min) fail(path, min + '以上の整数ではありません')
+  return v
+}
+
+/** RawVersion を取り出す */
+function rawVersion(v: unknown, path: string): RawVersion {
+  if (!Array.isArray(v) || v.length !== 2 || typeof v[0] !== 'string') {
+    fail(path, '[エージェント, シーケンス番号] ではありません')
+  }
+  return [v[0], index(v[1], path + '[1]')]
+}
+
+/** 構造と値の範囲を検証する（親の存在は checkParents で確認する） */
+function validateJSON<T>(json: unknown): OpLogJSON<T> {
+  if (!isObject(json)) fail('$', 'オブジェクトではありません')
+  if (json.formatVersion !== FORMAT_VERSION) {
+    fail('formatVersion', '未対応のフォーマットバージョンです: ' + String(json.formatVersion))
+  }
+
+  if (!Array.isArray(json.cg)) fail('cg', '配列ではありません')
+  const cg: PartialSerializedCG = json.cg.map((e: unknown, i) => {
+    const path = `cg[${i}]`
+    if (!isObject(e)) fail(path, 'オブジェクトではありません')
+    if (typeof e.agent !== 'string') fail(path + '.agent', '文字列ではありません')
+    if (!Array.isArray(e.parents)) fail(path + '.parents', '配列ではありません')
+    return {
+      agent: e.agent,
+      seq: index(e.seq, path + '.seq'),
+      len: index(e.len, path + '.len', 1),
+      parents: e.parents.map((p: unknown, j) => rawVersion(p, `${path}.parents[${j}]`)),
+    }
+  })
+
+  if (!Array.isArray(json.ops)) fail('ops', '配列ではありません')
+  const ops = json.ops.map((op: unknown, i) => validateOp<T>(op, `ops[${i}]`))
+
+  const data: OpLogJSON<T> = { formatVersion: FORMAT_VERSION, cg, ops }
+
+  if (json.base !== undefined) {
+    const base = json.base
+    if (!isObject(base)) fail('base', 'オブジェクトではありません')
+    if (!Array.isArray(base.version) || base.version.length === 0) fail('base.version', '空でない配列ではありません')
+    if (!Array.isArray(base.content)) fail('base.content', '配列ではありません')
+    const version = base.version.map((v: unknown, i) => rawVersion(v, `base.version[${i}]`))
+    version.forEach(([agent, seq], i) => {
+      if (!cg.some((e) => e.agent === agent && seq >= e.seq && seq < e.seq + e.len)) {
+        fail(`base.version[${i}]`, 'cg に含まれないバージョンです')
+      }
+    })
+    data.base = { version, content: base.content as T[] }
+  } else {
+    let cgLength = 0
+    for (const e of cg) cgLength += e.len
+    if (cgLength !== totalLength(ops)) fail('ops', '操作数とCGが一致しません')
+  }
+
+  if (json.txns !== undefined) {
+    if (!Array.isArray(json.txns)) fail('txns', '配列ではありません')
+    const opsLength = totalLength(ops)
+    let lastEnd = 0
+    data.txns = json.txns.map((txn: unknown, i): LVRange => {
+      const path = `txns[${i}]`
+      if (!Array.isArray(txn) || txn.length !== 2) fail(path, '[開始, 終了] ではありません')
+      const start = index(txn[0], path + '[0]', lastEnd)
+      const end = index(txn[1], path + '[1]', start + 2)
+      if (end > opsLength) fail(path + '[1]', '操作数を超えています')
+      lastEnd = end
+      return [start, end]
+    })
+  }
+
+  return data
+}
+
+/** 操作のランを検証する */
+function validateOp<T>(op: unknown, path: string): ListOpSpan<T> {
+  if (!isObject(op)) fail(path, 'オブジェクトではありません')
+  if (op.target !== undefined && typeof op.target !== 'string') fail(path + '.target', '文字列ではありません')
+  const target = op.target === undefined ? {} : { target: op.target }
+
+  switch (op.type) {
+    case 'ins':
+      if (!Array.isArray(op.content) || op.content.length === 0) fail(path + '.content', '空でない配列ではありません')
+      return { type: 'ins', pos: index(op.pos, path + '.pos'), content: op.content.slice() as T[], ...target } as ListOpSpan<T>
+    case 'del':
+      return { type: 'del', pos: index(op.pos, path + '.pos'), len: index(op.len, path + '.len', 1), ...target } as ListOpSpan<T>
+    case 'mark':
+      return { type: 'mark', mark: validateMark(op.mark, path + '.mark'), ...target } as ListOpSpan<T>
+    case 'move':
+      return { type: 'move', from: index(op.from, path + '.from'), to: index(op.to, path + '.to'), ...target } as ListOpSpan<T>
+    case 'map':
+      return { type: 'map', map: validateMap(op.map, path + '.map'), ...target } as ListOpSpan<T>
+    default:
+      return fail(path + '.type', '未知の操作の種類です: ' + String(op.type))
+  }
+}
+
+/** 書式操作を検証する */
+function validateMark(mark: unknown, path: string): MarkOp {
+  if (!isObject(mark)) fail(path, 'オブジェクトではありません')
+  const start = index(mark.start, path + '.start')
+  const end = index(mark.end, path + '.end', start + 1)
+  if (typeof mark.markType !== 'string') fail(path + '.markType', '文字列ではありません')
+  const value = validateValue(mark.value, path + '.value')
+  const expand = mark.expand
+  if (expand !== 'none' && expand !== 'before' && expand !== 'after' && expand !== 'both') {
+    fail(path + '.expand', '未知の広がり方です: ' + String(expand))
+  }
+  return { start, end, markType: mark.markType, value, expand }
+}
+
+/** マップ操作を検証する */
+function validateMap(map: unknown, path: string): MapOp {
+  if (!isObject(map)) fail(path, 'オブジェクトではありません')
+  if (typeof map.key !== 'string') fail(path + '.key', '文字列ではありません')
+  switch (map.type) {
+    case 'set':
+      return { type: 'set', key: map.key, value: validateValue(map.value, path + '.value') }
+    case 'delete':
+      return { type: 'delete', key: map.key }
+    default:
+      return fail(path + '.type', '未知のマップ操作の種類です: ' + String(map.type))
+  }
+}
+
+/** 書式・マップの値を検証する */
+function validateValue(value: unknown, path: string): MapValue {
+  if (value !== null && typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+    fail(path, '文字列・数値・真偽値・null のいずれでもありません')
+  }
+  return value
+}
+
+/** 操作のランの合計の長さ */
+function totalLength<T>(ops: ListOpSpan<T>[]): number {
+  let n = 0
+  for (const op of ops) n += opRunLength(op)
+  return n
+}
+
+/** すべてのエントリの親が、oplog の既知の操作か JSON 内のそれより前の操作であることを確認する */
+function checkParents<T>(oplog: ListOpLog<T>, cg: PartialSerializedCG): void {
+  // エージェント → JSON 内のそれまでのエントリのシーケンス番号の範囲
+  const seen = new Map<string, LVRange[]>()
+  cg.forEach(({ agent, seq, len, parents }, i) => {
+    parents.forEach(([pa, ps], j) => {
+      const known =
+        tryRawToLV(oplog.cg, pa, ps) != null ||
+        (seen.get(pa) ?? []).some(([s, e]) => ps >= s && ps < e)
+      if (!known) fail(`cg[${i}].parents[${j}]`, '未知のバージョンです: ' + pa + ' ' + ps)
+    })
+
+    let seqs = seen.get(agent)
+    if (seqs == null) seen.set(agent, (seqs = []))
+    seqs.push([seq, seq + len])
+  })
+}
@@ -0,0 +1,137 @@
+/**
+ * マップ（レジスタ）CRDT
+ *
+ * 文書のタイトルやタグ、設定などのメタデータを保持するキーと値のマップ。
+ * 操作は文書の ListOpLog に列に影響しないマップ操作として記録するため、
+ * テキストと同じ CausalGraph でバージョン管理され、同期・エンコード・JSON もそのまま使える。
+ *
+ * 各キーは並行する書き込みをすべて保持するマルチバリューレジスタとして解決する。
+ * - mapGetAll: 因果的に上書きされていない値をすべて返す（Multi-Value）
+ * - mapGet: そのうち Lamport 時刻、エージェント名、シーケンス番号の順に比較して最大の書き込みを選ぶ
+ *   （Last-Writer-Wins。書式の優先度と同じ順序）
+ *
+ * キーごとの書き込みのLVは OpLog ごとの索引に保持し、読み出し時に新しく追加された操作だけを索引に加える。
+ */
+
+import { nextLV, lamportCmp } from './causal-graph.js'
+import { findDominators, versionContainsLV, sameFrontier } from './causal-graph-advanced.js'
+import { localMapOp, getOp } from './oplog.js'
+import type { LV, ListOpLog, MapValue } from './types.js'
+
+// ===== ローカル操作 =====
+
+/** key に value を設定し、操作のLVを返す */
+export function mapSet<T>(oplog: ListOpLog<T>, agent: string, key: string, value: MapValue): LV {
+  return localMapOp(oplog, agent, { type: 'set', key, value })
+}
+
+/** key を削除し、操作のLVを返す */
+export function mapDelete<T>(oplog: ListOpLog<T>, agent: string, key: string): LV {
+  return localMapOp(oplog, agent, { type: 'delete', key })
+}
+
+// ===== キーごとの索引 =====
+
+/** OpLog のマップ操作の索引 */
+interface MapIndex {
+  /** 索引に加えた操作の終端LV（排他的） */
+  scanned: LV
+  /** キー → 書き込みのLV（昇順） */
+  writes: Map<string, LV[]>
+}
+
+const indexes = new WeakMap<object, MapIndex>()
+
+/**
+ * oplog の索引を返す。前回以降に追加された操作だけを走査する。
+ * 操作は末尾にしか追加されず、マップ操作を含む履歴は圧縮できないため、索引は作り直さなくてよい。
+ */
+function indexOf<T>(oplog: ListOpLog<T>): MapIndex {
+  let index = indexes.get(oplog)
+  if (index == null) {
+    index = { scanned: 0, writes: new Map() }
+    indexes.set(oplog, index)
+  }
+  const end = nextLV(oplog.cg)
+  if (index.scanned === end) return index
+
+  // 末尾から未走査のランを探す
+  let i = oplog.ops.length
+  while (i > 0 && oplog.ops[i - 1]!.version >= index.scanned) i--
+  for (; i < oplog.ops.length; i++) {
+    const run = oplog.ops[i]!
+    if (run.type !== 'map') continue
+    const lvs = index.writes.get(run.map.key)
+    if (lvs == null) index.writes.set(run.map.key, [run.version])
+    else lvs.push(run.version)
+  }
+  index.scanned = end
+  return index
+}
+
+// ===== 値の解決 =====
+
+/**
+ * version 時点で key への書き込みのうち、他の書き込みに上書きされていないもの。
+ * Lamport 時刻、(エージェント, シーケンス番号) の昇順に並べる。
+ */
+function concurrentWrites<T>(oplog: ListOpLog<T>, key: string, version: LV[]): LV[] {
+  const cg = oplog.cg
+  let writes = indexOf(oplog).writes.get(key) ?? []
+  if (!sameFrontier(version, cg.heads)) {
+    writes = writes.filter((lv) => versionContainsLV(cg, version, lv))
+  }
+  const dominators = findDominators(cg, writes)
+  return dominators.length > 1 ? dominators.sort(lamportCmp(cg)) : dominators
+}
+
+/** LV lv のマップ操作で設定された値（削除なら undefined） */
+function valueAt<T>(oplog: ListOpLog<T>, lv: LV): MapValue | undefined {
+  const op = getOp(oplog, lv)
+  return op.type === 'map' && op.map.type === 'set' ? op.map.value : undefined
+}
+
+/**
+ * key の値を返す（Last-Writer-Wins）。
+ * 並行する書き込みがある場合は Lamport 時刻が最大のもの、同じなら (エージェント, シーケンス番号) が最大のものを選ぶ。
+ * 未設定または削除された場合は undefined。
+ */
+export function mapGet<T>(
+  oplog: ListOpLog<T>,
+  key: string,
+  version: LV[] = oplog.cg.heads,
+): MapValue | undefined {
+  const writes = concurrentWrites(oplog, key, version)
+  if (writes.length === 0) return undefined
+  return valueAt(oplog, writes[writes.length - 1]!)
+}
+
+/**
+ * key の並行する値をすべて返す（Multi-Value）。
+ * 削除と並行する書き込みの値は残る。値が1つもなければ空配列。
+ */
+export function mapGetAll<T>(
+  oplog: ListOpLog<T>,
+  key: string,
+  version: LV[] = oplog.cg.heads,
+): MapValue[] {
+  const values: MapValue[] = []
+  for (const lv of concurrentWrites(oplog, key, version)) {
+    const value = valueAt(oplog, lv)
+    if (value !== undefined) values.push(value)
+  }
+  return values
+}
+
+/** version 時点のマップ全体を、キーごとに mapGet で解決したオブジェクトとして返す */
+export function mapToObject<T>(
+  oplog: ListOpLog<T>,
+  version: LV[] = oplog.cg.heads,
+): Record<string, MapValue> {
+  const result: Record<string, MapValue> = {}
+  for (const key of [...indexOf(oplog).writes.keys()].sort()) {
+    const value = mapGet(oplog, key, version)
+    if (value !== undefined) result[key] = value
+  }
+  return result
+}
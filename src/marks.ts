@@ -0,0 +1,191 @@
+/**
+ * 書式（Peritext方式のリッチテキスト）
+ *
+ * 太字・リンクなどの書式を、要素の範囲に対する操作として OpLog に記録する。
+ * 範囲の両端は歩行時に要素（挿入操作）の前後へのアンカーに変換されるため、
+ * 並行する挿入・削除をマージしても書式は意図した要素に付いたまま残る。
+ *
+ * - 範囲の端に後から挿入された要素に書式を広げるかは expand で指定する
+ *   （太字は after、リンクは none など）
+ * - 同じ種類の書式が重なった場合は、因果的に後の操作が優先される。
+ *   並行する操作の間では Lamport 時刻、エージェント名、シーケンス番号の順に比較するため、
+ *   どのピアでも同じ結果になる。
+ */
+
+import { lamportCmp } from './causal-graph.js'
+import { diff } from './causal-graph-advanced.js'
+import { createContextAt } from './edit-context.js'
+import { localMark, getOp } from './oplog.js'
+import {
+  ItemState,
+  type LV,
+  type ListOpLog,
+  type MarkAnchor,
+  type MarkExpand,
+  type MarkValue,
+} from './types.js'
+import type { Document } from './document.js'
+import type { TextDocument } from './text-document.js'
+
+/** スナップショットの [start, end) に適用されている書式 */
+export interface FormattedSpan {
+  start: number
+  end: number
+  /** 書式の種類 → 値 */
+  marks: Record<string, MarkValue>
+}
+
+/** 書式を設定できるドキュメント */
+type MarkDocument<T> = Document<T> | TextDocument
+
+const docVersion = <T>(doc: MarkDocument<T>): LV[] =>
+  'branch' in doc ? doc.branch.version : doc.version
+
+const docLength = <T>(doc: MarkDocument<T>): number =>
+  'branch' in doc ? doc.branch.snapshot.length : doc.text.length
+
+// ===== ローカル操作 =====
+
+/** 書式操作を記録し、ドキュメントのバージョンを進める */
+function docMark<T>(
+  doc: MarkDocument<T>,
+  agent: string,
+  start: number,
+  end: number,
+  markType: string,
+  value: MarkValue | null,
+  expand: MarkExpand,
+): void {
+  if (start < 0 || start >= end || end > docLength(doc)) {
+    throw Error(`無効な書式範囲: [${start}, ${end})`)
+  }
+  const oplog = doc.oplog as ListOpLog<T>
+  localMark(oplog, agent, { start, end, markType, value, expand })
+
+  // ローカル編集は常にfast-forwardで、内容は変わらない
+  const version = oplog.cg.heads.slice()
+  if ('branch' in doc) doc.branch.version = version
+  else (doc as { version: LV[] }).version = version
+}
+
+/**
+ * [start, end) の要素に markType の書式を設定する。
+ * expand の既定値は 'after'（末尾の直後への入力にも書式が続く）。
+ */
+export function addMark<T>(
+  doc: MarkDocument<T>,
+  agent: string,
+  start: number,
+  end: number,
+  markType: string,
+  value: MarkValue = true,
+  expand: MarkExpand = 'after',
+): void {
+  docMark(doc, agent, start, end, markType, value, expand)
+}
+
+/** [start, end) の要素から markType の書式を取り除く */
+export function removeMark<T>(
+  doc: MarkDocument<T>,
+  agent: string,
+  start: number,
+  end: number,
+  markType: string,
+  expand: MarkExpand = 'after',
+): void {
+  docMark(doc, agent, start, end, markType, null, expand)
+}
+
+// ===== 書式の解決 =====
+
+/** アイテムの直前・直後で開始・終了する書式（優先度順の番号） */
+interface Boundary {
+  starts: number[]
+  ends: number[]
+}
+
+const sameMarks = (a: Record<string, MarkValue>, b: Record<string, MarkValue>): boolean => {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+}
+
+/**
+ * version 時点の文書を、適用されている書式ごとのスパンに分割する。
+ * スパンは文書全体を隙間なく覆い、書式のない部分は marks が空になる。
+ */
+export function getFormattedSpans<T>(
+  doc: MarkDocument<T>,
+  version: LV[] = docVersion(doc),
+): FormattedSpan[] {
+  const oplog = doc.oplog as ListOpLog<T>
+  const cg = oplog.cg
+  const ctx = createContextAt(oplog, version)
+
+  // version に含まれる書式操作を優先度の低い順に並べる
+  const excluded = diff(cg, version, cg.heads).bOnly
+  const order = [...ctx.markAnchors.keys()]
+    .filter((lv) => !excluded.some(([s, e]) => lv >= s && lv < e))
+    .sort(lamportCmp(cg))
+  const marks = order.map((lv) => getOp(oplog, lv))
+
+  // アンカーの位置で書式の開始・終了を登録する
+  const before = new Map<number, Boundary>()
+  const after = new Map<number, Boundary>()
+  const active = new Array<boolean>(order.length).fill(false)
+  const register = (anchor: MarkAnchor, rank: number, key: 'starts' | 'ends'): void => {
+    if (anchor === null) {
+      // 文書の先頭から始まる（末尾で終わる書式は終了しない）
+      if (key === 'starts') active[rank] = true
+      return
+    }
+    const map = anchor.side === 'before' ? before : after
+    let b = map.get(anchor.id)
+    if (b == null) map.set(anchor.id, (b = { starts: [], ends: [] }))
+    b[key].push(rank)
+  }
+  order.forEach((lv, rank) => {
+    const [start, end] = ctx.markAnchors.get(lv)!
+    register(start, rank, 'starts')
+    register(end, rank, 'ends')
+  })
+
+  /** 有効な書式のうち、種類ごとに最も優先度の高いものの値 */
+  const current = (): Record<string, MarkValue> => {
+    const result: Record<string, MarkValue> = {}
+    const decided = new Set<string>()
+    for (let rank = order.length - 1; rank >= 0; rank--) {
+      if (!active[rank]) continue
+      const op = marks[rank]!
+      if (op.type !== 'mark' || decided.has(op.mark.markType)) continue
+      decided.add(op.mark.markType)
+      if (op.mark.value !== null) result[op.mark.markType] = op.mark.value
+    }
+    return result
+  }
+
+  const spans: FormattedSpan[] = []
+  let formatting = current()
+  let pos = 0
+  const apply = (b: Boundary | undefined): void => {
+    if (b == null) return
+    for (const rank of b.ends) active[rank] = false
+    for (const rank of b.starts) active[rank] = true
+    formatting = current()
+  }
+
+  for (const { item, len } of ctx.items.toRuns()) {
+    apply(before.get(item.opId))
+    if (item.curState === ItemState.Inserted) {
+      const last = spans[spans.length - 1]
+      if (last != null && sameMarks(last.marks, formatting)) {
+        last.end += len
+      } else {
+        spans.push({ start: pos, end: pos + len, marks: formatting })
+      }
+      pos += len
+    }
+    apply(after.get(item.opId))
+  }
+
+  return spans
+}
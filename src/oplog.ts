@@ -6,10 +6,14 @@
 
 import {
   createCG,
+  nextLV,
   nextSeqForAgent,
   add,
   addRaw,
+  lvToRaw,
   lvToRawList,
+  rawToLV,
+  tryRawToLV,
   summarizeVersion,
 } from './causal-graph.js'
 import {
@@ -17,11 +21,19 @@ import {
   diff,
   serializeDiff,
   mergePartialVersions,
+  sameFrontier,
 } from './causal-graph-advanced.js'
+import { binarySearch } from './utils/binary-search.js'
 import type {
+  LV,
+  LVRange,
   RawVersion,
   ListOp,
+  ListOpRun,
+  ListOpSpan,
   ListOpLog,
+  MarkOp,
+  MapOp,
 } from './types.js'
 
 /** 空のOpLogを作成 */
@@ -32,6 +44,302 @@ export function createOpLog<T = string>(): ListOpLog<T> {
   }
 }
 
+// ===== 操作のラン =====
+
+/** ランに含まれる操作の数 */
+export const opRunLength = <T>(run: ListOpRun<T> | ListOpSpan<T>): number =>
+  run.type === 'ins' ? run.content.length : run.type === 'del' ? run.len : 1
+
+/** 直前のランに連続している場合はマージする */
+function tryAppendOpRun<T>(last: ListOpRun<T>, run: ListOpRun<T>): boolean {
+  if (last.version + opRunLength(last) !== run.version) return false
+
+  if (last.type === 'ins' && run.type === 'ins') {
+    if (last.pos + last.content.length !== run.pos) return false
+    for (const val of run.content) last.content.push(val)
+    return true
+  }
+  if (last.type === 'del' && run.type === 'del') {
+    if (last.pos !== run.pos) return false
+    last.len += run.len
+    return true
+  }
+  return false
+}
+
+/**
+ * ランを末尾に追加する。直前のランと連続している場合はマージする。
+ * マージ時に content を書き換えるため、他と共有していないランを渡すこと。
+ */
+export function pushOpRun<T>(ops: ListOpRun<T>[], run: ListOpRun<T>): void {
+  if (opRunLength(run) === 0) return
+  const last = ops[ops.length - 1]
+  if (last != null && tryAppendOpRun(last, run)) return
+  ops.push(run)
+}
+
+/** ランの配列の終端LV（排他的） */
+function opsEnd<T>(oplog: ListOpLog<T>): LV {
+  const last = oplog.ops[oplog.ops.length - 1]
+  return last == null ? opsStart(oplog) : last.version + opRunLength(last)
+}
+
+/** 指定LVの操作を含むランのインデックス */
+function findOpRunIdx<T>(ops: ListOpRun<T>[], lv: LV): number {
+  const idx = binarySearch(ops, (run) =>
+    lv < run.version ? -1 : lv >= run.version + opRunLength(run) ? 1 : 0,
+  )
+  if (idx < 0) throw Error('操作が見つかりません: ' + lv)
+  return idx
+}
+
+/** 指定LVの操作を1要素分の操作として取得 */
+export function getOp<T>(oplog: ListOpLog<T>, lv: LV): ListOp<T> {
+  const run = oplog.ops[findOpRunIdx(oplog.ops, lv)]!
+  const offset = lv - run.version
+  switch (run.type) {
+    case 'ins':
+      return { type: 'ins', pos: run.pos + offset, content: run.content[offset]! }
+    case 'del':
+      return { type: 'del', pos: run.pos }
+    case 'mark':
+      return { type: 'mark', mark: run.mark }
+    case 'move':
+      return { type: 'move', from: run.from, to: run.to }
+    case 'map':
+      return { type: 'map', map: run.map }
+  }
+}
+
+/**
+ * [start, end) の操作をランの配列として取得する。
+ * 範囲の境界にかかるランは切り詰め、元のランとは共有しないコピーを返す。
+ */
+export function sliceOps<T>(
+  oplog: ListOpLog<T>,
+  start: LV,
+  end: LV,
+): ListOpRun<T>[] {
+  const result: ListOpRun<T>[] = []
+  if (start >= end) return result
+
+  for (let i = findOpRunIdx(oplog.ops, start); i < oplog.ops.length; i++) {
+    const run = oplog.ops[i]!
+    if (run.version >= end) break
+
+    const from = Math.max(start, run.version) - run.version
+    const to = Math.min(end, run.version + opRunLength(run)) - run.version
+    switch (run.type) {
+      case 'ins':
+        result.push({ type: 'ins', version: run.version + from, pos: run.pos + from, content: run.content.slice(from, to) })
+        break
+      case 'del':
+        result.push({ type: 'del', version: run.version + from, pos: run.pos, len: to - from })
+        break
+      case 'mark':
+        result.push({ type: 'mark', version: run.version, mark: { ...run.mark } })
+        break
+      case 'move':
+        result.push({ type: 'move', version: run.version, from: run.from, to: run.to })
+        break
+      case 'map':
+        result.push({ type: 'map', version: run.version, map: { ...run.map } })
+        break
+    }
+  }
+  return result
+}
+
+// ===== 圧縮済みの履歴 =====
+
+/** 操作を保持している最初のLV（圧縮済みならベースの直後、未圧縮なら0） */
+export function opsStart<T>(oplog: ListOpLog<T>): LV {
+  if (oplog.base == null) return 0
+  return Math.max(-1, ...oplog.base.version) + 1
+}
+
+/**
+ * version の履歴がベースを含むか（未圧縮なら常に true）。
+ * ベース以降の操作はすべてベースの子孫なので、LVだけで判定できる。
+ */
+export function containsBase<T>(oplog: ListOpLog<T>, version: LV[]): boolean {
+  if (oplog.base == null) return true
+  const start = opsStart(oplog)
+  return version.some((v) => v >= start) || sameFrontier(version, oplog.base.version)
+}
+
+/**
+ * 圧縮済みのOpLogに、ベースと並行する新しい操作を追加しようとしている場合はエラー。
+ * そのような操作は破棄済みの操作なしには適用できない。
+ */
+export function checkParentsAfterBase<T>(
+  oplog: ListOpLog<T>,
+  id: RawVersion,
+  len: number,
+  parents: RawVersion[],
+): void {
+  if (oplog.base == null || id[1] + len <= nextSeqForAgent(oplog.cg, id[0])) return
+
+  const lvs: LV[] = []
+  for (const [agent, seq] of parents) {
+    const lv = tryRawToLV(oplog.cg, agent, seq)
+    // 未知の親は同じ呼び出しで先に追加される操作なので、その操作の検査に任せる
+    if (lv == null) return
+    lvs.push(lv)
+  }
+  if (!containsBase(oplog, lvs)) {
+    throw Error('圧縮済みの履歴と並行する操作は追加できません')
+  }
+}
+
+// ===== 名前付きシーケンス =====
+
+/** 既定のシーケンス名（Document / TextDocument が編集するシーケンス） */
+export const DEFAULT_SEQUENCE = ''
+
+/** 指定LVの操作が対象とするシーケンス名 */
+export function opTarget<T>(oplog: ListOpLog<T>, lv: LV): string {
+  const targets = oplog.targets
+  if (targets == null) return DEFAULT_SEQUENCE
+  let idx = binarySearch(targets, (run) => (lv < run.version ? -1 : lv > run.version ? 1 : 0))
+  if (idx < 0) idx = -idx - 2
+  return idx < 0 ? DEFAULT_SEQUENCE : targets[idx]!.name
+}
+
+/** name のシーケンスを対象とする操作を追加できない場合はエラー（ベースは既定のシーケンスの内容しか持たない） */
+export function checkTarget<T>(oplog: ListOpLog<T>, name: string): void {
+  if (oplog.base != null && name !== DEFAULT_SEQUENCE) {
+    throw Error('圧縮済みのOpLogには名前付きシーケンスの操作を追加できません')
+  }
+}
+
+/**
+ * version 以降に追加する操作の対象シーケンスを記録する。
+ * 操作はLV順に追加するため、最後のランと同じシーケンスなら何もしない。
+ */
+export function pushTarget<T>(oplog: ListOpLog<T>, version: LV, name: string): void {
+  const targets = oplog.targets
+  if (targets == null) {
+    if (name === DEFAULT_SEQUENCE) return
+    checkTarget(oplog, name)
+    oplog.targets = [{ version, name }]
+    return
+  }
+  if (targets[targets.length - 1]!.name !== name) targets.push({ version, name })
+}
+
+/** [start, end) を対象シーケンスごとの区間に分割して visit を呼ぶ */
+export function eachTargetBetween<T>(
+  oplog: ListOpLog<T>,
+  start: LV,
+  end: LV,
+  visit: (name: string, start: LV, end: LV) => void,
+): void {
+  const targets = oplog.targets
+  if (targets == null) {
+    if (start < end) visit(DEFAULT_SEQUENCE, start, end)
+    return
+  }
+  while (start < end) {
+    const name = opTarget(oplog, start)
+    const next = targets.find((run) => run.version > start)
+    const segEnd = next == null ? end : Math.min(end, next.version)
+    visit(name, start, segEnd)
+    start = segEnd
+  }
+}
+
+/** [start, end) のうち target のシーケンスを対象とする操作だけをランの配列として取得する */
+export function sliceTargetOps<T>(
+  oplog: ListOpLog<T>,
+  start: LV,
+  end: LV,
+  target: string = DEFAULT_SEQUENCE,
+): ListOpRun<T>[] {
+  if (oplog.targets == null) return target === DEFAULT_SEQUENCE ? sliceOps(oplog, start, end) : []
+  const result: ListOpRun<T>[] = []
+  eachTargetBetween(oplog, start, end, (name, s, e) => {
+    if (name === target) result.push(...sliceOps(oplog, s, e))
+  })
+  return result
+}
+
+/** OpLogの操作が対象とするシーケンス名の一覧（既定のシーケンスを含む） */
+export function sequenceNames<T>(oplog: ListOpLog<T>): string[] {
+  const names = new Set([DEFAULT_SEQUENCE])
+  for (const run of oplog.targets ?? []) names.add(run.name)
+  return [...names]
+}
+
+// ===== トランザクション =====
+
+/**
+ * [start, end) の操作を1つのトランザクションとして記録する。
+ * 1操作以下の範囲はそれ自体が不可分なので記録しない。
+ */
+export function pushTxn<T>(oplog: ListOpLog<T>, start: LV, end: LV): void {
+  if (end - start < 2) return
+  if (oplog.txns == null) oplog.txns = []
+  oplog.txns.push([start, end])
+}
+
+/** [start, end) と重なるトランザクションの範囲（バージョン順） */
+export function txnsBetween<T>(oplog: ListOpLog<T>, start: LV, end: LV): LVRange[] {
+  const txns = oplog.txns
+  if (txns == null) return []
+  return txns.filter(([s, e]) => s < end && e > start)
+}
+
+// ===== 範囲の書き出し =====
+
+/**
+ * ranges の操作を、LVを含まないランとして順に返す（同期パッチ・JSON用）。
+ * 名前付きシーケンスの操作には target を付ける。
+ */
+export function spansIn<T>(oplog: ListOpLog<T>, ranges: LVRange[]): ListOpSpan<T>[] {
+  const spans: ListOpSpan<T>[] = []
+  for (const [start, end] of ranges) {
+    eachTargetBetween(oplog, start, end, (name, s, e) => {
+      const target = name === DEFAULT_SEQUENCE ? {} : { target: name }
+      for (const run of sliceOps(oplog, s, e)) {
+        switch (run.type) {
+          case 'ins':
+            spans.push({ type: 'ins', pos: run.pos, content: run.content, ...target })
+            break
+          case 'del':
+            spans.push({ type: 'del', pos: run.pos, len: run.len, ...target })
+            break
+          case 'mark':
+            spans.push({ type: 'mark', mark: run.mark, ...target })
+            break
+          case 'move':
+            spans.push({ type: 'move', from: run.from, to: run.to, ...target })
+            break
+          case 'map':
+            spans.push({ type: 'map', map: run.map, ...target })
+            break
+        }
+      }
+    })
+  }
+  return spans
+}
+
+/** ranges と重なるトランザクションを、ranges を連結した列での位置の範囲に変換する */
+export function txnOffsetsIn<T>(oplog: ListOpLog<T>, ranges: LVRange[]): LVRange[] {
+  const txns: LVRange[] = []
+  let offset = 0
+  for (const [start, end] of ranges) {
+    for (const [s, e] of txnsBetween(oplog, start, end)) {
+      txns.push([offset + Math.max(s, start) - start, offset + Math.min(e, end) - start])
+    }
+    offset += end - start
+  }
+  return txns
+}
+
+// ===== ローカル操作 =====
+
 /** ローカルの挿入操作を記録 */
 export function localInsert<T>(
   oplog: ListOpLog<T>,
@@ -39,12 +347,23 @@ export function localInsert<T>(
   pos: number,
   ...content: T[]
 ): void {
+  localSeqInsert(oplog, DEFAULT_SEQUENCE, agent, pos, content)
+}
+
+/** target のシーケンスへのローカルの挿入操作を記録 */
+export function localSeqInsert<T>(
+  oplog: ListOpLog<T>,
+  target: string,
+  agent: string,
+  pos: number,
+  content: T[],
+): void {
+  const version = nextLV(oplog.cg)
+  pushTarget(oplog, version, target)
   const seq = nextSeqForAgent(oplog.cg, agent)
   add(oplog.cg, agent, seq, seq + content.length, oplog.cg.heads)
-  for (const val of content) {
-    oplog.ops.push({ type: 'ins', pos, content: val })
-    pos++
-  }
+  // 続く挿入はランの content に追記されるので、呼び出し側の配列は共有しない
+  pushOpRun(oplog.ops, { type: 'ins', version, pos, content: content.slice() })
 }
 
 /** ローカルの削除操作を記録 */
@@ -54,13 +373,90 @@ export function localDelete<T>(
   pos: number,
   len: number = 1,
 ): void {
-  if (len === 0) throw Error('無効な削除長')
+  localSeqDelete(oplog, DEFAULT_SEQUENCE, agent, pos, len)
+}
+
+/**
+ * target のシーケンスからのローカルの削除操作を記録。
+ * OpLog はシーケンスの長さを持たないため、pos + len が長さを超えないことは呼び出し側で確かめる。
+ */
+export function localSeqDelete<T>(
+  oplog: ListOpLog<T>,
+  target: string,
+  agent: string,
+  pos: number,
+  len: number = 1,
+): void {
+  if (len <= 0) throw Error('無効な削除長')
+  if (pos < 0) throw Error('無効な削除位置')
 
+  const version = nextLV(oplog.cg)
+  pushTarget(oplog, version, target)
   const seq = nextSeqForAgent(oplog.cg, agent)
   add(oplog.cg, agent, seq, seq + len, oplog.cg.heads)
-  for (let i = 0; i < len; i++) {
-    oplog.ops.push({ type: 'del', pos })
-  }
+  pushOpRun(oplog.ops, { type: 'del', version, pos, len })
+}
+
+/**
+ * ローカルの書式操作を記録する。
+ * start, end は現在のバージョン（heads）での位置。
+ */
+export function localMark<T>(
+  oplog: ListOpLog<T>,
+  agent: string,
+  mark: MarkOp,
+): void {
+  if (mark.start < 0 || mark.start >= mark.end) throw Error('無効な書式範囲')
+
+  const version = nextLV(oplog.cg)
+  pushTarget(oplog, version, DEFAULT_SEQUENCE)
+  const seq = nextSeqForAgent(oplog.cg, agent)
+  add(oplog.cg, agent, seq, seq + 1, oplog.cg.heads)
+  pushOpRun(oplog.ops, { type: 'mark', version, mark: { ...mark } })
+}
+
+/** ローカルのマップ操作を記録し、操作のLVを返す */
+export function localMapOp<T>(
+  oplog: ListOpLog<T>,
+  agent: string,
+  op: MapOp,
+): LV {
+  const version = nextLV(oplog.cg)
+  pushTarget(oplog, version, DEFAULT_SEQUENCE)
+  const seq = nextSeqForAgent(oplog.cg, agent)
+  add(oplog.cg, agent, seq, seq + 1, oplog.cg.heads)
+  pushOpRun(oplog.ops, { type: 'map', version, map: { ...op } })
+  return version
+}
+
+/**
+ * ローカルの移動操作を記録する。
+ * from の要素を取り除き、取り除いた後の列の to に入れる（位置は現在のバージョン（heads）での位置）。
+ */
+export function localMove<T>(
+  oplog: ListOpLog<T>,
+  agent: string,
+  from: number,
+  to: number,
+): void {
+  localSeqMove(oplog, DEFAULT_SEQUENCE, agent, from, to)
+}
+
+/** target のシーケンスでのローカルの移動操作を記録 */
+export function localSeqMove<T>(
+  oplog: ListOpLog<T>,
+  target: string,
+  agent: string,
+  from: number,
+  to: number,
+): void {
+  if (from < 0 || to < 0) throw Error('無効な移動位置')
+
+  const version = nextLV(oplog.cg)
+  pushTarget(oplog, version, target)
+  const seq = nextSeqForAgent(oplog.cg, agent)
+  add(oplog.cg, agent, seq, seq + 1, oplog.cg.heads)
+  pushOpRun(oplog.ops, { type: 'move', version, from, to })
 }
 
 /**
@@ -75,21 +471,61 @@ export function pushOp<T>(
   pos: number,
   content?: T,
 ): boolean {
-  const entry = addRaw(oplog.cg, id, 1, parents)
-  if (entry == null) return false
-
   if (type === 'ins' && content === undefined) {
     throw Error('挿入操作にはコンテンツが必要です')
   }
-  if (entry.version !== oplog.ops.length) {
+  const span: ListOpSpan<T> =
+    type === 'ins' ? { type, pos, content: [content!] } : { type, pos, len: 1 }
+  return pushOps(oplog, id, parents, span) > 0
+}
+
+/**
+ * 外部の連続した操作（id から始まる1つのラン）をまとめてOpLogに追加し、新たに追加した操作数を返す。
+ *
+ * 先頭の一部が既知のシーケンス番号の場合は、既知の部分を読み飛ばして残りだけを追加する。
+ * すべて既知の場合は0を返す。
+ */
+export function pushOps<T>(
+  oplog: ListOpLog<T>,
+  id: RawVersion,
+  parents: RawVersion[],
+  span: ListOpSpan<T>,
+): number {
+  const len = opRunLength(span)
+  if (len <= 0) throw Error('無効な操作長')
+  checkParentsAfterBase(oplog, id, len, parents)
+  const target = span.target ?? DEFAULT_SEQUENCE
+  checkTarget(oplog, target)
+
+  const entry = addRaw(oplog.cg, id, len, parents)
+  if (entry == null) return 0
+
+  if (entry.version !== opsEnd(oplog)) {
     throw Error('無効な状態: OpLogの長さとCGが一致しません')
   }
 
-  const op: ListOp<T> =
-    type === 'ins' ? { type, pos, content: content! } : { type, pos }
-
-  oplog.ops.push(op)
-  return true
+  // 既知の部分をトリム
+  const known = entry.seq - id[1]
+  const version = entry.version
+  pushTarget(oplog, version, target)
+  switch (span.type) {
+    case 'ins':
+      pushOpRun(oplog.ops, { type: 'ins', version, pos: span.pos + known, content: span.content.slice(known) })
+      break
+    case 'del':
+      pushOpRun(oplog.ops, { type: 'del', version, pos: span.pos, len: len - known })
+      break
+    case 'mark':
+      pushOpRun(oplog.ops, { type: 'mark', version, mark: { ...span.mark } })
+      break
+    case 'move':
+      pushOpRun(oplog.ops, { type: 'move', version, from: span.from, to: span.to })
+      break
+    case 'map':
+      pushOpRun(oplog.ops, { type: 'map', version, map: { ...span.map } })
+      break
+  }
+  return len - known
 }
 
 /** 最新のバージョンを取得 */
@@ -101,6 +537,8 @@ export function getLatestVersion<T>(
 
 /**
  * srcのOpLogの内容をdestにマージする。
+ *
+ * src が圧縮済みの場合、破棄済みの操作は空の dest にだけベースごと複製できる。
  */
 export function mergeOplogInto<T>(
   dest: ListOpLog<T>,
@@ -112,12 +550,45 @@ export function mergeOplogInto<T>(
   // commonVersionからの差分を取得
   const ranges = diff(src.cg, commonVersion, src.cg.heads).bOnly
 
-  // 不足しているCGエントリをコピー
+  // 不足しているCGエントリ
   const cgDiff = serializeDiff(src.cg, ranges)
+  for (const e of cgDiff) checkParentsAfterBase(dest, [e.agent, e.seq], e.len, e.parents)
+  if (src.targets != null) {
+    for (const [start, end] of ranges) eachTargetBetween(src, start, end, (name) => checkTarget(dest, name))
+  }
+
+  let version = nextLV(dest.cg)
+  const srcStart = opsStart(src)
+  if (ranges.length > 0 && ranges[0]![0] < srcStart) {
+    if (version !== 0 || src.base == null) throw Error('圧縮済みの操作はマージできません')
+    // 空のOpLogへは全エントリを同じ順序でコピーするため、LVは src と一致する
+    dest.base = { version: src.base.version.slice(), content: src.base.content.slice() }
+  }
+
+  // CGエントリをコピー
   mergePartialVersions(dest.cg, cgDiff)
 
-  // 対応する操作エントリをコピー
+  // 対応する操作をコピー（destでのLVに付け替える）
+  const destStart = version
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, srcStart)
+    version += from - start
+    eachTargetBetween(src, from, end, (name, s, e) => {
+      pushTarget(dest, version, name)
+      for (const run of sliceOps(src, s, e)) {
+        run.version = version
+        version += opRunLength(run)
+        pushOpRun(dest.ops, run)
+      }
+    })
+  }
+
+  // トランザクションの記録もコピーする（トランザクションはまとめて届くので途中から欠けることはない）
   for (const [start, end] of ranges) {
-    dest.ops.push(...src.ops.slice(start, end))
+    for (const [s, e] of txnsBetween(src, start, end)) {
+      const [agent, seq] = lvToRaw(src.cg, s)
+      const lv = rawToLV(dest.cg, agent, seq)
+      if (lv >= destStart) pushTxn(dest, lv, lv + e - s)
+    }
   }
 }
@@ -4,6 +4,9 @@
  * EditContext の items 配列を置き換え、findByCurPos を O(log n) に高速化する。
  * 各ノードは Item を保持し、サブツリーのカウンタを管理する。
  * parent ポインタにより、Item → ノード → インデックスを O(log n) で計算可能。
+ *
+ * マージ時のプレースホルダーは、連続するIDの範囲を1ノード（ラン）として保持し、
+ * 個々の要素にアクセスされた時点で分割して実体化する。
  */
 
 import { ItemState, type Item } from './types.js'
@@ -12,8 +15,10 @@ const INS = ItemState.Inserted
 
 /** 順序統計木のノード */
 export interface OSTNode {
-  /** 保持する Item */
+  /** 保持する Item（ランの場合は先頭要素） */
   item: Item
+  /** このノードが表す要素数（通常は1、プレースホルダーのランは2以上） */
+  len: number
   /** 左の子 */
   left: OSTNode | null
   /** 右の子 */
@@ -22,7 +27,7 @@ export interface OSTNode {
   parent: OSTNode | null
   /** AVL木の高さ */
   height: number
-  /** サブツリーのノード数 */
+  /** サブツリーの要素数 */
   size: number
   /** サブツリー内の curState === INS のノード数 */
   curInsCount: number
@@ -31,16 +36,17 @@ export interface OSTNode {
 }
 
 /** ノードを作成 */
-function createNode(item: Item): OSTNode {
+function createNode(item: Item, len: number = 1): OSTNode {
   return {
     item,
+    len,
     left: null,
     right: null,
     parent: null,
     height: 1,
-    size: 1,
-    curInsCount: item.curState === INS ? 1 : 0,
-    endInsCount: item.endState === INS ? 1 : 0,
+    size: len,
+    curInsCount: item.curState === INS ? len : 0,
+    endInsCount: item.endState === INS ? len : 0,
   }
 }
 
@@ -67,9 +73,9 @@ function endIns(node: OSTNode | null): number {
 /** ノードのメタデータを再計算 */
 function update(node: OSTNode): void {
   node.height = 1 + Math.max(height(node.left), height(node.right))
-  node.size = 1 + size(node.left) + size(node.right)
-  node.curInsCount = (node.item.curState === INS ? 1 : 0) + curIns(node.left) + curIns(node.right)
-  node.endInsCount = (node.item.endState === INS ? 1 : 0) + endIns(node.left) + endIns(node.right)
+  node.size = node.len + size(node.left) + size(node.right)
+  node.curInsCount = (node.item.curState === INS ? node.len : 0) + curIns(node.left) + curIns(node.right)
+  node.endInsCount = (node.item.endState === INS ? node.len : 0) + endIns(node.left) + endIns(node.right)
 }
 
 /** 子ノードの parent ポインタを設定 */
@@ -137,7 +143,10 @@ function balance(node: OSTNode): OSTNode {
   return node
 }
 
-/** 位置 idx にノードを挿入（0-indexed） */
+/**
+ * 位置 idx にノードを挿入（0-indexed）。
+ * idx はランの境界でなければならない（ランの途中への挿入は事前に分割する）。
+ */
 function insertAtNode(
   root: OSTNode | null,
   idx: number,
@@ -152,24 +161,24 @@ function insertAtNode(
     root.left = insertAtNode(root.left, idx, newNode)
     root.left.parent = root
   } else {
-    root.right = insertAtNode(root.right, idx - leftSize - 1, newNode)
+    root.right = insertAtNode(root.right, idx - leftSize - root.len, newNode)
     root.right.parent = root
   }
 
   return balance(root)
 }
 
-/** インデックスでノードを取得（0-indexed） */
+/** インデックスでノードを取得（0-indexed）。ランの場合はランを含むノードを返す */
 function getByIndexNode(root: OSTNode | null, idx: number): OSTNode | null {
   if (root === null) return null
 
   const leftSize = size(root.left)
   if (idx < leftSize) {
     return getByIndexNode(root.left, idx)
-  } else if (idx === leftSize) {
+  } else if (idx < leftSize + root.len) {
     return root
   } else {
-    return getByIndexNode(root.right, idx - leftSize - 1)
+    return getByIndexNode(root.right, idx - leftSize - root.len)
   }
 }
 
@@ -183,13 +192,41 @@ function nodeToIndex(node: OSTNode): number {
     const p = current.parent
     if (current === p.right) {
       // 右の子 → 親の左サブツリー + 親自身
-      idx += size(p.left) + 1
+      idx += size(p.left) + p.len
     }
     current = p
   }
   return idx
 }
 
+/** ノードより前にある curState === INS の要素数 */
+function nodeToCurPos(node: OSTNode): number {
+  let pos = curIns(node.left)
+  let current = node
+  while (current.parent !== null) {
+    const p = current.parent
+    if (current === p.right) {
+      pos += curIns(p.left) + (p.item.curState === INS ? p.len : 0)
+    }
+    current = p
+  }
+  return pos
+}
+
+/** ノードより前にある endState === INS の要素数 */
+function nodeToEndPos(node: OSTNode): number {
+  let pos = endIns(node.left)
+  let current = node
+  while (current.parent !== null) {
+    const p = current.parent
+    if (current === p.right) {
+      pos += endIns(p.left) + (p.item.endState === INS ? p.len : 0)
+    }
+    current = p
+  }
+  return pos
+}
+
 /**
  * curPos に基づいてアイテムを検索する。
  *
@@ -225,18 +262,16 @@ function findByCurPosNode(
       idx += leftSize
       endPos += leftEndIns
 
-      // 現在のノードを処理
+      // 現在のノードを処理（ランは状態が一様なので途中で止まれる）
+      const endStep = node.item.endState === INS ? 1 : 0
       if (node.item.curState === INS) {
-        remaining--
-      }
-      if (node.item.endState === INS) {
-        endPos++
-      }
-      idx++
-
-      if (remaining <= 0) {
-        return { idx, endPos }
+        if (remaining <= node.len) {
+          return { idx: idx + remaining, endPos: endPos + remaining * endStep }
+        }
+        remaining -= node.len
       }
+      idx += node.len
+      endPos += node.len * endStep
 
       // 右サブツリーへ
       node = node.right
@@ -277,7 +312,7 @@ function findByCurPosWithHint(
   return findByCurPosNode(root, targetPos)
 }
 
-/** 全ノードを配列として取得（in-order走査） */
+/** 全ノードを配列として取得（in-order走査、ランは先頭要素のみ） */
 function toArrayNodes(root: OSTNode | null, result: Item[]): void {
   if (root === null) return
   toArrayNodes(root.left, result)
@@ -285,6 +320,13 @@ function toArrayNodes(root: OSTNode | null, result: Item[]): void {
   toArrayNodes(root.right, result)
 }
 
+function toRunNodes(root: OSTNode | null, result: { item: Item; len: number }[]): void {
+  if (root === null) return
+  toRunNodes(root.left, result)
+  result.push({ item: root.item, len: root.len })
+  toRunNodes(root.right, result)
+}
+
 /**
  * 順序統計木
  *
@@ -295,18 +337,28 @@ export class OrderStatisticTree {
   _root: OSTNode | null = null
   /** Item → OSTNode の逆引き */
   private _nodeMap: Map<Item, OSTNode> = new Map()
+  /** プレースホルダーID → Item（ランの先頭要素のみ登録される） */
+  private _placeholders: Map<number, Item> = new Map()
 
-  /** ノード数 */
+  /** 要素数 */
   get length(): number {
     return size(this._root)
   }
 
+  /** endState === INS の要素数（スナップショットの長さ） */
+  get endLength(): number {
+    return endIns(this._root)
+  }
+
+  /** curState === INS の要素数（現在のバージョンでの文書の長さ） */
+  get curLength(): number {
+    return curIns(this._root)
+  }
+
   /** 位置 idx にアイテムを挿入（0-indexed） */
   insertAt(idx: number, item: Item): void {
-    const newNode = createNode(item)
-    this._nodeMap.set(item, newNode)
-    this._root = insertAtNode(this._root, idx, newNode)
-    if (this._root) this._root.parent = null
+    this._splitAt(idx)
+    this._insertNode(idx, createNode(item))
   }
 
   /** 末尾にアイテムを追加 */
@@ -314,10 +366,40 @@ export class OrderStatisticTree {
     this.insertAt(this.length, item)
   }
 
-  /** インデックスでアイテムを取得（0-indexed） */
+  /**
+   * 末尾にプレースホルダーのラン [startId, startId + len) を追加する。
+   * 各要素は Inserted 状態で、アクセスされるまで1ノードのまま保持される。
+   */
+  pushPlaceholder(startId: number, len: number): void {
+    if (len <= 0) return
+    const item: Item = {
+      opId: startId,
+      curState: INS,
+      endState: INS,
+      originLeft: -1,
+      rightParent: -1,
+    }
+    this._placeholders.set(startId, item)
+    this._insertNode(this.length, createNode(item, len))
+  }
+
+  /** プレースホルダーIDからアイテムを取得（実体化済みのもののみ） */
+  getPlaceholder(id: number): Item | null {
+    return this._placeholders.get(id) ?? null
+  }
+
+  /**
+   * インデックスでアイテムを取得（0-indexed）。
+   * プレースホルダーのランの途中であれば、その要素を分割して実体化する。
+   */
   getByIndex(idx: number): Item | null {
     const node = getByIndexNode(this._root, idx)
-    return node ? node.item : null
+    if (node === null) return null
+    if (node.len === 1) return node.item
+
+    this._splitAt(idx)
+    this._splitAt(idx + 1)
+    return getByIndexNode(this._root, idx)!.item
   }
 
   /**
@@ -330,6 +412,26 @@ export class OrderStatisticTree {
     return nodeToIndex(node)
   }
 
+  /**
+   * Item の前にある curState === INS の要素数（現在のバージョンでの位置）を O(log n) で計算する。
+   * 木に含まれない場合は -1。
+   */
+  curPosOfItem(item: Item): number {
+    const node = this._nodeMap.get(item)
+    if (!node) return -1
+    return nodeToCurPos(node)
+  }
+
+  /**
+   * Item の前にある endState === INS の要素数（スナップショット上の位置）を O(log n) で計算する。
+   * 木に含まれない場合は -1。
+   */
+  endPosOfItem(item: Item): number {
+    const node = this._nodeMap.get(item)
+    if (!node) return -1
+    return nodeToEndPos(node)
+  }
+
   /**
    * curPos に基づいてアイテムを検索する。
    * curState === INS のノードをカウントして位置を決定。
@@ -373,6 +475,49 @@ export class OrderStatisticTree {
     toArrayNodes(this._root, result)
     return result
   }
+
+  /**
+   * 全ノードをランの長さとともに順に取得する。
+   * プレースホルダーのランは実体化せず、先頭要素と長さで表す。
+   */
+  toRuns(): { item: Item; len: number }[] {
+    const result: { item: Item; len: number }[] = []
+    toRunNodes(this._root, result)
+    return result
+  }
+
+  /** ノードを木に挿入し、逆引きに登録する */
+  private _insertNode(idx: number, node: OSTNode): void {
+    this._nodeMap.set(node.item, node)
+    this._root = insertAtNode(this._root, idx, node)
+    if (this._root) this._root.parent = null
+  }
+
+  /**
+   * idx がランの途中であれば、そこでランを2つに分割する。
+   * 分割後は idx がノード境界になる。
+   */
+  private _splitAt(idx: number): void {
+    if (idx <= 0 || idx >= this.length) return
+
+    const node = getByIndexNode(this._root, idx)!
+    if (node.len === 1) return
+    const offset = idx - nodeToIndex(node)
+    if (offset === 0) return
+
+    // 左側は既存ノードを縮めて使い回す
+    const restLen = node.len - offset
+    node.len = offset
+    this.refreshCountsForItem(node.item)
+
+    // 右側は新しいランとして挿入
+    const item: Item = {
+      ...node.item,
+      opId: node.item.opId + offset,
+    }
+    this._placeholders.set(item.opId, item)
+    this._insertNode(idx, createNode(item, restLen))
+  }
 }
 
 /** 指定インデックスのノードを含むパス上の全ノードを再計算 */
@@ -383,8 +528,8 @@ function refreshAt(root: OSTNode | null, idx: number): OSTNode | null {
   if (idx < leftSize) {
     root.left = refreshAt(root.left, idx)
     if (root.left) root.left.parent = root
-  } else if (idx > leftSize) {
-    root.right = refreshAt(root.right, idx - leftSize - 1)
+  } else if (idx >= leftSize + root.len) {
+    root.right = refreshAt(root.right, idx - leftSize - root.len)
     if (root.right) root.right.parent = root
   }
 
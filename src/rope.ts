@@ -180,6 +180,20 @@ function deleteAt(node: RopeNode, pos: number): RopeNode | null {
   return balance(node)
 }
 
+/** 位置 pos の1文字を取得（pos は 0-indexed） */
+function charAt(node: RopeNode, pos: number): string {
+  while (node.text === null) {
+    const leftLen = node.left ? node.left.length : 0
+    if (pos < leftLen) {
+      node = node.left!
+    } else {
+      pos -= leftLen
+      node = node.right!
+    }
+  }
+  return node.text[pos]!
+}
+
 /** サブツリーのテキストを配列に収集 */
 function collectChunks(node: RopeNode | null, chunks: string[]): void {
   if (node === null) return
@@ -191,11 +205,95 @@ function collectChunks(node: RopeNode | null, chunks: string[]): void {
   collectChunks(node.right, chunks)
 }
 
+/** テキストを MAX_LEAF ごとのリーフに分けて平衡木を構築 */
+function buildTree(text: string): RopeNode | null {
+  if (text.length === 0) return null
+  const leaves: RopeNode[] = []
+  for (let i = 0; i < text.length; i += MAX_LEAF) {
+    leaves.push(createLeaf(text.slice(i, i + MAX_LEAF)))
+  }
+  const build = (lo: number, hi: number): RopeNode => {
+    if (hi - lo === 1) return leaves[lo]!
+    const mid = (lo + hi) >> 1
+    return createInternal(build(lo, mid), build(mid, hi))
+  }
+  return build(0, leaves.length)
+}
+
+/**
+ * 2つの木を連結（left の全文字の後に right を続ける）。
+ * 高さの差がいくらあっても、高い方の端を下りて高さの揃う位置で繋ぐので平衡が保たれる。
+ */
+function join(left: RopeNode | null, right: RopeNode | null): RopeNode | null {
+  if (left === null) return right
+  if (right === null) return left
+
+  if (left.height > right.height + 1) {
+    left.right = join(left.right, right)
+    return balance(left)
+  }
+  if (right.height > left.height + 1) {
+    right.left = join(left, right.left)
+    return balance(right)
+  }
+  // 小さなリーフ同士はまとめる
+  if (left.text !== null && right.text !== null && left.length + right.length <= MAX_LEAF) {
+    return createLeaf(left.text + right.text)
+  }
+  return createInternal(left, right)
+}
+
+/** 位置 pos で2つの木に分割 */
+function split(node: RopeNode | null, pos: number): [RopeNode | null, RopeNode | null] {
+  if (node === null) return [null, null]
+  if (pos <= 0) return [null, node]
+  if (pos >= node.length) return [node, null]
+
+  if (node.text !== null) {
+    return [createLeaf(node.text.slice(0, pos)), createLeaf(node.text.slice(pos))]
+  }
+
+  const leftLen = node.left ? node.left.length : 0
+  if (pos <= leftLen) {
+    const [a, b] = split(node.left, pos)
+    return [a, join(b, node.right)]
+  }
+  const [a, b] = split(node.right, pos - leftLen)
+  return [join(node.left, a), b]
+}
+
+/** ノードから pos 以降の len 文字を削除（範囲の境界以外のリーフには触れない） */
+function deleteRangeAt(node: RopeNode, pos: number, len: number): RopeNode | null {
+  if (pos === 0 && len >= node.length) return null
+
+  if (node.text !== null) {
+    node.text = node.text.slice(0, pos) + node.text.slice(pos + len)
+    node.length = node.text.length
+    return node
+  }
+
+  const leftLen = node.left ? node.left.length : 0
+  const end = pos + len
+  let left = node.left
+  let right = node.right
+  if (left !== null && pos < leftLen) {
+    left = deleteRangeAt(left, pos, Math.min(end, leftLen) - pos)
+  }
+  if (right !== null && end > leftLen) {
+    const start = Math.max(pos, leftLen)
+    right = deleteRangeAt(right, start - leftLen, end - start)
+  }
+  return join(left, right)
+}
+
 /**
  * AVL平衡二分木ベースのRope
  *
  * - insert(pos, text): O(log n)
+ * - insertText(pos, text) / insertRange(pos, items): O(log n + text.length)
  * - delete(pos): O(log n)
+ * - deleteText(pos, len) / deleteRange(pos, len): O(log² n)
+ * - get(pos): O(log n)
  * - toString(): O(n) だがチャンク連結で高速
  * - length: O(1)
  */
@@ -213,12 +311,54 @@ export class Rope implements SnapshotOps<string> {
     this._root = insertAt(this._root, pos, content)
   }
 
+  /** 位置 pos に items を連結した文字列を挿入 */
+  insertRange(pos: number, items: string[]): void {
+    this.insertText(pos, items.join(''))
+  }
+
   /** 位置 pos の1文字を削除 */
   delete(pos: number): void {
     if (this._root === null) return
     this._root = deleteAt(this._root, pos)
   }
 
+  /** 位置 pos から len 文字を削除 */
+  deleteRange(pos: number, len: number): void {
+    this.deleteText(pos, len)
+  }
+
+  /** 文字列から平衡したRopeを構築 */
+  static fromString(text: string): Rope {
+    const rope = new Rope()
+    rope._root = buildTree(text)
+    return rope
+  }
+
+  /** 位置 pos に文字列を挿入（長い文字列はリーフに分けて連結する） */
+  insertText(pos: number, text: string): void {
+    if (text.length === 0) return
+    if (text.length <= MAX_LEAF) {
+      this._root = insertAt(this._root, pos, text)
+      return
+    }
+    const [left, right] = split(this._root, pos)
+    this._root = join(join(left, buildTree(text)), right)
+  }
+
+  /** 位置 pos から len 文字を削除 */
+  deleteText(pos: number, len: number): void {
+    if (this._root === null || len <= 0) return
+    this._root = deleteRangeAt(this._root, pos, len)
+  }
+
+  /** 位置 pos の1文字を取得 */
+  get(pos: number): string {
+    if (this._root === null || pos < 0 || pos >= this._root.length) {
+      throw Error('範囲外の位置: ' + pos)
+    }
+    return charAt(this._root, pos)
+  }
+
   /** 文字列に変換（チャンク連結） */
   toString(): string {
     if (this._root === null) return ''
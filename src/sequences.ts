@@ -0,0 +1,129 @@
+/**
+ * 名前付きシーケンスを持つドキュメント
+ *
+ * タイトル・本文・脚注のように、1つの因果履歴を共有する複数のリストを扱う。
+ * 操作はすべて1つの OpLog に記録し、各操作が対象とするシーケンス名を保持する。
+ * 同期（summarizeVersion / mergeOplogInto / 同期プロトコル）は文書全体の単位で行うため、
+ * 1回の同期ですべてのシーケンスの変更がまとめて届く。
+ *
+ * スナップショットはシーケンスごとの Branch として保持し、
+ * マージ時は各シーケンスを対象とする操作だけを歩行して更新する。
+ */
+
+import {
+  createOpLog,
+  localSeqInsert,
+  localSeqDelete,
+  localSeqMove,
+  mergeOplogInto,
+  sequenceNames,
+} from './oplog.js'
+import { checkout, mergeChangesIntoBranch } from './branch.js'
+import type { Branch, ListOpLog } from './types.js'
+
+/** 名前付きシーケンスを持つドキュメント（常に OpLog の最新バージョンを表す） */
+export interface SequenceDocument<T = string> {
+  readonly oplog: ListOpLog<T>
+  /** シーケンス名 → スナップショット（バージョンはすべてのシーケンスで共通） */
+  readonly branches: ReadonlyMap<string, Branch<T>>
+}
+
+/** 空のドキュメントを作成 */
+export function createSequenceDocument<T = string>(): SequenceDocument<T> {
+  return { oplog: createOpLog<T>(), branches: new Map() }
+}
+
+/** OpLogからドキュメントを開く（シーケンスごとにフルリプレイ） */
+export function openSequenceDocument<T>(oplog: ListOpLog<T>): SequenceDocument<T> {
+  const branches = new Map<string, Branch<T>>()
+  for (const name of sequenceNames(oplog)) branches.set(name, checkout(oplog, name))
+  return { oplog, branches }
+}
+
+/** name のシーケンスのブランチ（まだなければ作成する） */
+function branchOf<T>(doc: SequenceDocument<T>, name: string): Branch<T> {
+  let branch = doc.branches.get(name)
+  if (branch == null) {
+    branch = checkout(doc.oplog, name)
+    ;(doc.branches as Map<string, Branch<T>>).set(name, branch)
+  }
+  return branch
+}
+
+/** ローカル編集後にすべてのシーケンスのバージョンを進める（他のシーケンスの内容は変わらない） */
+function advanceAll<T>(doc: SequenceDocument<T>): void {
+  for (const branch of doc.branches.values()) branch.version = doc.oplog.cg.heads.slice()
+}
+
+/** name のシーケンスへのローカル挿入 */
+export function seqInsert<T>(
+  doc: SequenceDocument<T>,
+  name: string,
+  agent: string,
+  pos: number,
+  ...content: T[]
+): void {
+  const branch = branchOf(doc, name)
+  localSeqInsert(doc.oplog, name, agent, pos, content)
+  branch.snapshot.splice(pos, 0, ...content)
+  advanceAll(doc)
+}
+
+/** name のシーケンスからのローカル削除 */
+export function seqDelete<T>(
+  doc: SequenceDocument<T>,
+  name: string,
+  agent: string,
+  pos: number,
+  len: number = 1,
+): void {
+  const branch = branchOf(doc, name)
+  if (pos < 0 || pos + len > branch.snapshot.length) {
+    throw Error('範囲外の削除: ' + pos + ' + ' + len)
+  }
+  localSeqDelete(doc.oplog, name, agent, pos, len)
+  branch.snapshot.splice(pos, len)
+  advanceAll(doc)
+}
+
+/** name のシーケンスでのローカル移動（from の要素を取り除き、取り除いた後の列の to に入れる） */
+export function seqMove<T>(
+  doc: SequenceDocument<T>,
+  name: string,
+  agent: string,
+  from: number,
+  to: number,
+): void {
+  const branch = branchOf(doc, name)
+  const length = branch.snapshot.length
+  if (from >= length || to >= length) throw Error('範囲外の移動: ' + from + ' → ' + to)
+  localSeqMove(doc.oplog, name, agent, from, to)
+  branch.snapshot.splice(to, 0, ...branch.snapshot.splice(from, 1))
+  advanceAll(doc)
+}
+
+/** name のシーケンスの内容を取得（存在しないシーケンスは空） */
+export function getSequence<T>(doc: SequenceDocument<T>, name: string): readonly T[] {
+  return doc.branches.get(name)?.snapshot ?? []
+}
+
+/** name のシーケンスを文字列として取得（T = string専用） */
+export function getSequenceText(doc: SequenceDocument<string>, name: string): string {
+  return getSequence(doc, name).join('')
+}
+
+/** リモートのOpLogをマージし、すべてのシーケンスのスナップショットを更新する */
+export function mergeSequenceRemote<T>(
+  doc: SequenceDocument<T>,
+  remoteOplog: ListOpLog<T>,
+): void {
+  mergeOplogInto(doc.oplog, remoteOplog)
+  for (const name of sequenceNames(doc.oplog)) {
+    const branch = doc.branches.get(name)
+    if (branch == null) {
+      branchOf(doc, name)
+    } else {
+      mergeChangesIntoBranch(branch, doc.oplog, doc.oplog.cg.heads, null, name)
+    }
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * ネットワークシミュレータ
+ *
+ * 複数のピアの Document をランダムに編集し、遅延・順序の入れ替え・重複・分断のある
+ * メモリ上のネットワークでやり取りさせて、最終的にすべてのピアが収束することを確かめる。
+ * 乱数はシードから決まるため、失敗したシードはそのまま再現できる。
+ *
+ * メッセージは同期パッチで、送信元が相手に届いていると把握しているバージョン以降の操作だけを含む。
+ * 送信元は送ったパッチと相手から受け取ったパッチから相手のバージョンを更新し、
+ * 受信側は mergeRemotePatch でマージする。順序が入れ替わって親が未着のパッチは、親が揃うまで受信側で保留する。
+ * 古いメッセージが後から届いても、同じメッセージが何度届いてもよいことを確かめられる。
+ */
+
+import {
+  createDocument,
+  docInsert,
+  docDelete,
+  getText,
+  mergeRemotePatch,
+  type Document,
+} from './document.js'
+import { createSyncPatchSince, hasSyncPatchParents, type SyncPatch } from './sync.js'
+import { findDominators } from './causal-graph-advanced.js'
+import { lvToRawList, rawToLV } from './causal-graph.js'
+import type { LV, RawVersion } from './types.js'
+
+/** ピアの編集を行う関数（rng は [0, 1) の疑似乱数） */
+export type SimEdit = (doc: Document<string>, agent: string, rng: () => number) => void
+
+/** シミュレータの設定 */
+export interface NetworkSimOptions {
+  /** ピアの数 */
+  peers: number
+  /** 乱数のシード（0 以外） */
+  seed: number
+  /** 各ティックで各ピアが編集する確率。既定値は0.3 */
+  editRate?: number
+  /** 配送までの最大遅延（ティック数）。既定値は5 */
+  maxDelay?: number
+  /** メッセージを重複して配送する確率。既定値は0.1 */
+  duplicateRate?: number
+  /** 各ティックでネットワークの分断が始まる・解消する確率。既定値は0.05 */
+  partitionRate?: number
+  /** ピアの編集。既定ではランダムな位置への1文字の挿入か削除 */
+  edit?: SimEdit
+}
+
+/** 配送の統計 */
+export interface NetworkSimStats {
+  sent: number
+  /** 送ったメッセージに含まれる操作の総数 */
+  sentOps: number
+  delivered: number
+  /** 重複して送ったメッセージの数 */
+  duplicated: number
+  /** 同じ送信元の後に送ったメッセージより遅れて届いたメッセージの数 */
+  reordered: number
+  /** 分断のために配送を遅らせた回数 */
+  held: number
+}
+
+/** シミュレータの状態 */
+export interface NetworkSim {
+  readonly peers: readonly Document<string>[]
+  readonly tick: number
+  readonly stats: Readonly<NetworkSimStats>
+}
+
+/** 配送待ちのメッセージ */
+interface SimMessage {
+  from: number
+  to: number
+  /** 送信元での送信順 */
+  index: number
+  deliverAt: number
+  payload: SyncPatch<string>
+}
+
+/** 内部状態 */
+interface NetworkSimInternal extends NetworkSim {
+  tick: number
+  stats: NetworkSimStats
+  rng: () => number
+  editRate: number
+  maxDelay: number
+  duplicateRate: number
+  partitionRate: number
+  edit: SimEdit
+  queue: SimMessage[]
+  /** 分断中の各ピアのグループ（null なら分断なし） */
+  partition: number[] | null
+  /** ピアごとの送信数 */
+  sentCount: number[]
+  /** [送信元][受信先] で届いたメッセージの最大の送信順 */
+  lastIndex: number[][]
+  /** [ピア][相手] で、ピアが把握している相手のバージョン（ピアのLV） */
+  peerVersion: LV[][][]
+  /** ピアごとの、親が揃うのを待っているパッチ（送信元と組にして届いた順） */
+  pending: { from: number; patch: SyncPatch<string> }[][]
+}
+
+/** 再現可能な疑似乱数生成器（xorshift32） */
+function createRng(seed: number): () => number {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0x100000000
+  }
+}
+
+/** 既定の編集: ランダムな位置に1文字挿入するか、1文字削除する */
+const randomEdit: SimEdit = (doc, agent, rng) => {
+  const len = doc.branch.snapshot.length
+  if (len > 0 && rng() < 0.3) {
+    docDelete(doc, agent, Math.floor(rng() * len))
+  } else {
+    docInsert(doc, agent, Math.floor(rng() * (len + 1)), 'abcdefghij'[Math.floor(rng() * 10)]!)
+  }
+}
+
+/** ピアの編集者名 */
+const peerAgent = (i: number): string => 'peer' + i
+
+/** シミュレータを作成する。すべてのピアは空のドキュメントから始まる */
+export function createNetworkSim(options: NetworkSimOptions): NetworkSim {
+  if (options.peers < 1) throw Error('ピアは1つ以上必要です')
+  if (options.seed === 0) throw Error('シードには0以外を指定してください')
+  const sim: NetworkSimInternal = {
+    peers: Array.from({ length: options.peers }, () => createDocument<string>()),
+    tick: 0,
+    stats: { sent: 0, sentOps: 0, delivered: 0, duplicated: 0, reordered: 0, held: 0 },
+    rng: createRng(options.seed),
+    editRate: options.editRate ?? 0.3,
+    maxDelay: options.maxDelay ?? 5,
+    duplicateRate: options.duplicateRate ?? 0.1,
+    partitionRate: options.partitionRate ?? 0.05,
+    edit: options.edit ?? randomEdit,
+    queue: [],
+    partition: null,
+    sentCount: Array<number>(options.peers).fill(0),
+    lastIndex: Array.from({ length: options.peers }, () => Array<number>(options.peers).fill(-1)),
+    peerVersion: Array.from({ length: options.peers }, () => Array.from({ length: options.peers }, (): LV[] => [])),
+    pending: Array.from({ length: options.peers }, () => []),
+  }
+  return sim
+}
+
+/**
+ * 1ティック進める。
+ * 分断の開始・解消、各ピアの編集と送信、配送時刻になったメッセージの配送をこの順に行う。
+ */
+export function stepNetworkSim(sim: NetworkSim): void {
+  const internal = sim as NetworkSimInternal
+  const { rng, peers } = internal
+  internal.tick++
+
+  if (peers.length > 1 && rng() < internal.partitionRate) {
+    internal.partition = internal.partition == null ? randomPartition(internal) : null
+  }
+
+  peers.forEach((doc, i) => {
+    if (rng() < internal.editRate) {
+      internal.edit(doc, peerAgent(i), rng)
+      broadcast(internal, i)
+    }
+  })
+
+  deliverDue(internal)
+}
+
+/**
+ * 分断を解消し、すべてのピアが相手に不足している操作を送り合って、配送待ちのメッセージがなくなるまで進める。
+ * この間、ピアは編集しない。
+ */
+export function settleNetworkSim(sim: NetworkSim): void {
+  const internal = sim as NetworkSimInternal
+  internal.partition = null
+  internal.peers.forEach((_, i) => broadcast(internal, i))
+  while (internal.queue.length > 0) {
+    internal.tick++
+    deliverDue(internal)
+  }
+}
+
+/** すべてのピアの内容とバージョンが一致していなければエラーを投げる */
+export function assertConverged(sim: NetworkSim): void {
+  const [first, ...rest] = sim.peers
+  if (first == null) return
+  const text = getText(first)
+  const heads = rawHeads(first)
+  rest.forEach((doc, i) => {
+    if (getText(doc) !== text) {
+      throw Error(`ピア ${i + 1} の内容が一致しません: ${JSON.stringify(getText(doc))} ≠ ${JSON.stringify(text)}`)
+    }
+    if (JSON.stringify(rawHeads(doc)) !== JSON.stringify(heads)) {
+      throw Error(`ピア ${i + 1} のバージョンが一致しません`)
+    }
+  })
+}
+
+/** ticks ティック実行してから収束させ、すべてのピアが一致することを確かめる */
+export function runNetworkSim(options: NetworkSimOptions, ticks: number): NetworkSim {
+  const sim = createNetworkSim(options)
+  for (let i = 0; i < ticks; i++) stepNetworkSim(sim)
+  settleNetworkSim(sim)
+  assertConverged(sim)
+  return sim
+}
+
+// ===== 内部処理 =====
+
+/** ドキュメントのバージョンを、ピア間で比較できる順序の RawVersion で返す */
+function rawHeads(doc: Document<string>): RawVersion[] {
+  return lvToRawList(doc.oplog.cg, doc.branch.version).sort(([a1, s1], [a2, s2]) =>
+    a1 < a2 ? -1 : a1 > a2 ? 1 : s1 - s2,
+  )
+}
+
+/** ピアを2つのグループにランダムに分ける（どちらのグループも空にならない） */
+function randomPartition(sim: NetworkSimInternal): number[] {
+  const n = sim.peers.length
+  const groups = Array.from({ length: n }, (): number => (sim.rng() < 0.5 ? 0 : 1))
+  // 全員が同じグループになった場合は1人を移す
+  if (groups.every((g) => g === groups[0])) groups[Math.floor(sim.rng() * n)] = 1 - groups[0]!
+  return groups
+}
+
+/** ピア from の操作のうち、相手が持っていないと把握しているものを他のすべてのピアに送る */
+function broadcast(sim: NetworkSimInternal, from: number): void {
+  const oplog = sim.peers[from]!.oplog
+  const index = sim.sentCount[from]!++
+  for (let to = 0; to < sim.peers.length; to++) {
+    if (to === from) continue
+    const payload = createSyncPatchSince(oplog, sim.peerVersion[from]![to]!)
+    if (payload.cg.length === 0) continue
+    // 送ったパッチは（遅れても）いずれ届くので、送った時点で相手のバージョンを進める
+    sim.peerVersion[from]![to] = oplog.cg.heads.slice()
+    let ops = 0
+    for (const e of payload.cg) ops += e.len
+
+    const copies = sim.rng() < sim.duplicateRate ? 2 : 1
+    if (copies === 2) sim.stats.duplicated++
+    for (let c = 0; c < copies; c++) {
+      sim.queue.push({ from, to, index, deliverAt: sim.tick + 1 + Math.floor(sim.rng() * sim.maxDelay), payload })
+      sim.stats.sent++
+      sim.stats.sentOps += ops
+    }
+  }
+}
+
+/** 配送時刻になったメッセージをランダムな順序で配送する（分断されている相手へのものは次のティックに回す） */
+function deliverDue(sim: NetworkSimInternal): void {
+  const due: SimMessage[] = []
+  const rest: SimMessage[] = []
+  for (const msg of sim.queue) {
+    if (msg.deliverAt > sim.tick) {
+      rest.push(msg)
+    } else if (sim.partition != null && sim.partition[msg.from] !== sim.partition[msg.to]) {
+      msg.deliverAt = sim.tick + 1
+      rest.push(msg)
+      sim.stats.held++
+    } else {
+      due.push(msg)
+    }
+  }
+  sim.queue = rest
+
+  // 同じティックに届くメッセージの順序も入れ替える
+  for (let i = due.length - 1; i > 0; i--) {
+    const j = Math.floor(sim.rng() * (i + 1))
+    const tmp = due[i]!
+    due[i] = due[j]!
+    due[j] = tmp
+  }
+
+  for (const msg of due) {
+    const last = sim.lastIndex[msg.from]![msg.to]!
+    if (msg.index < last) sim.stats.reordered++
+    sim.lastIndex[msg.from]![msg.to] = Math.max(last, msg.index)
+    sim.pending[msg.to]!.push({ from: msg.from, patch: msg.payload })
+    sim.stats.delivered++
+    applyPending(sim, msg.to)
+  }
+}
+
+/** ピア to で保留しているパッチのうち、親が揃ったものを揃わなくなるまで適用する */
+function applyPending(sim: NetworkSimInternal, to: number): void {
+  const doc = sim.peers[to]!
+  const pending = sim.pending[to]!
+  let i = 0
+  while (i < pending.length) {
+    const { from, patch } = pending[i]!
+    if (!hasSyncPatchParents(doc.oplog, patch)) {
+      i++
+      continue
+    }
+    pending.splice(i, 1)
+    mergeRemotePatch(doc, patch)
+
+    // パッチの操作は送信元も持っている
+    const cg = doc.oplog.cg
+    const lasts = patch.cg.map(({ agent, seq, len }) => rawToLV(cg, agent, seq + len - 1))
+    sim.peerVersion[to]![from] = findDominators(cg, [...new Set([...sim.peerVersion[to]![from]!, ...lasts])])
+    // 適用したパッチを親とする保留中のパッチがあるかもしれないので先頭から見直す
+    i = 0
+  }
+}
@@ -1,7 +1,13 @@
 /** snapshot 操作の抽象化（T[] と Rope を統一的に扱う） */
 export interface SnapshotOps<T> {
   insert(pos: number, content: T): void
+  /** 位置 pos に items を順に挿入する */
+  insertRange(pos: number, items: T[]): void
   delete(pos: number): void
+  /** 位置 pos から len 個の要素を削除する */
+  deleteRange(pos: number, len: number): void
+  /** 位置 pos の要素（移動操作で要素を付け替えるときに使う） */
+  get(pos: number): T
 }
 
 /** T[] を SnapshotOps<T> としてラップする */
@@ -10,8 +16,92 @@ export function wrapArray<T>(arr: T[]): SnapshotOps<T> {
     insert(pos: number, content: T): void {
       arr.splice(pos, 0, content)
     },
+    insertRange(pos: number, items: T[]): void {
+      // 長い範囲でも引数の展開でスタックが溢れないよう、後ろを退避して push する
+      const tail = arr.splice(pos)
+      for (const item of items) arr.push(item)
+      for (const item of tail) arr.push(item)
+    },
     delete(pos: number): void {
       arr.splice(pos, 1)
     },
+    deleteRange(pos: number, len: number): void {
+      arr.splice(pos, len)
+    },
+    get(pos: number): T {
+      return arr[pos]!
+    },
+  }
+}
+
+/** 連続する編集をまとめて適用する SnapshotOps */
+export interface BatchedSnapshot<T> extends SnapshotOps<T> {
+  /** まとめている編集を inner に適用する */
+  flush(): void
+}
+
+/**
+ * 1要素ずつの編集を範囲の編集にまとめて inner に適用する SnapshotOps を作成する。
+ * 直前の挿入の直後への挿入と、同じ位置（または1つ前）の削除の繰り返しをまとめる。
+ * それ以外の編集や get の前にはまとめている編集を適用する。最後に flush を呼ぶこと。
+ */
+export function batchSnapshot<T>(inner: SnapshotOps<T>): BatchedSnapshot<T> {
+  // まとめている挿入（pos から items）
+  let insPos = 0
+  let items: T[] = []
+  // まとめている削除（delPos から delLen 個）
+  let delPos = 0
+  let delLen = 0
+
+  const flush = (): void => {
+    if (items.length > 0) {
+      if (items.length === 1) inner.insert(insPos, items[0]!)
+      else inner.insertRange(insPos, items)
+      items = []
+    } else if (delLen > 0) {
+      if (delLen === 1) inner.delete(delPos)
+      else inner.deleteRange(delPos, delLen)
+      delLen = 0
+    }
+  }
+
+  const insertRange = (pos: number, content: T[]): void => {
+    if (content.length === 0) return
+    if (items.length === 0 || pos !== insPos + items.length) {
+      flush()
+      insPos = pos
+    }
+    for (const item of content) items.push(item)
+  }
+
+  const deleteRange = (pos: number, len: number): void => {
+    if (len <= 0) return
+    if (delLen > 0 && pos === delPos) {
+      delLen += len
+    } else if (delLen > 0 && pos + len === delPos) {
+      // 後ろから前へ削除していく場合
+      delPos = pos
+      delLen += len
+    } else {
+      flush()
+      delPos = pos
+      delLen = len
+    }
+  }
+
+  return {
+    insert(pos: number, content: T): void {
+      insertRange(pos, [content])
+    },
+    insertRange,
+    delete(pos: number): void {
+      deleteRange(pos, 1)
+    },
+    deleteRange,
+    get(pos: number): T {
+      flush()
+      return inner.get(pos)
+    },
+    flush,
   }
 }
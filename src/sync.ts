@@ -0,0 +1,246 @@
+/**
+ * 同期プロトコル
+ *
+ * 別プロセス・別マシンのピア間で、不足している操作だけをやり取りするためのメッセージ。
+ * メッセージはすべてJSONとしてそのまま送受信できる（LVを含まない）。
+ *
+ *   1. Hello : 自分が持っているバージョンのサマリを送る
+ *   2. Patch : 受け取ったサマリに含まれない操作を送り返す
+ *   3. Ack   : パッチ適用後の最新バージョンを通知する
+ */
+
+import { nextLV, addRaw, summarizeVersion, lvToRawList, rawToLV, tryRawToLV } from './causal-graph.js'
+import {
+  diff,
+  intersectWithSummary,
+  serializeDiff,
+  type PartialSerializedCG,
+} from './causal-graph-advanced.js'
+import {
+  pushOpRun,
+  pushTarget,
+  opRunLength,
+  opsStart,
+  checkParentsAfterBase,
+  checkTarget,
+  spansIn,
+  txnOffsetsIn,
+  pushTxn,
+  DEFAULT_SEQUENCE,
+} from './oplog.js'
+import type { LV, LVRange, RawVersion, ListOpLog, ListOpSpan, VersionSummary } from './types.js'
+
+// ===== メッセージ =====
+
+/** パッチに含まれる操作のラン（LVはパッチ内の順序で決まる。target は名前付きシーケンスの場合のみ） */
+export type SyncOpRun<T = string> = ListOpSpan<T>
+
+/** 保持しているバージョンのサマリ */
+export interface SyncHello {
+  type: 'hello'
+  summary: VersionSummary
+}
+
+/**
+ * 不足している操作
+ * ops は cg のエントリを先頭から順に並べたものと同じ順序・同じ長さになる。
+ * txns はトランザクションでまとめた操作の、パッチ内での位置の範囲（トランザクションがある場合のみ）。
+ */
+export interface SyncPatch<T = string> {
+  type: 'patch'
+  cg: PartialSerializedCG
+  ops: SyncOpRun<T>[]
+  txns?: LVRange[]
+}
+
+/** パッチ適用後の最新バージョン */
+export interface SyncAck {
+  type: 'ack'
+  heads: RawVersion[]
+}
+
+/** 同期メッセージ */
+export type SyncMessage<T = string> = SyncHello | SyncPatch<T> | SyncAck
+
+// ===== メッセージの作成 =====
+
+/** Helloメッセージを作成する */
+export function createSyncHello<T>(oplog: ListOpLog<T>): SyncHello {
+  return { type: 'hello', summary: summarizeVersion(oplog.cg) }
+}
+
+/** Ackメッセージを作成する */
+export function createSyncAck<T>(oplog: ListOpLog<T>): SyncAck {
+  return { type: 'ack', heads: lvToRawList(oplog.cg, oplog.cg.heads) }
+}
+
+/**
+ * 相手のバージョンサマリに含まれない操作をパッチとして作成する。
+ * 相手がすべての操作を持っている場合は空のパッチになる。
+ * 相手に不足している操作が圧縮済みの場合はエラー。
+ */
+export function createSyncPatch<T>(
+  oplog: ListOpLog<T>,
+  remoteSummary: VersionSummary,
+): SyncPatch<T> {
+  const [commonVersion] = intersectWithSummary(oplog.cg, remoteSummary)
+  return createSyncPatchSince(oplog, commonVersion)
+}
+
+/**
+ * version に含まれない操作をパッチとして作成する。
+ * 相手が持っているバージョンを（前回の送信などから）把握している場合は、サマリの交換なしに差分だけを送れる。
+ * 相手に不足している操作が圧縮済みの場合はエラー。
+ */
+export function createSyncPatchSince<T>(
+  oplog: ListOpLog<T>,
+  version: LV[],
+): SyncPatch<T> {
+  const ranges = diff(oplog.cg, version, oplog.cg.heads).bOnly
+  if (ranges.length > 0 && ranges[0]![0] < opsStart(oplog)) {
+    throw Error('相手に不足している操作は圧縮済みです')
+  }
+
+  const ops: SyncOpRun<T>[] = spansIn(oplog, ranges)
+  // トランザクションの範囲はパッチ内での位置に変換する
+  const txns = txnOffsetsIn(oplog, ranges)
+
+  const patch: SyncPatch<T> = { type: 'patch', cg: serializeDiff(oplog.cg, ranges), ops }
+  if (txns.length > 0) patch.txns = txns
+  return patch
+}
+
+// ===== パッチの適用 =====
+
+/**
+ * パッチをOpLogに適用し、新たに追加された操作のLV範囲を返す。
+ *
+ * 既に持っている操作は読み飛ばすため、同じパッチを複数回適用しても結果は変わらない。
+ * 親が未知の操作を含む場合は何も適用せずにエラーにするため、トランザクションは常に一括で届く。
+ */
+export function applySyncPatch<T>(
+  oplog: ListOpLog<T>,
+  patch: SyncPatch<T>,
+): LVRange {
+  let cgLength = 0
+  for (const e of patch.cg) cgLength += e.len
+  let opsLength = 0
+  for (const run of patch.ops) {
+    opsLength += opRunLength(run)
+    checkTarget(oplog, run.target ?? DEFAULT_SEQUENCE)
+  }
+  if (cgLength !== opsLength) {
+    throw Error('無効なパッチ: 操作数とCGが一致しません')
+  }
+  for (const [s, e] of patch.txns ?? []) {
+    if (s < 0 || s >= e || e > opsLength) throw Error('無効なパッチ: トランザクションの範囲が不正です')
+  }
+  checkPatchParents(oplog, patch.cg)
+
+  const start = nextLV(oplog.cg)
+
+  // patch.ops の読み取り位置
+  let runIdx = 0
+  let runOffset = 0
+
+  /** 操作を n 個読み進める。version を渡した場合はその LV から OpLog に追加する */
+  const consume = (n: number, version: LV | null): void => {
+    while (n > 0) {
+      const run = patch.ops[runIdx]!
+      const len = Math.min(n, opRunLength(run) - runOffset)
+
+      if (version !== null) {
+        pushTarget(oplog, version, run.target ?? DEFAULT_SEQUENCE)
+        switch (run.type) {
+          case 'ins':
+            pushOpRun(oplog.ops, { type: 'ins', version, pos: run.pos + runOffset, content: run.content.slice(runOffset, runOffset + len) })
+            break
+          case 'del':
+            pushOpRun(oplog.ops, { type: 'del', version, pos: run.pos, len })
+            break
+          case 'mark':
+            pushOpRun(oplog.ops, { type: 'mark', version, mark: { ...run.mark } })
+            break
+          case 'move':
+            pushOpRun(oplog.ops, { type: 'move', version, from: run.from, to: run.to })
+            break
+          case 'map':
+            pushOpRun(oplog.ops, { type: 'map', version, map: { ...run.map } })
+            break
+        }
+        version += len
+      }
+
+      n -= len
+      runOffset += len
+      if (runOffset === opRunLength(run)) {
+        runIdx++
+        runOffset = 0
+      }
+    }
+  }
+
+  for (const { agent, seq, len, parents } of patch.cg) {
+    const entry = addRaw(oplog.cg, [agent, seq], len, parents)
+    if (entry == null) {
+      // すべて既知
+      consume(len, null)
+    } else {
+      // 先頭の一部が既知の場合はトリムされている
+      const known = entry.seq - seq
+      consume(known, null)
+      consume(len - known, entry.version)
+    }
+  }
+
+  // トランザクションを記録する（既に持っていたものは記録済み）
+  for (const [s, e] of patch.txns ?? []) {
+    const lv = patchOffsetToLV(oplog, patch.cg, s)
+    if (lv >= start) pushTxn(oplog, lv, lv + e - s)
+  }
+
+  return [start, nextLV(oplog.cg)]
+}
+
+/**
+ * パッチの親がすべて揃っているか（既知の操作かパッチ内の操作か）。
+ * 順序が保証されない経路では、揃っていないパッチを保留して先に送られたパッチを待てる。
+ */
+export function hasSyncPatchParents<T>(oplog: ListOpLog<T>, patch: SyncPatch<T>): boolean {
+  return findUnknownParent(oplog, patch.cg) == null
+}
+
+/** パッチのエントリの親のうち、既知の操作でもパッチ内のそれより前の操作でもないもの（なければ null） */
+function findUnknownParent<T>(oplog: ListOpLog<T>, cg: PartialSerializedCG): RawVersion | null {
+  // エージェント → パッチ内のそれまでのエントリのシーケンス番号の範囲
+  const inPatch = new Map<string, LVRange[]>()
+  for (const { agent, seq, len, parents } of cg) {
+    for (const [pa, ps] of parents) {
+      const known =
+        tryRawToLV(oplog.cg, pa, ps) != null ||
+        (inPatch.get(pa) ?? []).some(([s, e]) => ps >= s && ps < e)
+      if (!known) return [pa, ps]
+    }
+
+    let seqs = inPatch.get(agent)
+    if (seqs == null) inPatch.set(agent, (seqs = []))
+    seqs.push([seq, seq + len])
+  }
+  return null
+}
+
+/** パッチのすべてのエントリの親が、既知の操作かパッチ内のそれより前の操作であることを確認する */
+function checkPatchParents<T>(oplog: ListOpLog<T>, cg: PartialSerializedCG): void {
+  const unknown = findUnknownParent(oplog, cg)
+  if (unknown != null) throw Error('無効なパッチ: 親が未知の操作です: ' + unknown[0] + ' ' + unknown[1])
+  for (const { agent, seq, len, parents } of cg) checkParentsAfterBase(oplog, [agent, seq], len, parents)
+}
+
+/** パッチ内での位置の操作の、適用後のLV */
+function patchOffsetToLV<T>(oplog: ListOpLog<T>, cg: PartialSerializedCG, offset: number): LV {
+  for (const { agent, seq, len } of cg) {
+    if (offset < len) return rawToLV(oplog.cg, agent, seq + offset)
+    offset -= len
+  }
+  throw Error('無効なパッチ: トランザクションの範囲が不正です')
+}
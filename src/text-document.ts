@@ -5,12 +5,34 @@
  * Document<string> の T[] (string[]) による join('') のボトルネックを解消する。
  *
  * Document と同様に mutable パターン（内部変更・void返却）を採用。
+ *
+ * 大きな文書では { rope: true } を指定すると Rope を正本として保持する。
+ * 編集は O(log n) で適用し、text は参照されたときに生成してキャッシュする。
  */
 
-import { localInsert, localDelete, createOpLog, mergeOplogInto } from './oplog.js'
-import { checkoutSimpleString } from './branch.js'
-import { diff, findDominators } from './causal-graph-advanced.js'
-import { canFastForward } from './document.js'
+import {
+  localSeqInsert,
+  localDelete,
+  createOpLog,
+  mergeOplogInto,
+  sliceTargetOps,
+  containsBase,
+  DEFAULT_SEQUENCE,
+} from './oplog.js'
+import { checkoutSimpleString, mergeConcurrentChanges } from './branch.js'
+import { nextLV } from './causal-graph.js'
+import { Rope } from './rope.js'
+import { fastForwardRanges, findDominators } from './causal-graph-advanced.js'
+import {
+  hasObservers,
+  emitChange,
+  createDeltaRecorder,
+  recordInsert,
+  recordDelete,
+  recordingSnapshot,
+  toTextDelta,
+} from './events.js'
+import type { SnapshotOps } from './snapshot-ops.js'
 import type { LV, ListOpLog } from './types.js'
 
 /** テキスト特化ドキュメント（スナップショットを string で保持） */
@@ -20,29 +42,118 @@ export interface TextDocument {
   readonly version: LV[]
 }
 
+/** TextDocument の作成オプション */
+export interface TextDocumentOptions {
+  /** Rope を正本として保持し、text は参照時に生成する（大きな文書向け） */
+  rope?: boolean
+}
+
 /** 内部でプロパティを更新するためのキャスト */
 type MutableTextDocument = { -readonly [K in keyof TextDocument]: TextDocument[K] }
 
-/** 空のテキストドキュメントを作成 */
-export function createTextDocument(): TextDocument {
+/** 内部型: Rope を正本とする TextDocument */
+interface RopeTextDocument extends TextDocument {
+  version: LV[]
+  _rope: Rope
+  /** rope.toString() のキャッシュ（編集で破棄） */
+  _textCache: string | null
+}
+
+/** string を SnapshotOps<string> として扱うための可変ラッパー */
+interface TextSnapshot extends SnapshotOps<string> {
+  text: string
+}
+
+function wrapText(text: string): TextSnapshot {
   return {
-    oplog: createOpLog<string>(),
-    text: '',
-    version: [],
+    text,
+    insert(pos: number, content: string): void {
+      this.text = this.text.slice(0, pos) + content + this.text.slice(pos)
+    },
+    insertRange(pos: number, items: string[]): void {
+      this.text = this.text.slice(0, pos) + items.join('') + this.text.slice(pos)
+    },
+    delete(pos: number): void {
+      this.text = this.text.slice(0, pos) + this.text.slice(pos + 1)
+    },
+    deleteRange(pos: number, len: number): void {
+      this.text = this.text.slice(0, pos) + this.text.slice(pos + len)
+    },
+    get(pos: number): string {
+      return this.text[pos]!
+    },
+  }
+}
+
+/** 内部状態からドキュメントを作る */
+function makeTextDocument(
+  oplog: ListOpLog<string>,
+  text: string,
+  version: LV[],
+  options: TextDocumentOptions,
+): TextDocument {
+  if (!options.rope) return { oplog, text, version }
+  const doc: RopeTextDocument = {
+    oplog,
+    version,
+    _rope: Rope.fromString(text),
+    _textCache: text,
+    get text(): string {
+      return (this._textCache ??= this._rope.toString())
+    },
+  }
+  return doc
+}
+
+const isRopeDoc = (doc: TextDocument): doc is RopeTextDocument => '_rope' in doc
+
+/** テキストの長さ（Rope の場合は文字列を作らずに求める） */
+function textLength(doc: TextDocument): number {
+  return isRopeDoc(doc) ? doc._rope.length : doc.text.length
+}
+
+/** テキストの pos に content を挿入 */
+function insertText(doc: TextDocument, pos: number, content: string): void {
+  if (isRopeDoc(doc)) {
+    doc._rope.insertText(pos, content)
+    doc._textCache = null
+  } else {
+    ;(doc as MutableTextDocument).text = doc.text.slice(0, pos) + content + doc.text.slice(pos)
+  }
+}
+
+/** テキストの pos から len 文字を削除 */
+function deleteText(doc: TextDocument, pos: number, len: number): void {
+  if (isRopeDoc(doc)) {
+    doc._rope.deleteText(pos, len)
+    doc._textCache = null
+  } else {
+    ;(doc as MutableTextDocument).text = doc.text.slice(0, pos) + doc.text.slice(pos + len)
   }
 }
 
+/** テキスト全体を置き換える */
+function replaceText(doc: TextDocument, text: string): void {
+  if (isRopeDoc(doc)) {
+    doc._rope = Rope.fromString(text)
+    doc._textCache = text
+  } else {
+    ;(doc as MutableTextDocument).text = text
+  }
+}
+
+/** 空のテキストドキュメントを作成 */
+export function createTextDocument(options: TextDocumentOptions = {}): TextDocument {
+  return makeTextDocument(createOpLog<string>(), '', [], options)
+}
+
 /**
  * OpLogからフルリプレイでテキストドキュメントを開く。
  * キャッシュがない場合のフォールバック。
  */
-export function openTextDocument(oplog: ListOpLog<string>): TextDocument {
-  const text = oplog.ops.length === 0 ? '' : checkoutSimpleString(oplog)
-  return {
-    oplog,
-    text,
-    version: oplog.cg.heads.slice(),
-  }
+export function openTextDocument(oplog: ListOpLog<string>, options: TextDocumentOptions = {}): TextDocument {
+  const text = nextLV(oplog.cg) === 0 ? '' : checkoutSimpleString(oplog)
+  return makeTextDocument(oplog, text, oplog.cg.heads.slice(), options)
 }
 
 /**
@@ -53,12 +164,9 @@ export function restoreTextDocument(
   oplog: ListOpLog<string>,
   text: string,
   version: LV[],
+  options: TextDocumentOptions = {},
 ): TextDocument {
-  return {
-    oplog,
-    text,
-    version: version.slice(),
-  }
+  return makeTextDocument(oplog, text, version.slice(), options)
 }
 
 /**
@@ -71,10 +179,14 @@ export function textDocInsert(
   pos: number,
   content: string,
 ): void {
-  localInsert(doc.oplog, agent, pos, ...content.split(''))
-  const mut = doc as MutableTextDocument
-  mut.text = doc.text.slice(0, pos) + content + doc.text.slice(pos)
-  mut.version = doc.oplog.cg.heads.slice()
+  // 大きな貼り付けでも引数の展開で溢れないよう配列のまま渡す
+  localSeqInsert(doc.oplog, DEFAULT_SEQUENCE, agent, pos, content.split(''))
+  insertText(doc, pos, content)
+  ;(doc as MutableTextDocument).version = doc.oplog.cg.heads.slice()
+
+  if (hasObservers(doc) && content.length > 0) {
+    emitChange(doc, 'local', pos > 0 ? [{ retain: pos }, { insert: content }] : [{ insert: content }])
+  }
 }
 
 /**
@@ -87,13 +199,19 @@ export function textDocDelete(
   pos: number,
   len: number = 1,
 ): void {
+  if (pos < 0 || pos + len > textLength(doc)) {
+    throw Error('範囲外の削除: ' + pos + ' + ' + len)
+  }
   localDelete(doc.oplog, agent, pos, len)
-  const mut = doc as MutableTextDocument
-  mut.text = doc.text.slice(0, pos) + doc.text.slice(pos + len)
-  mut.version = doc.oplog.cg.heads.slice()
+  deleteText(doc, pos, len)
+  ;(doc as MutableTextDocument).version = doc.oplog.cg.heads.slice()
+
+  if (hasObservers(doc)) {
+    emitChange(doc, 'local', pos > 0 ? [{ retain: pos }, { delete: len }] : [{ delete: len }])
+  }
 }
 
-/** テキスト取得（即座に返す） */
+/** テキスト取得（Rope モードでは編集後の初回のみ文字列を生成する） */
 export function getTextDocText(doc: TextDocument): string {
   return doc.text
 }
@@ -101,8 +219,8 @@ export function getTextDocText(doc: TextDocument): string {
 /**
  * リモートのOpLogをマージ。
  *
- * fast-forward可能ならdiffの操作をstring slicingで適用。
- * 並行編集がある場合はフルリプレイで正確な収束を保証。
+ * fast-forward可能ならdiffの操作をそのまま（string slicing か Rope の範囲操作で）適用。
+ * 並行編集がある場合は共通祖先以降の操作のみを再生して競合を解決する。
  */
 export function mergeTextRemote(
   doc: TextDocument,
@@ -111,26 +229,59 @@ export function mergeTextRemote(
   mergeOplogInto(doc.oplog, remoteOplog)
   const heads = doc.oplog.cg.heads
   const mut = doc as MutableTextDocument
+  const rec = hasObservers(doc) ? createDeltaRecorder<string>() : null
+
+  // 空のドキュメントに圧縮済みのOpLogをマージした場合はベースの内容から始める
+  const base = doc.oplog.base
+  if (base != null && !containsBase(doc.oplog, doc.version)) {
+    if (doc.version.length > 0) {
+      throw Error('圧縮済みの履歴より前のドキュメントにはマージできません')
+    }
+    replaceText(doc, base.content.join(''))
+    mut.version = base.version.slice()
+    if (rec) recordInsert(rec, 0, base.content.slice())
+  }
 
-  if (canFastForward(doc.oplog.cg, doc.version, heads)) {
-    // fast-forward: diffの操作をstring slicingで適用
-    const ranges = diff(doc.oplog.cg, doc.version, heads).bOnly
-    let text = doc.text
+  const ranges = fastForwardRanges(doc.oplog.cg, doc.version, heads)
+  if (ranges !== null) {
+    // fast-forward: diffの操作をそのまま適用
     for (const [start, end] of ranges) {
-      for (let lv = start; lv < end; lv++) {
-        const op = doc.oplog.ops[lv]!
-        if (op.type === 'ins') {
-          text = text.slice(0, op.pos) + op.content + text.slice(op.pos)
-        } else {
-          text = text.slice(0, op.pos) + text.slice(op.pos + 1)
+      for (const run of sliceTargetOps(doc.oplog, start, end)) {
+        if (run.type === 'ins') {
+          insertText(doc, run.pos, run.content.join(''))
+          if (rec) recordInsert(rec, run.pos, run.content)
+        } else if (run.type === 'del') {
+          deleteText(doc, run.pos, run.len)
+          if (rec) recordDelete(rec, run.pos, run.len)
+        } else if (run.type === 'move') {
+          const content = isRopeDoc(doc) ? doc._rope.get(run.from) : doc.text[run.from]!
+          deleteText(doc, run.from, 1)
+          insertText(doc, run.to, content)
+          if (rec) {
+            recordDelete(rec, run.from, 1)
+            recordInsert(rec, run.to, [content])
+          }
         }
       }
     }
-    mut.text = text
-    mut.version = findDominators(doc.oplog.cg, [...doc.version, ...heads])
+  } else if (isRopeDoc(doc)) {
+    // 並行編集あり: 競合区間のみを Rope に直接再生
+    const length = doc._rope.length
+    doc._textCache = null
+    mergeConcurrentChanges(rec ? recordingSnapshot(doc._rope, rec) : doc._rope, length, doc.version, doc.oplog, heads)
   } else {
-    // 並行編集あり: フルリプレイで正確な収束を保証
-    mut.text = checkoutSimpleString(doc.oplog)
-    mut.version = doc.oplog.cg.heads.slice()
+    // 並行編集あり: 競合区間のみを再生
+    const snapshot = wrapText(doc.text)
+    mergeConcurrentChanges(
+      rec ? recordingSnapshot(snapshot, rec) : snapshot,
+      doc.text.length,
+      doc.version,
+      doc.oplog,
+      heads,
+    )
+    mut.text = snapshot.text
   }
+  mut.version = findDominators(doc.oplog.cg, [...doc.version, ...heads])
+
+  if (rec) emitChange(doc, 'remote', toTextDelta(rec.delta))
 }
@@ -46,19 +46,113 @@ export interface CausalGraph {
 // ===== 操作ログ (OpLog) =====
 
 /** 操作の種別 */
-export type ListOpType = 'ins' | 'del'
+export type ListOpType = 'ins' | 'del' | 'mark' | 'move' | 'map'
 
-/** リスト操作 */
+/** 書式の値（リンクのURLなど） */
+export type MarkValue = string | number | boolean
+
+/**
+ * 書式範囲の端の広がり方（範囲の端に後から挿入された要素にも書式を適用するか）
+ * - none: どちらの端にも広げない（リンクなど）
+ * - before: 先頭の直前への挿入に広げる
+ * - after: 末尾の直後への挿入に広げる（太字など）
+ * - both: 両端に広げる
+ */
+export type MarkExpand = 'none' | 'before' | 'after' | 'both'
+
+/**
+ * 書式操作: 親バージョンでの [start, end) の要素に markType の書式を設定する。
+ * 位置は挿入・削除と同様に歩行時にアイテムへのアンカーに変換される。
+ */
+export interface MarkOp {
+  start: number
+  end: number
+  markType: string
+  /** 書式の値。null は書式の削除 */
+  value: MarkValue | null
+  expand: MarkExpand
+}
+
+/** マップ（メタデータ）の値 */
+export type MapValue = string | number | boolean | null
+
+/** マップへの操作: key への値の設定、または key の削除 */
+export type MapOp =
+  | { type: 'set'; key: string; value: MapValue }
+  | { type: 'delete'; key: string }
+
+/**
+ * リスト操作（1要素分）
+ * 移動: 親バージョンで from にある要素を取り除き、取り除いた後の列の to に入れる（splice と同じ）。
+ * マップ: 列の要素には影響しない、文書のメタデータへの書き込み。
+ */
 export type ListOp<T = string> =
   | { type: 'ins'; pos: number; content: T }
   | { type: 'del'; pos: number }
+  | { type: 'mark'; mark: MarkOp }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'map'; map: MapOp }
+
+/**
+ * RLE圧縮された操作のラン
+ *
+ * 挿入: version から content.length 個の操作。i番目の要素は pos + i に挿入される。
+ * 削除: version から len 個の操作。すべて同じ pos の要素を削除する（Delete キー）。
+ * 書式・移動・マップ: version の1個の操作。
+ */
+export type ListOpRun<T = string> =
+  | { type: 'ins'; version: LV; pos: number; content: T[] }
+  | { type: 'del'; version: LV; pos: number; len: number }
+  | { type: 'mark'; version: LV; mark: MarkOp }
+  | { type: 'move'; version: LV; from: number; to: number }
+  | { type: 'map'; version: LV; map: MapOp }
+
+/**
+ * LVを持たない操作のラン（外部とのやり取り用）
+ * target は対象のシーケンス名（省略時は既定のシーケンス）。
+ */
+export type ListOpSpan<T = string> = (
+  | { type: 'ins'; pos: number; content: T[] }
+  | { type: 'del'; pos: number; len: number }
+  | { type: 'mark'; mark: MarkOp }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'map'; map: MapOp }
+) & { target?: string }
+
+/**
+ * 操作の対象シーケンスのラン: version から次のランの直前までの操作は name のシーケンスを対象とする。
+ * 最初のランより前の操作は既定のシーケンスを対象とする。
+ */
+export interface TargetRun {
+  version: LV
+  name: string
+}
+
+/**
+ * 圧縮済みの履歴を置き換える基準時点の文書
+ *
+ * version の履歴に含まれる操作（LV 0 から max(version) まで）は破棄され、
+ * その時点の文書の内容だけが残る。以降の操作はすべて version の子孫になる。
+ */
+export interface OpLogBase<T = string> {
+  /** 基準バージョン */
+  version: LV[]
+  /** 基準バージョン時点の文書の内容 */
+  content: T[]
+}
 
 /** 操作ログ */
 export interface ListOpLog<T = string> {
-  /** 操作のリスト */
-  ops: ListOp<T>[]
+  /** 操作のラン（バージョン順、連続したLVをすべてカバーする。圧縮済みの場合はベース以降のみ） */
+  ops: ListOpRun<T>[]
   /** 因果グラフ */
   cg: CausalGraph
+  /** 圧縮済みの場合のベース（未圧縮なら undefined） */
+  base?: OpLogBase<T>
+  /** 名前付きシーケンスの操作を含む場合の対象シーケンスのラン（バージョン順） */
+  targets?: TargetRun[]
+  /** トランザクションでまとめて記録した操作のLV範囲（バージョン順、2操作以上のもののみ） */
+  txns?: LVRange[]
 }
 
 // ===== 編集コンテキスト (Edit Context) =====
@@ -95,18 +189,62 @@ export interface Item {
   rightParent: LV
 }
 
+/**
+ * 書式範囲の端のアンカー: アイテム（LVまたはプレースホルダーID）の直前または直後。
+ * null は文書の端（先頭側なら文書の先頭、末尾側なら文書の末尾）を表す。
+ */
+export type MarkAnchor = { id: number; side: 'before' | 'after' } | null
+
+/** 書式範囲の [先頭, 末尾] のアンカー */
+export type MarkAnchors = [start: MarkAnchor, end: MarkAnchor]
+
+/**
+ * 移動された要素の状態
+ *
+ * 移動操作は移動先に新しいアイテム（スロット）を作り、要素は勝者のスロットにだけ表示される。
+ * 要素のスロットのアイテムの curState / endState は表示用の状態になり、
+ * 要素自体の挿入・削除の状態はここで管理する。
+ */
+export interface MovedElement {
+  /** 要素を挿入したアイテム（最初のスロット） */
+  item: Item
+  /** 要素の現在の状態（挿入・削除の advance / retreat で変化する） */
+  curState: ItemState
+  /** 要素が最終状態で削除されているか */
+  endDeleted: boolean
+  /** 移動操作で作られたスロットと、現在のバージョンでその移動が既知か */
+  slots: { item: Item; known: boolean }[]
+  /** 現在のバージョンで要素が置かれているスロット */
+  curSlot: Item
+  /** 最終状態で要素が置かれているスロット */
+  endSlot: Item
+}
+
 /** 編集コンテキスト */
 export interface EditContext {
   /** 文書内のアイテムリスト（順序統計木） */
   items: import('./order-statistic-tree.js').OrderStatisticTree
   /** 削除操作の対象バージョン */
   delTargets: LV[]
+  /** 書式操作 → 範囲の両端のアンカー（歩行時に解決する） */
+  markAnchors: Map<LV, MarkAnchors>
+  /** 移動操作 → 移動した要素のID（LVまたはプレースホルダーID） */
+  moveElems: Map<LV, number>
+  /** 要素のID → 移動された要素の状態 */
+  moved: Map<number, MovedElement>
   /** LV → Itemの参照（高速検索用） */
   itemsByLV: (Item | null)[]
   /** 現在処理中のバージョン */
   curVersion: LV[]
   /** カーソル位置のキャッシュ（findByCurPos高速化用） */
   _cursorHint: { pos: number; idx: number; endPos: number } | null
+  /**
+   * クリティカルバージョンでアイテムを破棄するか。
+   * 有効にすると、歩行後のアイテムから過去の操作を特定できなくなる。
+   */
+  clearAtCriticalVersions: boolean
+  /** 歩行するシーケンス名。他のシーケンスを対象とする操作は何もしない操作として扱う */
+  target: string
 }
 
 // ===== ブランチ (Branch) =====
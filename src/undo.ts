@@ -0,0 +1,311 @@
+/**
+ * エージェントごとの Undo / Redo
+ *
+ * 指定したエージェントのローカル編集だけをグループ単位で記録し、
+ * 取り消し時には現在のバージョンに合わせた逆操作を生成する。
+ * リモートの変更が後から届いていても、元の操作が挿入・削除したアイテムを
+ * 因果グラフ経由で特定するため、他のユーザーの編集は巻き戻さない。
+ *
+ * - 挿入の取り消し: 挿入したアイテムのうち現在も残っているものを削除する
+ * - 削除の取り消し: 削除したアイテムの内容を、そのアイテムがあった位置に挿入し直す
+ * - transact でまとめた編集は、前後の編集とは別の1つのグループになる
+ *
+ * 削除を取り消すと元のアイテムの代わりに新しいアイテムが挿入されるため、
+ * 元のアイテムを参照するほかのグループは、置き換えたアイテムを辿って現在のアイテムを参照する。
+ * 再挿入の位置も、置き換えたアイテムは元のアイテムの位置にあるものとして数える。
+ *
+ * 逆操作は通常のローカル編集として OpLog に記録されるため、他のピアにもそのまま同期できる。
+ * OpLog を圧縮した後は、破棄された操作の分は取り消せない（ベースの要素の削除は取り消せる）。
+ * 書式操作と移動操作は取り消しの対象外（移動された要素の挿入・削除は移動先で取り消す）。
+ */
+
+import { nextLV, eachVersionBetween } from './causal-graph.js'
+import { createContextAt, currentSlot, elementOf, PLACEHOLDER_OFFSET } from './edit-context.js'
+import { getOp, opsStart } from './oplog.js'
+import { docInsert, docDelete, type Document } from './document.js'
+import { observe } from './events.js'
+import { pushRLERange } from './utils/rle.js'
+import { ItemState, type LV, type LVRange, type Item, type ListOpLog, type EditContext } from './types.js'
+
+/** UndoManager の設定 */
+export interface UndoManagerOptions {
+  /** この時間（ミリ秒）以内に続いた編集は1つのグループにまとめる。既定値は500 */
+  captureTimeout?: number
+  /** 現在時刻を返す関数（テスト用）。既定値は Date.now */
+  now?: () => number
+}
+
+/** エージェントごとの Undo / Redo の状態 */
+export interface UndoManager<T = string> {
+  readonly doc: Document<T>
+  readonly agent: string
+}
+
+/** 内部状態 */
+interface UndoManagerInternal<T> extends UndoManager<T> {
+  captureTimeout: number
+  now: () => number
+  /** 取り消し可能な編集グループ（各グループは操作のLV範囲） */
+  undoStack: LVRange[][]
+  redoStack: LVRange[][]
+  /** 最後に記録した編集の時刻（null なら次の編集は新しいグループになる） */
+  lastCapture: number | null
+  /** 記録済みの OpLog の長さ */
+  seenLV: LV
+  /** 削除の取り消しで置き換えたアイテム（元のID → 再挿入したアイテムのLV） */
+  replaced: Map<number, LV>
+  /** 再挿入したアイテムのLV → 最初の元のアイテムのID */
+  roots: Map<LV, number>
+  /** 逆操作の適用中か（適用中の編集は通常の記録から除外する） */
+  applying: boolean
+  unobserve: () => void
+}
+
+/**
+ * doc に対する agent の編集を記録する UndoManager を作成する。
+ * 作成後の docInsert / docDelete（agent によるもの）が記録対象になる。
+ */
+export function createUndoManager<T>(
+  doc: Document<T>,
+  agent: string,
+  options: UndoManagerOptions = {},
+): UndoManager<T> {
+  const um: UndoManagerInternal<T> = {
+    doc,
+    agent,
+    captureTimeout: options.captureTimeout ?? 500,
+    now: options.now ?? Date.now,
+    undoStack: [],
+    redoStack: [],
+    lastCapture: null,
+    seenLV: nextLV(doc.oplog.cg),
+    replaced: new Map(),
+    roots: new Map(),
+    applying: false,
+    unobserve: () => {},
+  }
+  um.unobserve = observe(doc, (event) => {
+    if (um.applying) return
+    const ranges = collectAgentOps(um)
+    if (event.origin !== 'local' || ranges.length === 0) return
+
+    const now = um.now()
+    const group = um.undoStack[um.undoStack.length - 1]
+    if (
+      group != null && !event.transaction &&
+      um.lastCapture !== null && now - um.lastCapture < um.captureTimeout
+    ) {
+      for (const [start, end] of ranges) pushRLERange(group, start, end)
+    } else {
+      um.undoStack.push(ranges)
+    }
+    // トランザクションの後の編集は別のグループにする
+    um.lastCapture = event.transaction ? null : now
+    // 新しい編集があるとやり直しはできない
+    um.redoStack.length = 0
+  })
+  return um
+}
+
+/** 記録済みの位置以降に追加された、このエージェントの操作のLV範囲を集める */
+function collectAgentOps<T>(um: UndoManagerInternal<T>): LVRange[] {
+  const cg = um.doc.oplog.cg
+  const ranges: LVRange[] = []
+  eachVersionBetween(cg, um.seenLV, nextLV(cg), (entry, vs, ve) => {
+    if (entry.agent === um.agent) pushRLERange(ranges, vs, ve)
+  })
+  um.seenLV = nextLV(cg)
+  return ranges
+}
+
+/** 記録を停止する（以降の編集は別のグループになる） */
+export function stopCapturing<T>(um: UndoManager<T>): void {
+  (um as UndoManagerInternal<T>).lastCapture = null
+}
+
+/** ドキュメントの購読を解除し、以降の編集を記録しない */
+export function destroyUndoManager<T>(um: UndoManager<T>): void {
+  (um as UndoManagerInternal<T>).unobserve()
+}
+
+/** 取り消せる編集があるか */
+export function canUndo<T>(um: UndoManager<T>): boolean {
+  return (um as UndoManagerInternal<T>).undoStack.length > 0
+}
+
+/** やり直せる編集があるか */
+export function canRedo<T>(um: UndoManager<T>): boolean {
+  return (um as UndoManagerInternal<T>).redoStack.length > 0
+}
+
+/** 直前の編集グループを取り消す。取り消すものがなければ false */
+export function undo<T>(um: UndoManager<T>): boolean {
+  const internal = um as UndoManagerInternal<T>
+  const group = internal.undoStack.pop()
+  if (group == null) return false
+  internal.redoStack.push(applyInverse(internal, group))
+  return true
+}
+
+/** 直前に取り消した編集グループをやり直す。やり直すものがなければ false */
+export function redo<T>(um: UndoManager<T>): boolean {
+  const internal = um as UndoManagerInternal<T>
+  const group = internal.redoStack.pop()
+  if (group == null) return false
+  internal.undoStack.push(applyInverse(internal, group))
+  return true
+}
+
+// ===== 逆操作の生成 =====
+
+/** 逆操作の1要素: アイテムの削除、または削除されたアイテムの内容の再挿入 */
+interface InverseEdit<T> {
+  item: Item
+  /** 要素のID（置き換えを辿った後のもの） */
+  id: number
+  type: 'del' | 'ins'
+  content: T | null
+}
+
+/** 削除対象のアイテム（LVまたはベースのプレースホルダーID）の内容 */
+function deletedContent<T>(oplog: ListOpLog<T>, target: number): T {
+  if (target >= PLACEHOLDER_OFFSET) return oplog.base!.content[target - PLACEHOLDER_OFFSET]!
+  const op = getOp(oplog, target)
+  if (op.type !== 'ins') throw Error('削除対象が挿入操作ではありません: ' + target)
+  return op.content
+}
+
+/** 置き換えを辿って、id の要素を現在表しているアイテムのIDを返す */
+function resolveId<T>(um: UndoManagerInternal<T>, id: number): number {
+  let next = um.replaced.get(id)
+  while (next != null) {
+    id = next
+    next = um.replaced.get(id)
+  }
+  return id
+}
+
+/** 並び順のキー: 再挿入したアイテムは最初の元のアイテムの位置で数える */
+function orderIndex<T>(um: UndoManagerInternal<T>, ctx: EditContext, item: Item): number {
+  const root = um.roots.get(elementOf(ctx, item))
+  return ctx.items.indexOfItem(root == null ? item : currentSlot(ctx, root))
+}
+
+/** 並び順のキーが key より前にある、現在見えている要素の数（削除されたアイテムを戻す位置） */
+function restorePosition<T>(um: UndoManagerInternal<T>, ctx: EditContext, item: Item, key: number): number {
+  let pos = ctx.items.curPosOfItem(ctx.items.getByIndex(key)!)
+  // 再挿入したアイテムは実際の位置ではなく元のアイテムの位置で数える
+  for (const [lv, root] of um.roots) {
+    const replacement = currentSlot(ctx, lv)
+    if (replacement == null || replacement === item || replacement.curState !== ItemState.Inserted) continue
+    const idx = ctx.items.indexOfItem(replacement)
+    const rootIdx = ctx.items.indexOfItem(currentSlot(ctx, root))
+    if (idx < key && rootIdx > key) pos--
+    else if (idx > key && rootIdx < key) pos++
+  }
+  return pos
+}
+
+/**
+ * group の操作の逆操作を現在のバージョンに対して適用し、適用した操作のLV範囲を返す。
+ */
+function applyInverse<T>(um: UndoManagerInternal<T>, group: LVRange[]): LVRange[] {
+  const { doc, agent } = um
+  const oplog = doc.oplog
+  const ctx = createContextAt(oplog, doc.branch.version)
+
+  // 圧縮済みの操作は取り消せない
+  const first = opsStart(oplog)
+  const ranges = group
+    .filter(([, end]) => end > first)
+    .map(([start, end]): LVRange => [Math.max(start, first), end])
+
+  // グループ内で挿入されたアイテム
+  const inserted = new Set<LV>()
+  for (const [start, end] of ranges) {
+    for (let lv = start; lv < end; lv++) {
+      if (getOp(oplog, lv).type === 'ins') inserted.add(lv)
+    }
+  }
+
+  const edits: InverseEdit<T>[] = []
+  const restored = new Set<number>()
+  for (const [start, end] of ranges) {
+    for (let lv = start; lv < end; lv++) {
+      const op = getOp(oplog, lv)
+      if (op.type === 'ins') {
+        const id = resolveId(um, lv)
+        const item = currentSlot(ctx, id)
+        if (item.curState === ItemState.Inserted) edits.push({ item, id, type: 'del', content: null })
+      } else if (op.type === 'del') {
+        // グループ内で挿入して削除したアイテムは何もしない
+        const target = ctx.delTargets[lv]!
+        if (inserted.has(target)) continue
+        const id = resolveId(um, target)
+        if (restored.has(id)) continue
+        const item = currentSlot(ctx, id)
+        if (item.curState === ItemState.Inserted) continue
+        restored.add(id)
+        edits.push({ item, id, type: 'ins', content: deletedContent(oplog, id) })
+      }
+    }
+  }
+
+  // 位置の後ろから適用すれば、前方の位置は最初に計算した値のまま使える。
+  // 再挿入したアイテムは並び順のキーと実際の位置が食い違うことがあるため、位置で並べる。
+  // 同じ位置では削除を先に、再挿入はキーの順に適用する
+  const positioned = edits
+    .map((edit) => {
+      const key = orderIndex(um, ctx, edit.item)
+      const pos = edit.type === 'del' ? ctx.items.curPosOfItem(edit.item) : restorePosition(um, ctx, edit.item, key)
+      return { edit, key, pos }
+    })
+    .sort((a, b) =>
+      b.pos - a.pos ||
+      (a.edit.type === b.edit.type ? 0 : a.edit.type === 'del' ? -1 : 1) ||
+      b.key - a.key)
+
+  const start = nextLV(oplog.cg)
+  um.applying = true
+  try {
+    let i = 0
+    while (i < positioned.length) {
+      const { edit, pos } = positioned[i]!
+      if (edit.type === 'del') {
+        // 連続して並ぶアイテムはまとめて削除する
+        let first = pos
+        while (i + 1 < positioned.length) {
+          const next = positioned[i + 1]!
+          if (next.edit.type !== 'del' || next.pos !== first - 1) break
+          first = next.pos
+          i++
+        }
+        docDelete(doc, agent, first, pos - first + 1)
+      } else {
+        // 同じ位置に並ぶ再挿入は元の順序でまとめて挿入する
+        const run = [edit]
+        while (i + 1 < positioned.length) {
+          const next = positioned[i + 1]!
+          if (next.edit.type !== 'ins' || next.pos !== pos) break
+          run.unshift(next.edit)
+          i++
+        }
+        // 再挿入したアイテムで元のアイテムを置き換える
+        let lv = nextLV(oplog.cg)
+        for (const { id } of run) {
+          um.replaced.set(id, lv)
+          um.roots.set(lv, um.roots.get(id) ?? id)
+          lv++
+        }
+        docInsert(doc, agent, pos, ...run.map((e) => e.content!))
+      }
+      i++
+    }
+  } finally {
+    um.applying = false
+    um.seenLV = nextLV(oplog.cg)
+  }
+  um.lastCapture = null
+
+  return nextLV(oplog.cg) > start ? [[start, nextLV(oplog.cg)]] : []
+}
@@ -0,0 +1,43 @@
+/**
+ * 可変長整数（LEB128形式の符号なしvarint）のエンコード・デコード
+ *
+ * 7ビットずつ下位から書き出し、最上位ビットで継続を表す。
+ * ビット演算は32ビットに制限されるため、Number.MAX_SAFE_INTEGER まで扱えるよう算術演算で処理する。
+ */
+
+/** バイト列の読み取り位置 */
+export interface ByteCursor {
+  pos: number
+}
+
+/** 非負整数をvarintとして追加する */
+export function pushVarint(out: number[], n: number): void {
+  if (!Number.isSafeInteger(n) || n < 0) {
+    throw Error('varintにできない値: ' + n)
+  }
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80)
+    n = Math.floor(n / 0x80)
+  }
+  out.push(n)
+}
+
+/** varintを読み取り、カーソルを進める */
+export function readVarint(bytes: Uint8Array, cursor: ByteCursor): number {
+  let result = 0
+  let scale = 1
+  while (true) {
+    if (cursor.pos >= bytes.length) throw Error('varintの途中でデータが終了しました')
+    const b = bytes[cursor.pos++]!
+    result += (b & 0x7f) * scale
+    if (b < 0x80) return result
+    scale *= 0x80
+    if (scale > Number.MAX_SAFE_INTEGER) throw Error('varintが大きすぎます')
+  }
+}
+
+/** 符号付き整数をZigZag変換して非負整数にする（0, -1, 1, -2, ... → 0, 1, 2, 3, ...） */
+export const zigzagEncode = (n: number): number => (n < 0 ? -n * 2 - 1 : n * 2)
+
+/** ZigZag変換を元に戻す */
+export const zigzagDecode = (n: number): number => (n % 2 === 1 ? -(n + 1) / 2 : n / 2)
@@ -8,6 +8,16 @@ import type { Meta, StoryObj } from '@storybook/html-vite'
 import type { ListOpLog } from '../src/types.js'
 import { createOpLog, localInsert, localDelete, mergeOplogInto } from '../src/oplog.js'
 import { checkoutSimpleString } from '../src/branch.js'
+import { createDocument, docInsert, docDelete, mergeRemote } from '../src/document.js'
+import { setText } from '../src/diff.js'
+import { createTextDocument, mergeTextRemote, type TextDocument } from '../src/text-document.js'
+import { bind } from '../src/dom-binding.js'
+import { nextLV } from '../src/causal-graph.js'
+
+/** textarea のバインディング: 選択範囲を保ったままリモートの変更を反映する */
+export const TextareaBinding: Story = {
+  render: () => createBindingDemoUI(),
+}
 
 // --- スタイル定義 ---
 
@@ -123,70 +133,31 @@ const STYLES = `
 
 /** OpLogの操作数を返す */
 function opCount(oplog: ListOpLog<string>): number {
-  return oplog.ops.length
+  return nextLV(oplog.cg)
 }
 
 /** 操作ログのHTML表現を生成 */
 function formatOpLog(oplog: ListOpLog<string>): string {
   if (oplog.ops.length === 0) return '<div class="op-entry">（操作なし）</div>'
   return oplog.ops
-    .map((op, i) => {
+    .map((op) => {
       if (op.type === 'ins') {
-        return `<div class="op-entry ins">#${i} ins pos=${op.pos} "${op.content}"</div>`
+        return `<div class="op-entry ins">#${op.version} ins pos=${op.pos} "${op.content.join('')}"</div>`
+      }
+      if (op.type === 'del') {
+        return `<div class="op-entry del">#${op.version} del pos=${op.pos} len=${op.len}</div>`
+      }
+      if (op.type === 'move') {
+        return `<div class="op-entry">#${op.version} move from=${op.from} to=${op.to}</div>`
       }
-      return `<div class="op-entry del">#${i} del pos=${op.pos}</div>`
+      if (op.type === 'map') {
+        return `<div class="op-entry">#${op.version} map ${op.map.type} ${op.map.key}</div>`
+      }
+      return `<div class="op-entry">#${op.version} mark ${op.mark.markType} [${op.mark.start}, ${op.mark.end})</div>`
     })
     .join('')
 }
 
-// --- テキスト差分をOpLog操作に変換 ---
-
-/**
- * textareaの前回値と現在値の差分を計算し、OpLog操作として記録する。
- * 簡易的な差分: 先頭と末尾の一致部分を見つけて、中間の変更を挿入/削除に変換する。
- */
-function applyDiffToOpLog(
-  oplog: ListOpLog<string>,
-  agent: string,
-  oldText: string,
-  newText: string,
-): void {
-  if (oldText === newText) return
-
-  // 先頭の一致部分を見つける
-  let prefixLen = 0
-  while (
-    prefixLen < oldText.length &&
-    prefixLen < newText.length &&
-    oldText[prefixLen] === newText[prefixLen]
-  ) {
-    prefixLen++
-  }
-
-  // 末尾の一致部分を見つける（先頭の一致部分とオーバーラップしない）
-  let suffixLen = 0
-  while (
-    suffixLen < oldText.length - prefixLen &&
-    suffixLen < newText.length - prefixLen &&
-    oldText[oldText.length - 1 - suffixLen] === newText[newText.length - 1 - suffixLen]
-  ) {
-    suffixLen++
-  }
-
-  const deleteCount = oldText.length - prefixLen - suffixLen
-  const insertChars = newText.slice(prefixLen, newText.length - suffixLen)
-
-  // 削除を先に実行
-  if (deleteCount > 0) {
-    localDelete(oplog, agent, prefixLen, deleteCount)
-  }
-
-  // 挿入
-  if (insertChars.length > 0) {
-    localInsert(oplog, agent, prefixLen, ...insertChars.split(''))
-  }
-}
-
 // --- ストーリー定義 ---
 
 interface DemoArgs {
@@ -216,10 +187,8 @@ function createDemoUI(args: DemoArgs): HTMLElement {
   container.appendChild(wrapper)
 
   // 状態管理
-  let oplogA = createOpLog<string>()
-  let oplogB = createOpLog<string>()
-  let prevTextA = ''
-  let prevTextB = ''
+  let docA = createDocument<string>()
+  let docB = createDocument<string>()
 
   // プリセットの場合は通知を表示
   if (args.preset) {
@@ -291,17 +260,13 @@ function createDemoUI(args: DemoArgs): HTMLElement {
 
     // テキスト入力のイベントハンドラ
     textareaA.addEventListener('input', () => {
-      const newText = textareaA.value
-      applyDiffToOpLog(oplogA, 'A', prevTextA, newText)
-      prevTextA = newText
-      oplogAEl.innerHTML = formatOpLog(oplogA)
+      setText(docA, 'A', textareaA.value)
+      oplogAEl.innerHTML = formatOpLog(docA.oplog)
     })
 
     textareaB.addEventListener('input', () => {
-      const newText = textareaB.value
-      applyDiffToOpLog(oplogB, 'B', prevTextB, newText)
-      prevTextB = newText
-      oplogBEl.innerHTML = formatOpLog(oplogB)
+      setText(docB, 'B', textareaB.value)
+      oplogBEl.innerHTML = formatOpLog(docB.oplog)
     })
 
     // マージボタン
@@ -310,21 +275,21 @@ function createDemoUI(args: DemoArgs): HTMLElement {
       const merged = createOpLog<string>()
 
       // Aの操作を再現
-      for (const op of oplogA.ops) {
+      for (const op of docA.oplog.ops) {
         if (op.type === 'ins') {
-          localInsert(merged, 'A', op.pos, op.content)
-        } else {
-          localDelete(merged, 'A', op.pos)
+          localInsert(merged, 'A', op.pos, ...op.content)
+        } else if (op.type === 'del') {
+          localDelete(merged, 'A', op.pos, op.len)
         }
       }
 
       // Bの操作用のOpLogを作成
       const oplogBCopy = createOpLog<string>()
-      for (const op of oplogB.ops) {
+      for (const op of docB.oplog.ops) {
         if (op.type === 'ins') {
-          localInsert(oplogBCopy, 'B', op.pos, op.content)
-        } else {
-          localDelete(oplogBCopy, 'B', op.pos)
+          localInsert(oplogBCopy, 'B', op.pos, ...op.content)
+        } else if (op.type === 'del') {
+          localDelete(oplogBCopy, 'B', op.pos, op.len)
         }
       }
 
@@ -333,7 +298,7 @@ function createDemoUI(args: DemoArgs): HTMLElement {
 
       const result = checkoutSimpleString(merged)
       resultText.textContent = result || '（空文字列）'
-      resultStats.textContent = `操作数: A=${opCount(oplogA)}, B=${opCount(oplogB)} → マージ後合計=${merged.ops.length}`
+      resultStats.textContent = `操作数: A=${opCount(docA.oplog)}, B=${opCount(docB.oplog)} → マージ後合計=${opCount(merged)}`
     })
 
     // プリセットシナリオの実行
@@ -357,23 +322,21 @@ function createDemoUI(args: DemoArgs): HTMLElement {
     resultText: HTMLElement,
     resultStats: HTMLElement,
   ) {
-    // OpLogをリセット
-    oplogA = createOpLog<string>()
-    oplogB = createOpLog<string>()
+    // ドキュメントをリセット
+    docA = createDocument<string>()
+    docB = createDocument<string>()
 
     // Aが "Hello" を入力
-    localInsert(oplogA, 'A', 0, ...'Hello'.split(''))
+    docInsert(docA, 'A', 0, ...'Hello'.split(''))
     textareaA.value = 'Hello'
-    prevTextA = 'Hello'
 
     // Bも同じ位置に "World" を入力
-    localInsert(oplogB, 'B', 0, ...'World'.split(''))
+    docInsert(docB, 'B', 0, ...'World'.split(''))
     textareaB.value = 'World'
-    prevTextB = 'World'
 
     // ログ更新
-    oplogAEl.innerHTML = formatOpLog(oplogA)
-    oplogBEl.innerHTML = formatOpLog(oplogB)
+    oplogAEl.innerHTML = formatOpLog(docA.oplog)
+    oplogBEl.innerHTML = formatOpLog(docB.oplog)
 
     // マージ実行
     const merged = createOpLog<string>()
@@ -384,7 +347,7 @@ function createDemoUI(args: DemoArgs): HTMLElement {
 
     const result = checkoutSimpleString(merged)
     resultText.textContent = result || '（空文字列）'
-    resultStats.textContent = `操作数: A=${opCount(oplogA)}, B=${opCount(oplogB)} → マージ後合計=${merged.ops.length}`
+    resultStats.textContent = `操作数: A=${opCount(docA.oplog)}, B=${opCount(docB.oplog)} → マージ後合計=${opCount(merged)}`
   }
 
   // プリセット: 挿入と削除
@@ -401,54 +364,52 @@ function createDemoUI(args: DemoArgs): HTMLElement {
     localInsert(base, 'base', 0, ...'Hello World'.split(''))
 
     // AとBで同じ初期状態を共有
-    oplogA = createOpLog<string>()
-    localInsert(oplogA, 'base', 0, ...'Hello World'.split(''))
-    oplogB = createOpLog<string>()
-    localInsert(oplogB, 'base', 0, ...'Hello World'.split(''))
+    docA = createDocument<string>()
+    docInsert(docA, 'base', 0, ...'Hello World'.split(''))
+    docB = createDocument<string>()
+    docInsert(docB, 'base', 0, ...'Hello World'.split(''))
 
     // AがマージしてBの初期状態を取得
-    mergeOplogInto(oplogA, oplogB)
+    mergeRemote(docA, docB.oplog)
     // BがマージしてAの初期状態を取得
-    mergeOplogInto(oplogB, oplogA)
+    mergeRemote(docB, docA.oplog)
 
     // Aが末尾に "!" を追加
-    localInsert(oplogA, 'A', 11, '!')
+    docInsert(docA, 'A', 11, '!')
     textareaA.value = 'Hello World!'
-    prevTextA = 'Hello World!'
 
     // Bが "World" を削除 (位置6から5文字)
-    localDelete(oplogB, 'B', 6, 5)
+    docDelete(docB, 'B', 6, 5)
     textareaB.value = 'Hello '
-    prevTextB = 'Hello '
 
     // ログ更新
-    oplogAEl.innerHTML = formatOpLog(oplogA)
-    oplogBEl.innerHTML = formatOpLog(oplogB)
+    oplogAEl.innerHTML = formatOpLog(docA.oplog)
+    oplogBEl.innerHTML = formatOpLog(docB.oplog)
 
     // マージ実行
     const merged = createOpLog<string>()
     // Aの全操作をコピー
-    for (const op of oplogA.ops) {
+    for (const op of docA.oplog.ops) {
       if (op.type === 'ins') {
-        localInsert(merged, 'A', op.pos, op.content)
-      } else {
-        localDelete(merged, 'A', op.pos)
+        localInsert(merged, 'A', op.pos, ...op.content)
+      } else if (op.type === 'del') {
+        localDelete(merged, 'A', op.pos, op.len)
       }
     }
     // Bの操作をコピー
     const bCopy = createOpLog<string>()
-    for (const op of oplogB.ops) {
+    for (const op of docB.oplog.ops) {
       if (op.type === 'ins') {
-        localInsert(bCopy, 'B', op.pos, op.content)
-      } else {
-        localDelete(bCopy, 'B', op.pos)
+        localInsert(bCopy, 'B', op.pos, ...op.content)
+      } else if (op.type === 'del') {
+        localDelete(bCopy, 'B', op.pos, op.len)
       }
     }
     mergeOplogInto(merged, bCopy)
 
     const result = checkoutSimpleString(merged)
     resultText.textContent = result || '（空文字列）'
-    resultStats.textContent = `操作数: A=${opCount(oplogA)}, B=${opCount(oplogB)} → マージ後合計=${merged.ops.length}`
+    resultStats.textContent = `操作数: A=${opCount(docA.oplog)}, B=${opCount(docB.oplog)} → マージ後合計=${opCount(merged)}`
   }
 
   // DOMに追加された後にセットアップを実行
@@ -457,6 +418,64 @@ function createDemoUI(args: DemoArgs): HTMLElement {
   return container
 }
 
+/**
+ * textarea をそれぞれの TextDocument にバインドしたデモUI。
+ * 同期ボタンで相互にマージすると、編集中の選択範囲を保ったまま相手の変更が反映される。
+ */
+function createBindingDemoUI(): HTMLElement {
+  const container = document.createElement('div')
+
+  const style = document.createElement('style')
+  style.textContent = STYLES
+  container.appendChild(style)
+
+  const wrapper = document.createElement('div')
+  wrapper.className = 'demo-container'
+  container.appendChild(wrapper)
+
+  const notice = document.createElement('div')
+  notice.className = 'preset-notice'
+  notice.textContent =
+    '両方のtextareaで編集してから同期してください。カーソル位置や選択範囲は相手の変更に合わせて移動します。'
+  wrapper.appendChild(notice)
+
+  const editors = document.createElement('div')
+  editors.className = 'editors'
+  wrapper.appendChild(editors)
+
+  const docA = createTextDocument()
+  const docB = createTextDocument()
+
+  /** textarea を持つパネルを作成してバインドする */
+  const addPanel = (title: string, doc: TextDocument, agent: string) => {
+    const panel = document.createElement('div')
+    panel.className = 'editor-panel'
+    const heading = document.createElement('h3')
+    heading.textContent = title
+    const textarea = document.createElement('textarea')
+    textarea.placeholder = 'ここにテキストを入力...'
+    panel.append(heading, textarea)
+    editors.appendChild(panel)
+    bind(textarea, doc, agent)
+  }
+  addPanel('ユーザーA', docA, 'A')
+  addPanel('ユーザーB', docB, 'B')
+
+  const mergeSection = document.createElement('div')
+  mergeSection.className = 'merge-section'
+  const syncBtn = document.createElement('button')
+  syncBtn.className = 'merge-btn'
+  syncBtn.textContent = '同期'
+  syncBtn.addEventListener('click', () => {
+    mergeTextRemote(docA, docB.oplog)
+    mergeTextRemote(docB, docA.oplog)
+  })
+  mergeSection.appendChild(syncBtn)
+  wrapper.appendChild(mergeSection)
+
+  return container
+}
+
 /** デフォルト: 空の状態から手動操作 */
 export const Default: Story = {
   render: () => createDemoUI({}),
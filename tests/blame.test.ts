@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  docInsert,
+  createTextDocument,
+  textDocInsert,
+  textDocDelete,
+  mergeTextRemote,
+  createOpLog,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  checkoutSimpleString,
+  blame,
+} from '../src/index.js'
+
+describe('blame', () => {
+  it('空の文書は空のラン', () => {
+    expect(blame(createOpLog<string>())).toEqual([])
+  })
+
+  it('連続した挿入は1つのランにまとまる', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'alice', 0, 'hello')
+    textDocInsert(doc, 'alice', 5, '!')
+
+    expect(blame(doc.oplog, doc.version)).toEqual([{ start: 0, end: 6, agent: 'alice', seq: 0 }])
+  })
+
+  it('並行編集をマージした文書の各文字の挿入者を返す', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'alice', 0, 'hello world')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+
+    localInsert(remote, 'bob', 5, ...',')
+    textDocDelete(doc, 'alice', 6, 5)
+    textDocInsert(doc, 'alice', 6, 'there')
+    mergeTextRemote(doc, remote)
+
+    expect(doc.text).toBe('hello, there')
+    expect(blame(doc.oplog, doc.version)).toEqual([
+      { start: 0, end: 5, agent: 'alice', seq: 0 },
+      { start: 5, end: 6, agent: 'bob', seq: 0 },
+      { start: 6, end: 7, agent: 'alice', seq: 5 },
+      { start: 7, end: 12, agent: 'alice', seq: 16 },
+    ])
+  })
+
+  it('過去のバージョンを指定できる', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, 'a', 'b')
+    const v1 = doc.branch.version.slice()
+    docInsert(doc, 'bob', 1, 'x')
+
+    expect(blame(doc.oplog, v1)).toEqual([{ start: 0, end: 2, agent: 'alice', seq: 0 }])
+    expect(blame(doc.oplog, doc.branch.version)).toEqual([
+      { start: 0, end: 1, agent: 'alice', seq: 0 },
+      { start: 1, end: 2, agent: 'bob', seq: 0 },
+      { start: 2, end: 3, agent: 'alice', seq: 1 },
+    ])
+  })
+
+  it('ランの長さの合計はスナップショットの長さと一致する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abcdef')
+    localDelete(oplog, 'a', 1, 2)
+    localInsert(oplog, 'b', 2, ...'XY')
+    localDelete(oplog, 'b', 0)
+
+    const runs = blame(oplog)
+    expect(runs[runs.length - 1]!.end).toBe(checkoutSimpleString(oplog).length)
+    for (let i = 1; i < runs.length; i++) expect(runs[i]!.start).toBe(runs[i - 1]!.end)
+  })
+})
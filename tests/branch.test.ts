@@ -1,12 +1,16 @@
-import { describe, it, expect } from 'vitest'
-import { createOpLog, localInsert, localDelete, mergeOplogInto } from '../src/oplog.js'
+import { describe, it, expect, vi } from 'vitest'
+import { createOpLog, localInsert, localDelete, localMove, mergeOplogInto } from '../src/oplog.js'
 import {
   checkout,
+  checkoutAt,
+  checkoutAtRaw,
   checkoutSimple,
   checkoutSimpleString,
   createEmptyBranch,
   mergeChangesIntoBranch,
 } from '../src/branch.js'
+import { PLACEHOLDER_OFFSET } from '../src/edit-context.js'
+import { OrderStatisticTree } from '../src/order-statistic-tree.js'
 
 describe('checkout', () => {
   it('単純な挿入でcheckoutする', () => {
@@ -28,6 +32,58 @@ describe('checkout', () => {
   })
 })
 
+describe('checkoutAt / checkoutAtRaw', () => {
+  it('過去のバージョン時点の内容を復元する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'h', 'e', 'l', 'l', 'o')
+    localDelete(oplog, 'A', 0, 2)
+    localInsert(oplog, 'A', 3, '!')
+
+    expect(checkoutAt(oplog, []).snapshot).toEqual([])
+    expect(checkoutAt(oplog, [2]).snapshot.join('')).toBe('hel')
+    expect(checkoutAt(oplog, [6]).snapshot.join('')).toBe('llo')
+    expect(checkoutAt(oplog, [7])).toEqual(checkout(oplog))
+  })
+
+  it('並行ブランチの片方だけを含むバージョンを復元する', () => {
+    const oplog1 = createOpLog<string>()
+    localInsert(oplog1, 'A', 0, 'a', 'b')
+    const oplog2 = createOpLog<string>()
+    mergeOplogInto(oplog2, oplog1)
+
+    localInsert(oplog1, 'A', 2, 'c')
+    localInsert(oplog2, 'B', 0, 'x')
+    localDelete(oplog2, 'B', 1)
+    mergeOplogInto(oplog1, oplog2)
+
+    // A側の先端のみ
+    expect(checkoutAtRaw(oplog1, [['A', 2]]).snapshot.join('')).toBe('abc')
+    // B側の先端のみ
+    const branchB = checkoutAtRaw(oplog1, [['B', 1]])
+    expect(branchB.snapshot.join('')).toBe('xb')
+    // 両方
+    expect(checkoutAtRaw(oplog1, [['A', 2], ['B', 1]]).snapshot.join('')).toBe(
+      checkoutSimpleString(oplog1),
+    )
+    // 復元したブランチから最新まで進められる
+    mergeChangesIntoBranch(branchB, oplog1)
+    expect(branchB.snapshot.join('')).toBe(checkoutSimpleString(oplog1))
+  })
+
+  it('冗長なバージョンは支配するものだけに正規化される', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b', 'c')
+    expect(checkoutAt(oplog, [0, 2]).version).toEqual([2])
+  })
+
+  it('未知のバージョンはエラー', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a')
+    expect(() => checkoutAt(oplog, [1])).toThrow()
+    expect(() => checkoutAtRaw(oplog, [['Z', 0]])).toThrow()
+  })
+})
+
 describe('checkoutSimple / checkoutSimpleString', () => {
   it('配列を返す', () => {
     const oplog = createOpLog<string>()
@@ -69,6 +125,36 @@ describe('mergeChangesIntoBranch', () => {
 
     expect(branch.snapshot.join('')).toBe('hi!')
   })
+
+  it('並行して同じ要素を削除していても、共通祖先時点の文書長から再生する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, ...'abcd')
+    const other = createOpLog<string>()
+    mergeOplogInto(other, oplog)
+
+    // B と C が並行して 'b' を削除し、両方を含むブランチを作る
+    const c = createOpLog<string>()
+    mergeOplogInto(c, oplog)
+    localDelete(oplog, 'B', 1)
+    localDelete(c, 'C', 1)
+    mergeOplogInto(oplog, c)
+    const branch = checkout(oplog)
+    expect(branch.snapshot.join('')).toBe('acd')
+
+    // 共通祖先から並行して編集した操作をマージする
+    localInsert(other, 'D', 4, 'X')
+    localMove(other, 'D', 0, 4)
+    mergeOplogInto(oplog, other)
+    const pushPlaceholder = vi.spyOn(OrderStatisticTree.prototype, 'pushPlaceholder')
+    try {
+      mergeChangesIntoBranch(branch, oplog)
+      expect(pushPlaceholder.mock.lastCall).toEqual([PLACEHOLDER_OFFSET, 4])
+    } finally {
+      vi.restoreAllMocks()
+    }
+    expect(branch.snapshot.join('')).toBe('cdXa')
+    expect(branch.snapshot).toEqual(checkoutSimple(oplog))
+  })
 })
 
 describe('mergeChangesIntoBranch (fast-forward)', () => {
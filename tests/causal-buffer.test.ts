@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  getOp,
+  toJSON,
+  checkoutSimpleString,
+  createCausalBuffer,
+  receiveOps,
+  pendingCount,
+  missingVersions,
+  type ListOpLog,
+  type ListOpSpan,
+  type RawVersion,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+interface Message {
+  id: RawVersion
+  parents: RawVersion[]
+  span: ListOpSpan<string>
+}
+
+/** OpLog の操作を1操作ずつのメッセージに分ける */
+function toMessages(oplog: ListOpLog<string>): Message[] {
+  const messages: Message[] = []
+  let lv = 0
+  for (const { agent, seq, len, parents } of toJSON(oplog).cg) {
+    for (let k = 0; k < len; k++, lv++) {
+      const op = getOp(oplog, lv)
+      const span: ListOpSpan<string> =
+        op.type === 'ins' ? { type: 'ins', pos: op.pos, content: [op.content] } : { type: 'del', pos: op.pos, len: 1 }
+      messages.push({ id: [agent, seq + k], parents: k === 0 ? parents : [[agent, seq + k - 1]], span })
+    }
+  }
+  return messages
+}
+
+/** alice と bob の並行編集 */
+function concurrentOpLog() {
+  const a = createOpLog<string>()
+  localInsert(a, 'alice', 0, ...'abc')
+  const b = createOpLog<string>()
+  mergeOplogInto(b, a)
+  localInsert(a, 'alice', 3, 'd')
+  localDelete(b, 'bob', 0)
+  localInsert(b, 'bob', 0, 'x')
+  mergeOplogInto(a, b)
+  localInsert(a, 'alice', 0, 'y')
+  return a
+}
+
+describe('因果順の配送バッファ', () => {
+  it('親が未着の操作を保留し、必要な RawVersion を報告する', () => {
+    const buffer = createCausalBuffer(createOpLog<string>())
+
+    expect(receiveOps(buffer, ['alice', 3], [['alice', 2]], { type: 'ins', pos: 3, content: ['d'] })).toBe(0)
+    expect(receiveOps(buffer, ['alice', 1], [['alice', 0]], { type: 'ins', pos: 1, content: [...'bc'] })).toBe(0)
+    expect(pendingCount(buffer)).toBe(3)
+    // alice 2 は保留中の操作に含まれるので、足りないのは alice 0 だけ
+    expect(missingVersions(buffer)).toEqual([['alice', 0]])
+    expect(buffer.oplog.ops).toEqual([])
+
+    // 親が揃うと因果順にまとめて追加する
+    expect(receiveOps(buffer, ['alice', 0], [], { type: 'ins', pos: 0, content: ['a'] })).toBe(4)
+    expect(pendingCount(buffer)).toBe(0)
+    expect(missingVersions(buffer)).toEqual([])
+    expect(checkoutSimpleString(buffer.oplog)).toBe('abcd')
+  })
+
+  it('既に持っている操作は読み飛ばす', () => {
+    const buffer = createCausalBuffer(createOpLog<string>())
+    receiveOps(buffer, ['alice', 0], [], { type: 'ins', pos: 0, content: [...'ab'] })
+    expect(receiveOps(buffer, ['alice', 0], [], { type: 'ins', pos: 0, content: [...'ab'] })).toBe(0)
+    expect(receiveOps(buffer, ['alice', 1], [['alice', 0]], { type: 'ins', pos: 1, content: [...'bc'] })).toBe(1)
+    expect(checkoutSimpleString(buffer.oplog)).toBe('abc')
+  })
+
+  it('どの順序で届いても同じ結果になる', () => {
+    const source = concurrentOpLog()
+    const expected = checkoutSimpleString(source)
+    const messages = toMessages(source)
+
+    for (let seed = 1; seed <= 50; seed++) {
+      const rng = createRng(seed)
+      const shuffled = messages.slice()
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1))
+        const tmp = shuffled[i]!
+        shuffled[i] = shuffled[j]!
+        shuffled[j] = tmp
+      }
+
+      const buffer = createCausalBuffer(createOpLog<string>())
+      let added = 0
+      for (const { id, parents, span } of shuffled) added += receiveOps(buffer, id, parents, span)
+      expect(added).toBe(messages.length)
+      expect(checkoutSimpleString(buffer.oplog)).toBe(expected)
+    }
+  })
+
+  it('不正な操作は保留せずにエラーにする', () => {
+    const buffer = createCausalBuffer(createOpLog<string>())
+    expect(() => receiveOps(buffer, ['alice', 1], [['alice', 0]], { type: 'del', pos: 0, len: 0 })).toThrow()
+    expect(pendingCount(buffer)).toBe(0)
+  })
+})
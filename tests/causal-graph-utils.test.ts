@@ -6,6 +6,8 @@ import {
   findDominators,
   findConflicting,
   compareVersions,
+  canFastForward,
+  fastForwardRanges,
   serializeDiff,
   mergePartialVersions,
   intersectWithSummary,
@@ -160,6 +162,44 @@ describe('findConflicting', () => {
   })
 })
 
+describe('canFastForward / fastForwardRanges', () => {
+  it('直列の履歴はfast-forward可能', () => {
+    const cg = createCG()
+    add(cg, 'A', 0, 5, [])
+
+    expect(canFastForward(cg, [2], [4])).toBe(true)
+    expect(fastForwardRanges(cg, [2], [4])).toEqual([[3, 5]])
+  })
+
+  it('並行するheadを含む場合は不可', () => {
+    const cg = createCG()
+    add(cg, 'A', 0, 5, [])   // v0..v4
+    add(cg, 'B', 0, 2, [2])  // v5,v6: v2から分岐
+
+    expect(canFastForward(cg, [4], [4, 6])).toBe(false)
+  })
+
+  it('分岐と合流を経た子孫へは不可', () => {
+    const cg = createCG()
+    add(cg, 'A', 0, 5, [])   // v0..v4
+    add(cg, 'B', 0, 1, [4])  // v5
+    add(cg, 'C', 0, 1, [4])  // v6
+    add(cg, 'D', 0, 1, [5, 6]) // v7: 合流
+
+    expect(canFastForward(cg, [4], [7])).toBe(false)
+    // 合流後からなら直列
+    expect(canFastForward(cg, [5, 6], [7])).toBe(true)
+  })
+
+  it('新しい操作がない場合は空の範囲', () => {
+    const cg = createCG()
+    add(cg, 'A', 0, 1, [])
+    add(cg, 'B', 0, 1, [])
+
+    expect(fastForwardRanges(cg, [0, 1], [0])).toEqual([])
+  })
+})
+
 describe('compareVersions', () => {
   it('祖先関係を正しく判定する', () => {
     const cg = createCG()
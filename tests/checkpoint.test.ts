@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  createDocument,
+  docInsert,
+  docDelete,
+  mergeRemote,
+  getText,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  compactOpLog,
+  createCheckpointStore,
+  saveCheckpoint,
+  checkpointIfNeeded,
+  openDocumentFromCheckpoint,
+  type Checkpoint,
+} from '../src/index.js'
+
+describe('チェックポイント', () => {
+  it('リモートの編集が届いた後でも、チェックポイントから追いついて開ける', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'hello world')
+    const store = createCheckpointStore<string>()
+    saveCheckpoint(store, doc)
+
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+    localDelete(remote, 'bob', 0, 5)
+    localInsert(remote, 'bob', 0, ...'goodbye')
+    docInsert(doc, 'alice', 11, '!')
+    mergeRemote(doc, remote)
+
+    const reopened = openDocumentFromCheckpoint(doc.oplog, store)
+    expect(getText(reopened)).toBe('goodbye world!')
+    expect(reopened.branch.version).toEqual(doc.oplog.cg.heads)
+
+    // 開いた後もそのまま編集を続けられる
+    docDelete(reopened, 'alice', 13, 1)
+    expect(getText(reopened)).toBe('goodbye world')
+  })
+
+  it('最新バージョンに最も近いチェックポイントを使う', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'abc')
+    const store = createCheckpointStore<string>()
+    saveCheckpoint(store, doc)
+    docInsert(doc, 'alice', 3, 'd')
+    saveCheckpoint(store, doc)
+    docInsert(doc, 'alice', 4, 'e')
+
+    // 古いチェックポイントの内容を壊しておき、新しい方が選ばれることを確かめる
+    ;(store.checkpoints[0] as Checkpoint).snapshot = [...'xxx']
+    expect(getText(openDocumentFromCheckpoint(doc.oplog, store))).toBe('abcde')
+  })
+
+  it('未知の操作を含むチェックポイントは使わない', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'abc')
+    const checkpoints: Checkpoint[] = [{ version: [['carol', 7]], snapshot: [...'zzz'] }]
+    expect(getText(openDocumentFromCheckpoint(doc.oplog, checkpoints))).toBe('abc')
+
+    // 保存したピアとはLVが異なるOpLogでも RawVersion で照合する
+    const other = createOpLog<string>()
+    localInsert(other, 'bob', 0, ...'xy')
+    mergeOplogInto(other, doc.oplog)
+    const saved = createCheckpointStore<string>()
+    saveCheckpoint(saved, doc)
+    const expected = getText(openDocumentFromCheckpoint(other, []))
+    expect(getText(openDocumentFromCheckpoint(other, saved))).toBe(expected)
+  })
+
+  it('圧縮で失われたバージョンのチェックポイントは使わない', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'abc')
+    const store = createCheckpointStore<string>()
+    saveCheckpoint(store, doc)
+    docInsert(doc, 'alice', 3, ...'def')
+    compactOpLog(doc.oplog, [4])
+
+    expect(getText(openDocumentFromCheckpoint(doc.oplog, store))).toBe('abcdef')
+  })
+
+  it('interval ごとに保存し、maxCheckpoints を超えた古いものから捨てる', () => {
+    const doc = createDocument<string>()
+    const store = createCheckpointStore<string>({ interval: 3, maxCheckpoints: 2 })
+    const saved: boolean[] = []
+    for (let i = 0; i < 10; i++) {
+      docInsert(doc, 'alice', i, String(i))
+      saved.push(checkpointIfNeeded(store, doc))
+    }
+    expect(saved.filter(Boolean)).toHaveLength(3)
+    expect(store.checkpoints.map((c) => c.version)).toEqual([[['alice', 5]], [['alice', 8]]])
+    expect(() => createCheckpointStore({ maxCheckpoints: 0 })).toThrow()
+  })
+
+  it('JSONに保存したチェックポイントから開ける', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'hello')
+    const store = createCheckpointStore<string>()
+    saveCheckpoint(store, doc)
+    docInsert(doc, 'alice', 5, '!')
+
+    const persisted = JSON.parse(JSON.stringify(store.checkpoints)) as Checkpoint[]
+    const restored = createCheckpointStore<string>({ checkpoints: persisted })
+    expect(getText(openDocumentFromCheckpoint(doc.oplog, restored))).toBe('hello!')
+  })
+
+  it('読み込んだチェックポイントから interval 以上増えるまでは保存しない', () => {
+    const doc = createDocument<string>()
+    const store = createCheckpointStore<string>({ interval: 3 })
+    docInsert(doc, 'alice', 0, ...'abc')
+    expect(checkpointIfNeeded(store, doc)).toBe(true)
+    docInsert(doc, 'alice', 3, 'd')
+
+    // 再読み込み後も、前回の保存から1つしか増えていないので保存しない
+    const persisted = JSON.parse(JSON.stringify(store.checkpoints)) as Checkpoint[]
+    const restored = createCheckpointStore<string>({ interval: 3, checkpoints: persisted })
+    const reopened = openDocumentFromCheckpoint(doc.oplog, restored)
+    expect(checkpointIfNeeded(restored, reopened)).toBe(false)
+    docInsert(reopened, 'alice', 4, 'e')
+    expect(checkpointIfNeeded(restored, reopened)).toBe(false)
+    docInsert(reopened, 'alice', 5, 'f')
+    expect(checkpointIfNeeded(restored, reopened)).toBe(true)
+    expect(restored.checkpoints.map((c) => c.version)).toEqual([[['alice', 2]], [['alice', 5]]])
+
+    // 使えるチェックポイントがなければ、空の OpLog からの数で判定する
+    const other = createDocument<string>()
+    docInsert(other, 'bob', 0, 'x')
+    const unrelated = createCheckpointStore<string>({ interval: 3, checkpoints: persisted })
+    expect(checkpointIfNeeded(unrelated, other)).toBe(false)
+  })
+})
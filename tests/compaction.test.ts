@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  localDelete,
+  localMark,
+  localSeqInsert,
+  mergeOplogInto,
+  opsStart,
+  nextLV,
+  checkout,
+  checkoutAt,
+  checkoutSimpleString,
+  compactOpLog,
+  encodeOpLog,
+  decodeOpLog,
+  blame,
+  createSyncHello,
+  createSyncPatch,
+  applySyncPatch,
+  openDocument,
+  docInsert,
+  docDelete,
+  getText,
+  mergeRemote,
+  createUndoManager,
+  undo,
+  createTextDocument,
+  mergeTextRemote,
+  type ListOpLog,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** ランダムな挿入または削除を1つ行う */
+function randomEdit(oplog: ListOpLog<string>, agent: string, rng: () => number): void {
+  const len = checkoutSimpleString(oplog).length
+  if (len === 0 || rng() < 0.6) {
+    const content = 'xyz'.slice(0, 1 + Math.floor(rng() * 3))
+    localInsert(oplog, agent, Math.floor(rng() * (len + 1)), ...content)
+  } else {
+    localDelete(oplog, agent, Math.floor(rng() * len))
+  }
+}
+
+/** OpLogのコピー */
+const cloneOpLog = (oplog: ListOpLog<string>): ListOpLog<string> =>
+  decodeOpLog(encodeOpLog(oplog))
+
+describe('compactOpLog', () => {
+  it('安定バージョン以前の操作を破棄してベースに置き換える', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'hello world')
+    localDelete(oplog, 'a', 5, 6)
+    const stable = oplog.cg.heads.slice()
+    localInsert(oplog, 'b', 5, ...'!')
+
+    compactOpLog(oplog, stable)
+
+    expect(oplog.base).toEqual({ version: stable, content: [...'hello'] })
+    expect(opsStart(oplog)).toBe(17)
+    expect(oplog.ops).toEqual([{ type: 'ins', version: 17, pos: 5, content: ['!'] }])
+    expect(nextLV(oplog.cg)).toBe(18)
+    expect(checkoutSimpleString(oplog)).toBe('hello!')
+    expect(checkout(oplog).snapshot.join('')).toBe('hello!')
+  })
+
+  it('最新バージョンで圧縮すると操作がすべて破棄される', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    compactOpLog(oplog, oplog.cg.heads)
+
+    expect(oplog.ops).toEqual([])
+    expect(checkoutSimpleString(oplog)).toBe('abc')
+  })
+
+  it('安定バージョンと並行する操作がある場合はエラー', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'a')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, oplog)
+
+    localInsert(oplog, 'a', 1, 'b')
+    const stable = oplog.cg.heads.slice()
+    localInsert(remote, 'b', 0, 'c')
+    mergeOplogInto(oplog, remote)
+
+    expect(() => compactOpLog(oplog, stable)).toThrow()
+  })
+
+  it('破棄する範囲に書式操作があるとエラーになり、OpLog は変更しない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    localMark(oplog, 'a', { start: 0, end: 2, markType: 'bold', value: true, expand: 'after' })
+    localInsert(oplog, 'a', 3, 'd')
+
+    expect(() => compactOpLog(oplog, oplog.cg.heads)).toThrow('書式操作を含む履歴は圧縮できません')
+    expect(oplog.base).toBeUndefined()
+    expect(opsStart(oplog)).toBe(0)
+  })
+
+  it('安定バージョンより後の書式操作は圧縮の妨げにならない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    const stable = oplog.cg.heads.slice()
+    localMark(oplog, 'a', { start: 0, end: 2, markType: 'bold', value: true, expand: 'after' })
+
+    compactOpLog(oplog, stable)
+    expect(opsStart(oplog)).toBe(3)
+    expect(oplog.ops.map((run) => run.type)).toEqual(['mark'])
+  })
+
+  it('名前付きシーケンスの操作を含む履歴は圧縮できず、圧縮後は追加もできない', () => {
+    const named = createOpLog<string>()
+    localInsert(named, 'a', 0, ...'body')
+    localSeqInsert(named, 'title', 'a', 0, ...'T')
+    expect(() => compactOpLog(named, named.cg.heads)).toThrow('名前付きシーケンスを含む履歴は圧縮できません')
+    expect(named.base).toBeUndefined()
+
+    const compacted = createOpLog<string>()
+    localInsert(compacted, 'a', 0, ...'body')
+    compactOpLog(compacted, compacted.cg.heads)
+    expect(() => localSeqInsert(compacted, 'title', 'a', 0, 'T')).toThrow(
+      '圧縮済みのOpLogには名前付きシーケンスの操作を追加できません',
+    )
+    expect(() => mergeOplogInto(compacted, named)).toThrow('名前付きシーケンス')
+  })
+
+  it('圧縮後は名前付きシーケンスを使うピアからマージ・同期できず、OpLog も変わらない', () => {
+    const peer = createOpLog<string>()
+    localInsert(peer, 'a', 0, ...'body')
+    const compacted = createOpLog<string>()
+    mergeOplogInto(compacted, peer)
+    compactOpLog(compacted, compacted.cg.heads)
+
+    // 圧縮の後にピアが名前付きシーケンスを編集する
+    localInsert(peer, 'b', 4, '!')
+    localSeqInsert(peer, 'title', 'b', 0, ...'T')
+    const heads = compacted.cg.heads.slice()
+    const ops = compacted.ops.slice()
+
+    expect(() => mergeOplogInto(compacted, peer)).toThrow('圧縮済みのOpLogには名前付きシーケンスの操作を追加できません')
+    const patch = createSyncPatch(peer, createSyncHello(compacted).summary)
+    expect(() => applySyncPatch(compacted, patch)).toThrow('圧縮済みのOpLogには名前付きシーケンスの操作を追加できません')
+    expect(compacted.cg.heads).toEqual(heads)
+    expect(compacted.ops).toEqual(ops)
+    expect(compacted.targets).toBeUndefined()
+    expect(checkoutSimpleString(compacted)).toBe('body')
+  })
+
+  it('既存のベース以前のバージョンを指定しても何もしない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'a')
+    const v1 = oplog.cg.heads.slice()
+    localInsert(oplog, 'a', 1, 'b')
+    compactOpLog(oplog, oplog.cg.heads)
+
+    compactOpLog(oplog, v1)
+    expect(oplog.base!.content).toEqual(['a', 'b'])
+  })
+
+  it('圧縮を繰り返せる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    compactOpLog(oplog, oplog.cg.heads)
+    localDelete(oplog, 'a', 0)
+    localInsert(oplog, 'a', 2, 'd')
+    compactOpLog(oplog, oplog.cg.heads)
+
+    expect(oplog.base!.content).toEqual([...'bcd'])
+    expect(oplog.ops).toEqual([])
+  })
+
+  it('ベースより前のバージョンはチェックアウトできない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'a')
+    const v1 = oplog.cg.heads.slice()
+    localInsert(oplog, 'a', 1, 'b')
+    const v2 = oplog.cg.heads.slice()
+    localInsert(oplog, 'a', 2, 'c')
+    compactOpLog(oplog, v2)
+
+    expect(() => checkoutAt(oplog, v1)).toThrow()
+    expect(checkoutAt(oplog, v2).snapshot).toEqual(['a', 'b'])
+    expect(checkoutAt(oplog, oplog.cg.heads).snapshot).toEqual(['a', 'b', 'c'])
+  })
+
+  it('圧縮後の並行編集は圧縮しない場合と同じ結果に収束する', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const rng = createRng(seed)
+      const refA = createOpLog<string>()
+      const refB = createOpLog<string>()
+      for (let round = 0; round < 3; round++) {
+        for (let i = 0; i < 5; i++) randomEdit(refA, 'a', rng)
+        for (let i = 0; i < 5; i++) randomEdit(refB, 'b', rng)
+        mergeOplogInto(refA, refB)
+        mergeOplogInto(refB, refA)
+      }
+
+      // 同期済みの時点で、それぞれのピアが独立に圧縮する
+      const a = cloneOpLog(refA)
+      const b = cloneOpLog(refB)
+      compactOpLog(a, a.cg.heads)
+      compactOpLog(b, b.cg.heads)
+
+      for (let i = 0; i < 8; i++) {
+        randomEdit(refA, 'a', rng)
+        randomEdit(refB, 'b', rng)
+      }
+      mergeOplogInto(a, refA)
+      mergeOplogInto(b, refB)
+
+      mergeOplogInto(a, b)
+      mergeOplogInto(b, a)
+      mergeOplogInto(refA, refB)
+
+      const expected = checkoutSimpleString(refA)
+      expect(checkoutSimpleString(a)).toBe(expected)
+      expect(checkoutSimpleString(b)).toBe(expected)
+      expect(checkout(a).snapshot.join('')).toBe(expected)
+    }
+  })
+
+  it('空のOpLogへはベースごとマージできる', () => {
+    const src = createOpLog<string>()
+    localInsert(src, 'a', 0, ...'abc')
+    compactOpLog(src, src.cg.heads)
+    localInsert(src, 'a', 3, 'd')
+
+    const dest = createOpLog<string>()
+    mergeOplogInto(dest, src)
+    expect(dest.base).toEqual(src.base)
+    expect(checkoutSimpleString(dest)).toBe('abcd')
+
+    // 破棄した操作を持たない空でないOpLogにはマージできない
+    const other = createOpLog<string>()
+    localInsert(other, 'b', 0, 'x')
+    expect(() => mergeOplogInto(other, src)).toThrow()
+  })
+
+  it('ベースと並行する操作は追加できない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'a')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, oplog)
+
+    localInsert(oplog, 'a', 1, 'b')
+    compactOpLog(oplog, oplog.cg.heads)
+    localInsert(remote, 'b', 0, 'c')
+
+    expect(() => mergeOplogInto(oplog, remote)).toThrow()
+  })
+
+  it('エンコードしても圧縮済みの状態が保たれる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'hello')
+    compactOpLog(oplog, oplog.cg.heads)
+    localDelete(oplog, 'b', 0)
+
+    const decoded = cloneOpLog(oplog)
+    expect(decoded).toEqual(oplog)
+    expect(checkoutSimpleString(decoded)).toBe('ello')
+  })
+
+  it('ベースの要素の blame は agent が null になる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abcd')
+    compactOpLog(oplog, oplog.cg.heads)
+    localInsert(oplog, 'b', 2, 'X')
+
+    expect(blame(oplog)).toEqual([
+      { start: 0, end: 2, agent: null, seq: 0 },
+      { start: 2, end: 3, agent: 'b', seq: 0 },
+      { start: 3, end: 5, agent: null, seq: 2 },
+    ])
+  })
+
+  it('破棄した操作を持たない相手へのパッチはエラー', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'a')
+    const peer = createOpLog<string>()
+    mergeOplogInto(peer, oplog)
+
+    localInsert(oplog, 'a', 1, 'b')
+    compactOpLog(oplog, oplog.cg.heads)
+    localInsert(oplog, 'a', 2, 'c')
+
+    expect(() => createSyncPatch(oplog, createSyncHello(peer).summary)).toThrow()
+
+    // ベースまで受け取り済みの相手には送れる
+    localInsert(peer, 'a', 1, 'b')
+    applySyncPatch(peer, createSyncPatch(oplog, createSyncHello(peer).summary))
+    expect(checkoutSimpleString(peer)).toBe('abc')
+  })
+
+  it('圧縮済みのOpLogから開いたドキュメントで編集とマージができる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'hello world')
+    compactOpLog(oplog, oplog.cg.heads)
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, oplog)
+
+    const doc = openDocument(oplog)
+    docDelete(doc, 'a', 0, 6)
+    localInsert(remote, 'b', 11, ...'!')
+    mergeRemote(doc, remote)
+
+    expect(getText(doc)).toBe('world!')
+  })
+
+  it('ベースの要素の削除を取り消せる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    compactOpLog(oplog, oplog.cg.heads)
+
+    const doc = openDocument(oplog)
+    const um = createUndoManager(doc, 'a')
+    docDelete(doc, 'a', 1)
+    docInsert(doc, 'a', 0, '>')
+    expect(getText(doc)).toBe('>ac')
+
+    undo(um)
+    expect(getText(doc)).toBe('abc')
+  })
+
+  it('空のテキストドキュメントに圧縮済みのOpLogをマージできる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, ...'abc')
+    compactOpLog(oplog, oplog.cg.heads)
+    localInsert(oplog, 'a', 3, 'd')
+
+    const doc = createTextDocument()
+    mergeTextRemote(doc, oplog)
+    expect(doc.text).toBe('abcd')
+  })
+})
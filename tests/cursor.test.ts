@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  docInsert,
+  docDelete,
+  mergeRemote,
+  createTextDocument,
+  textDocInsert,
+  textDocDelete,
+  getTextDocText,
+  mergeTextRemote,
+  createOpLog,
+  localInsert,
+  mergeOplogInto,
+  posToCursor,
+  cursorToPos,
+  openDocument,
+  compactOpLog,
+} from '../src/index.js'
+
+describe('posToCursor / cursorToPos', () => {
+  it('同じバージョンでは元の位置に戻る', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'hello')
+
+    for (let pos = 0; pos <= 5; pos++) {
+      for (const stick of ['left', 'right'] as const) {
+        expect(cursorToPos(doc, posToCursor(doc, pos, stick))).toBe(pos)
+      }
+    }
+  })
+
+  it('文書の端はアンカーなしで表す', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'abc')
+
+    expect(posToCursor(doc, 0, 'left')).toEqual({ anchor: null, stick: 'left' })
+    expect(posToCursor(doc, 3, 'right')).toEqual({ anchor: null, stick: 'right' })
+    expect(posToCursor(doc, 1, 'right')).toEqual({ anchor: ['A', 1], stick: 'right' })
+
+    textDocInsert(doc, 'A', 3, 'de')
+    expect(cursorToPos(doc, { anchor: null, stick: 'right' })).toBe(5)
+  })
+
+  it('前方への並行挿入をマージしても同じ文字を指し続ける', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'world')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+
+    // 'r' の直前
+    const cursor = posToCursor(doc, 2)
+    localInsert(remote, 'B', 0, ...'hello ')
+    mergeTextRemote(doc, remote)
+
+    expect(getTextDocText(doc)).toBe('hello world')
+    expect(cursorToPos(doc, cursor)).toBe(8)
+  })
+
+  it('付着先の文字が削除されると、その文字があった位置を返す', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'abcdef')
+    const left = posToCursor(doc, 3, 'left') // 'c' の直後
+    const right = posToCursor(doc, 3, 'right') // 'd' の直前
+
+    textDocDelete(doc, 'A', 2, 2) // 'cd' を削除
+    expect(cursorToPos(doc, left)).toBe(2)
+    expect(cursorToPos(doc, right)).toBe(2)
+  })
+
+  it('挿入位置での付着の向きで結果が変わる', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'ac')
+    const left = posToCursor(doc, 1, 'left')
+    const right = posToCursor(doc, 1, 'right')
+
+    textDocInsert(doc, 'A', 1, 'b')
+    expect(cursorToPos(doc, left)).toBe(1)
+    expect(cursorToPos(doc, right)).toBe(2)
+  })
+
+  it('過去のバージョンでの位置を解決できる', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, 'x', 'y')
+    const v1 = doc.branch.version.slice()
+    docInsert(doc, 'A', 0, 'a', 'b', 'c')
+    docDelete(doc, 'A', 4)
+
+    // 'x' の直前（現在は位置3）
+    const cursor = posToCursor(doc, 3)
+    expect(cursorToPos(doc, cursor)).toBe(3)
+    expect(cursorToPos(doc, cursor, v1)).toBe(0)
+
+    // v1 時点の 'y' の直後を現在の位置に解決する
+    const atV1 = posToCursor(doc, 2, 'left', v1)
+    expect(cursorToPos(doc, atV1)).toBe(4)
+  })
+
+  it('並行ブランチのマージ後も両方のカーソルが有効', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'base')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+
+    localInsert(remote, 'B', 4, ...'!!')
+    const remoteDoc = createDocument<string>()
+    mergeRemote(remoteDoc, remote)
+    // リモート側で '!' の後ろに付いたカーソル
+    const remoteCursor = posToCursor(remoteDoc, 6, 'left')
+
+    docInsert(doc, 'A', 0, '>')
+    mergeRemote(doc, remote)
+
+    expect(doc.branch.snapshot.join('')).toBe('>base!!')
+    expect(cursorToPos(doc, remoteCursor)).toBe(7)
+  })
+
+  it('解決の間に追加された操作や、バージョンの行き来を反映する', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'hello')
+    const v1 = doc.branch.version.slice()
+    const cursor = posToCursor(doc, 1, 'left') // 'h' の直後
+
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+    localInsert(remote, 'B', 0, ...'>> ')
+    docInsert(doc, 'A', 1, 'X')
+    expect(cursorToPos(doc, cursor)).toBe(1)
+    mergeRemote(doc, remote)
+    docDelete(doc, 'A', 0)
+
+    // 同じ OpLog で新しく開いたドキュメントと同じ結果になる
+    const fresh = openDocument(createOpLog<string>())
+    mergeOplogInto(fresh.oplog, doc.oplog)
+    for (const version of [doc.branch.version, v1, doc.branch.version]) {
+      expect(cursorToPos(doc, cursor, version)).toBe(cursorToPos(fresh, cursor, version))
+    }
+    expect(cursorToPos(doc, cursor)).toBe(3)
+    expect(cursorToPos(doc, cursor, v1)).toBe(1)
+
+    // 圧縮後はベースから作り直す
+    compactOpLog(doc.oplog, doc.branch.version)
+    expect(cursorToPos(doc, { anchor: null, stick: 'right' })).toBe(8)
+    expect(() => cursorToPos(doc, cursor)).toThrow('付着先の要素は圧縮済みです')
+    expect(() => cursorToPos(doc, cursor, v1)).toThrow('圧縮済みの履歴より前のバージョンは参照できません')
+  })
+
+  it('範囲外の位置はエラー', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'abc')
+    expect(() => posToCursor(doc, 4)).toThrow()
+    expect(() => posToCursor(doc, -1)).toThrow()
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  openDocument,
+  createOpLog,
+  docInsert,
+  getText,
+  mergeRemote,
+  observe,
+  checkoutSimpleString,
+  createTextDocument,
+  textDocInsert,
+  getTextDocText,
+  mergeTextRemote,
+  createUndoManager,
+  undo,
+  setText,
+  diffSequence,
+  type DiffEdit,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** 差分を先頭から適用する */
+function applyEdits(a: string, b: string, edits: DiffEdit[]): string {
+  let text = a
+  for (const { newPos, del, ins } of edits) {
+    text = text.slice(0, newPos) + b.slice(newPos, newPos + ins) + text.slice(newPos + del)
+  }
+  return text
+}
+
+/** 動的計画法による最小の編集距離（挿入と削除のみ） */
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) dp[0]![j] = j
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      dp[i]![j] =
+        a[i - 1] === b[j - 1]
+          ? dp[i - 1]![j - 1]!
+          : Math.min(dp[i - 1]![j]!, dp[i]![j - 1]!) + 1
+    }
+  }
+  return dp[a.length]![b.length]!
+}
+
+describe('diffSequence', () => {
+  it('先頭と末尾の一致部分を除いた差分を返す', () => {
+    expect(diffSequence('hello', 'hello')).toEqual([])
+    expect(diffSequence('hello', 'help me')).toEqual([{ oldPos: 3, newPos: 3, del: 2, ins: 4 }])
+    expect(diffSequence('abc', '')).toEqual([{ oldPos: 0, newPos: 0, del: 3, ins: 0 }])
+  })
+
+  it('中間部分は最小の編集にする', () => {
+    const edits = diffSequence('abcabba', 'cbabac')
+    expect(applyEdits('abcabba', 'cbabac', edits)).toBe('cbabac')
+    expect(edits.reduce((n, e) => n + e.del + e.ins, 0)).toBe(5)
+  })
+
+  it('ランダムな入力でも正しく最小の差分になる', () => {
+    const rng = createRng(7)
+    const randomText = () =>
+      Array.from({ length: Math.floor(rng() * 12) }, () => 'abc'[Math.floor(rng() * 3)]).join('')
+
+    for (let i = 0; i < 500; i++) {
+      const [a, b] = [randomText(), randomText()]
+      const edits = diffSequence(a, b)
+      expect(applyEdits(a, b, edits)).toBe(b)
+      expect(edits.reduce((n, e) => n + e.del + e.ins, 0)).toBe(editDistance(a, b))
+    }
+  })
+
+  it('編集距離が大きい場合は中間部分全体を置き換える', () => {
+    const a = 'x' + 'ab'.repeat(1000) + 'y'
+    const b = 'x' + 'ba'.repeat(1000).replace(/a/g, 'c') + 'y'
+    expect(diffSequence(a, b)).toEqual([{ oldPos: 1, newPos: 1, del: 2000, ins: 2000 }])
+  })
+})
+
+describe('setText', () => {
+  it('Document の差分を1つの変更として記録する', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'hello world')
+    const events: unknown[] = []
+    observe(doc, (e) => events.push(e))
+
+    setText(doc, 'A', 'Hello, world!')
+    expect(getText(doc)).toBe('Hello, world!')
+    expect(events).toEqual([
+      {
+        origin: 'local',
+        delta: [{ insert: ['H'] }, { delete: 1 }, { retain: 4 }, { insert: [','] }, { retain: 6 }, { insert: ['!'] }],
+        transaction: true,
+      },
+    ])
+
+    // 変わらなければ何も記録しない
+    const heads = doc.oplog.cg.heads.slice()
+    setText(doc, 'A', 'Hello, world!')
+    expect(doc.oplog.cg.heads).toEqual(heads)
+    expect(events).toHaveLength(1)
+  })
+
+  it('変わっていない部分への並行編集を保つ', () => {
+    const a = createDocument<string>()
+    docInsert(a, 'A', 0, ...'The quick fox')
+    const b = openDocument(createOpLog<string>())
+    mergeRemote(b, a.oplog)
+
+    setText(a, 'A', 'The quick brown fox')
+    docInsert(b, 'B', 0, ...'> ')
+    mergeRemote(a, b.oplog)
+    mergeRemote(b, a.oplog)
+
+    expect(getText(a)).toBe('> The quick brown fox')
+    expect(getText(b)).toBe('> The quick brown fox')
+  })
+
+  it('UndoManager では1回で取り消せる', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'abc')
+    const um = createUndoManager(doc, 'A')
+    setText(doc, 'A', 'xbyz')
+    undo(um)
+    expect(getText(doc)).toBe('abc')
+  })
+
+  it('大きな貼り付けも1つの変更として記録する', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'[]')
+    const events: unknown[] = []
+    observe(doc, (e) => events.push(e))
+
+    const pasted = 'abc'.repeat(100_000)
+    setText(doc, 'A', '[' + pasted + ']')
+    expect(getText(doc)).toBe('[' + pasted + ']')
+    expect(checkoutSimpleString(doc.oplog)).toBe(getText(doc))
+    expect(events).toHaveLength(1)
+  })
+
+  it('TextDocument の内容を置き換える', () => {
+    const a = createTextDocument()
+    textDocInsert(a, 'A', 0, 'one two three')
+    const b = createTextDocument()
+    mergeTextRemote(b, a.oplog)
+
+    setText(a, 'A', 'one 2 three')
+    setText(b, 'B', 'one two three four')
+    mergeTextRemote(a, b.oplog)
+    mergeTextRemote(b, a.oplog)
+
+    expect(getTextDocText(a)).toBe('one 2 three four')
+    expect(getTextDocText(b)).toBe('one 2 three four')
+  })
+})
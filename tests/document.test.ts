@@ -12,8 +12,10 @@ import {
   localInsert,
   localDelete,
   mergeOplogInto,
+  pushOp,
   checkout,
   checkoutSimpleString,
+  nextLV,
 } from '../src/index.js'
 
 // 再現可能な疑似乱数生成器（xorshift32）
@@ -32,7 +34,7 @@ describe('createDocument', () => {
     const doc = createDocument<string>()
     expect(getText(doc)).toBe('')
     expect(getContent(doc)).toEqual([])
-    expect(doc.oplog.ops).toHaveLength(0)
+    expect(nextLV(doc.oplog.cg)).toBe(0)
     expect(doc.branch.version).toEqual([])
   })
 })
@@ -42,7 +44,7 @@ describe('docInsert', () => {
     const doc = createDocument<string>()
     docInsert(doc, 'A', 0, 'h', 'e', 'l', 'l', 'o')
     expect(getText(doc)).toBe('hello')
-    expect(doc.oplog.ops).toHaveLength(5)
+    expect(nextLV(doc.oplog.cg)).toBe(5)
     expect(doc.branch.version).toHaveLength(1)
   })
 
@@ -75,7 +77,7 @@ describe('docDelete', () => {
     docInsert(doc, 'A', 0, 'a', 'b', 'c')
     docDelete(doc, 'A', 1)
     expect(getText(doc)).toBe('ac')
-    expect(doc.oplog.ops).toHaveLength(4)
+    expect(nextLV(doc.oplog.cg)).toBe(4)
   })
 
   it('複数文字の削除', () => {
@@ -85,6 +87,15 @@ describe('docDelete', () => {
     expect(getText(doc)).toBe('ad')
   })
 
+  it('範囲外の削除は OpLog に記録せずにエラーにする', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, 'a', 'b', 'c')
+    expect(() => docDelete(doc, 'A', 2, 2)).toThrow('範囲外の削除')
+    expect(() => docDelete(doc, 'A', -1)).toThrow('範囲外の削除')
+    expect(nextLV(doc.oplog.cg)).toBe(3)
+    expect(getText(doc)).toBe('abc')
+  })
+
   it('先頭の削除', () => {
     const doc = createDocument<string>()
     docInsert(doc, 'A', 0, 'a', 'b', 'c')
@@ -179,6 +190,22 @@ describe('openDocument', () => {
 
     expect(getText(doc)).toBe('hi!')
   })
+
+  it('1文字ずつ入力した長い履歴も開ける', () => {
+    const oplog = createOpLog<string>()
+    const n = 200_000
+    for (let i = 0; i < n; i++) localInsert(oplog, 'A', i, 'abc'[i % 3]!)
+    expect(oplog.ops).toHaveLength(1)
+
+    const doc = openDocument(oplog)
+    expect(getContent(doc)).toHaveLength(n)
+    expect(checkout(oplog).snapshot).toEqual(getContent(doc))
+
+    // 空のドキュメントへの fast-forward でも同じ
+    const other = createDocument<string>()
+    mergeRemote(other, oplog)
+    expect(getContent(other)).toEqual(getContent(doc))
+  })
 })
 
 describe('restoreDocument', () => {
@@ -305,6 +332,58 @@ describe('mergeRemote', () => {
     expect(getText(docA)).toContain('!')
     expect(getText(docA)).toContain('>')
   })
+
+  it('分岐と合流を含む履歴をマージしても位置がずれない', () => {
+    const docA = createDocument<string>()
+    docInsert(docA, 'A', 0, 'h', 'e', 'l', 'l', 'o')
+
+    // リモートでBとCが並行に編集し、Dが両者を合流させる
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, docA.oplog)
+    pushOp(remote, ['B', 0], [['A', 4]], 'ins', 0, 'x')
+    pushOp(remote, ['C', 0], [['A', 4]], 'ins', 5, '!')
+    pushOp(remote, ['D', 0], [['B', 0], ['C', 0]], 'ins', 0, '>')
+
+    mergeRemote(docA, remote)
+    expect(getText(docA)).toBe('>xhello!')
+  })
+
+  it('ランダムな並行編集とマージでフルリプレイと一致する', () => {
+    const rng = createRng(7)
+    const agents = ['A', 'B', 'C']
+    const docs = agents.map(() => createDocument<string>())
+
+    for (let round = 0; round < 60; round++) {
+      // 各ドキュメントで数回ずつローカル編集
+      docs.forEach((doc, i) => {
+        const edits = Math.floor(rng() * 3)
+        for (let j = 0; j < edits; j++) {
+          const len = getContent(doc).length
+          if (len === 0 || rng() < 0.65) {
+            const pos = Math.floor(rng() * (len + 1))
+            docInsert(doc, agents[i]!, pos, String.fromCharCode(97 + (round % 26)))
+          } else {
+            const pos = Math.floor(rng() * len)
+            docDelete(doc, agents[i]!, pos, Math.min(len - pos, 1 + Math.floor(rng() * 2)))
+          }
+        }
+      })
+
+      // ランダムな組み合わせでマージ
+      const a = Math.floor(rng() * docs.length)
+      const b = Math.floor(rng() * docs.length)
+      if (a === b) continue
+      mergeRemote(docs[a]!, docs[b]!.oplog)
+      expect(getText(docs[a]!)).toBe(checkoutSimpleString(docs[a]!.oplog))
+    }
+
+    // 全員で同期すると収束する
+    for (const doc of docs) {
+      for (const other of docs) mergeRemote(doc, other.oplog)
+    }
+    const expected = checkoutSimpleString(docs[0]!.oplog)
+    for (const doc of docs) expect(getText(doc)).toBe(expected)
+  })
 })
 
 describe('getContent / getText', () => {
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createTextDocument,
+  textDocInsert,
+  textDocDelete,
+  getTextDocText,
+  mergeTextRemote,
+  bind,
+  unbind,
+  type BindableElement,
+} from '../src/index.js'
+
+/** テスト用の textarea */
+interface FakeTextArea extends BindableElement {
+  /** ユーザーの入力を再現する: 選択範囲を text で置き換える */
+  type(text: string): void
+  /** Backspace を再現する */
+  backspace(): void
+  /** beforeinput を伴わない値の変更（IMEの確定や自動補完）を再現する */
+  replaceValue(value: string): void
+  listenerCount(): number
+}
+
+function createFakeTextArea(): FakeTextArea {
+  const listeners = new Map<string, Set<() => void>>()
+  const dispatch = (type: string) => {
+    for (const listener of listeners.get(type) ?? []) listener()
+  }
+
+  const el: FakeTextArea = {
+    value: '',
+    selectionStart: 0,
+    selectionEnd: 0,
+    selectionDirection: 'none',
+    setSelectionRange(start, end, direction) {
+      el.selectionStart = start
+      el.selectionEnd = end
+      el.selectionDirection = direction ?? 'none'
+    },
+    addEventListener(type, listener) {
+      let set = listeners.get(type)
+      if (set == null) listeners.set(type, (set = new Set()))
+      set.add(listener)
+    },
+    removeEventListener(type, listener) {
+      listeners.get(type)?.delete(listener)
+    },
+    type(text) {
+      dispatch('beforeinput')
+      const start = el.selectionStart!
+      el.value = el.value.slice(0, start) + text + el.value.slice(el.selectionEnd!)
+      el.setSelectionRange(start + text.length, start + text.length)
+      dispatch('input')
+    },
+    backspace() {
+      dispatch('beforeinput')
+      const end = el.selectionEnd!
+      const start = el.selectionStart === end ? Math.max(0, end - 1) : el.selectionStart!
+      el.value = el.value.slice(0, start) + el.value.slice(end)
+      el.setSelectionRange(start, start)
+      dispatch('input')
+    },
+    replaceValue(value) {
+      el.value = value
+      el.setSelectionRange(value.length, value.length)
+      dispatch('input')
+    },
+    listenerCount: () => [...listeners.values()].reduce((n, set) => n + set.size, 0),
+  }
+  return el
+}
+
+describe('textarea のバインディング', () => {
+  it('バインド時に要素の値をドキュメントに合わせる', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'hello')
+    const el = createFakeTextArea()
+    bind(el, doc, 'A')
+    expect(el.value).toBe('hello')
+  })
+
+  it('入力をローカル編集として記録する', () => {
+    const doc = createTextDocument()
+    const el = createFakeTextArea()
+    bind(el, doc, 'A')
+
+    el.type('aa')
+    // 同じ文字の間への入力も入力位置の通りに記録する
+    el.setSelectionRange(1, 1)
+    el.type('a')
+    el.setSelectionRange(0, 2)
+    el.type('b')
+    el.setSelectionRange(2, 2)
+    el.backspace()
+
+    expect(getTextDocText(doc)).toBe('b')
+    expect(doc.oplog.ops.map((op) => op.type === 'ins' ? op.pos : -1)).toEqual([0, 1, -1, 0, -1])
+  })
+
+  it('beforeinput を伴わない変更は差分から記録する', () => {
+    const doc = createTextDocument()
+    const el = createFakeTextArea()
+    bind(el, doc, 'A')
+    el.type('colour')
+    el.replaceValue('color!')
+    expect(getTextDocText(doc)).toBe('color!')
+  })
+
+  it('リモートの変更を反映し、選択範囲を保つ', () => {
+    const doc = createTextDocument()
+    const el = createFakeTextArea()
+    bind(el, doc, 'A')
+    el.type('hello world')
+    el.setSelectionRange(6, 11, 'backward')
+
+    const remote = createTextDocument()
+    mergeTextRemote(remote, doc.oplog)
+    textDocInsert(remote, 'B', 0, '>> ')
+    textDocDelete(remote, 'B', 3, 1)
+    textDocInsert(remote, 'B', 8, '!')
+    mergeTextRemote(doc, remote.oplog)
+
+    expect(el.value).toBe('>> ello !world')
+    expect([el.selectionStart, el.selectionEnd, el.selectionDirection]).toEqual([8, 14, 'backward'])
+
+    // 選択範囲の中が削除されると縮む
+    textDocDelete(remote, 'B', 9, 2)
+    mergeTextRemote(doc, remote.oplog)
+    expect(el.value).toBe('>> ello !rld')
+    expect([el.selectionStart, el.selectionEnd]).toEqual([8, 12])
+  })
+
+  it('入力位置への並行挿入ではカーソルは挿入された内容の前に残る', () => {
+    const doc = createTextDocument()
+    const el = createFakeTextArea()
+    bind(el, doc, 'A')
+    el.type('ab')
+    el.setSelectionRange(1, 1)
+
+    const remote = createTextDocument()
+    mergeTextRemote(remote, doc.oplog)
+    textDocInsert(remote, 'B', 1, 'xyz')
+    mergeTextRemote(doc, remote.oplog)
+
+    expect(el.value).toBe('axyzb')
+    expect([el.selectionStart, el.selectionEnd]).toEqual([1, 1])
+    el.type('!')
+    expect(getTextDocText(doc)).toBe('a!xyzb')
+  })
+
+  it('unbind 後は入力を記録せず、変更も反映しない', () => {
+    const doc = createTextDocument()
+    const el = createFakeTextArea()
+    const binding = bind(el, doc, 'A')
+    el.type('abc')
+    unbind(binding)
+    expect(el.listenerCount()).toBe(0)
+
+    el.type('d')
+    textDocInsert(doc, 'A', 0, 'x')
+    expect(getTextDocText(doc)).toBe('xabc')
+    expect(el.value).toBe('abcd')
+  })
+})
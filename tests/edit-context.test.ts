@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { createOpLog, localInsert, localDelete } from '../src/oplog.js'
+import { createOpLog, localInsert, localDelete, pushOp } from '../src/oplog.js'
+import { nextLV } from '../src/causal-graph.js'
 import { traverseAndApply, createEditContext } from '../src/edit-context.js'
 import { wrapArray } from '../src/snapshot-ops.js'
 
@@ -8,7 +9,7 @@ describe('traverseAndApply', () => {
     const oplog = createOpLog<string>()
     localInsert(oplog, 'A', 0, 'h', 'e', 'l', 'l', 'o')
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -21,7 +22,7 @@ describe('traverseAndApply', () => {
     localDelete(oplog, 'A', 1, 2) // 'e', 'l' を削除
     localInsert(oplog, 'A', 1, 'a')
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -31,7 +32,7 @@ describe('traverseAndApply', () => {
   it('空の操作ログでは空スナップショット', () => {
     const oplog = createOpLog<string>()
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -43,7 +44,7 @@ describe('traverseAndApply', () => {
     localInsert(oplog, 'A', 0, 'b')
     localInsert(oplog, 'A', 0, 'a')
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -55,7 +56,7 @@ describe('traverseAndApply', () => {
     localInsert(oplog, 'A', 0, 'a', 'b', 'c')
     localDelete(oplog, 'A', 2) // 'c' を削除
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -67,7 +68,7 @@ describe('traverseAndApply', () => {
     localInsert(oplog, 'A', 0, 'a', 'b')
     localDelete(oplog, 'A', 0, 2) // 全て削除
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     traverseAndApply(ctx, oplog, wrapArray(snapshot))
 
@@ -78,7 +79,7 @@ describe('traverseAndApply', () => {
     const oplog = createOpLog<string>()
     localInsert(oplog, 'A', 0, 'a', 'b', 'c', 'd')
 
-    const ctx = createEditContext(oplog.ops.length)
+    const ctx = createEditContext(nextLV(oplog.cg))
     const snapshot: string[] = []
     // 最初の2操作のみ適用
     traverseAndApply(ctx, oplog, wrapArray(snapshot), 0, 2)
@@ -86,3 +87,55 @@ describe('traverseAndApply', () => {
     expect(snapshot.join('')).toBe('ab')
   })
 })
+
+describe('traverseAndApply (クリティカルバージョン)', () => {
+  it('直列の履歴ではアイテムを保持せずに適用する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'h', 'e', 'l', 'l', 'o')
+    localDelete(oplog, 'A', 1, 2)
+    localInsert(oplog, 'A', 1, 'a')
+
+    const ctx = createEditContext(nextLV(oplog.cg), true)
+    const snapshot: string[] = []
+    traverseAndApply(ctx, oplog, wrapArray(snapshot))
+
+    expect(snapshot.join('')).toBe('halo')
+    // 文書全体が1つのプレースホルダーのランになっている
+    expect(ctx.items.toArray()).toHaveLength(1)
+    expect(ctx.items.length).toBe(4)
+    expect(ctx.itemsByLV.every((item) => item === null)).toBe(true)
+  })
+
+  it('並行区間を挟んでも破棄しない場合と同じ結果になる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b', 'c')
+    // v3, v4: 並行な挿入と削除
+    pushOp(oplog, ['B', 0], [['A', 2]], 'ins', 1, 'x')
+    pushOp(oplog, ['C', 0], [['A', 2]], 'del', 1)
+    // v5: 合流後は再び直列
+    pushOp(oplog, ['A', 3], [['B', 0], ['C', 0]], 'ins', 0, '>')
+    localInsert(oplog, 'A', 1, 'y', 'z')
+
+    const run = (clear: boolean) => {
+      const ctx = createEditContext(nextLV(oplog.cg), clear)
+      const snapshot: string[] = []
+      traverseAndApply(ctx, oplog, wrapArray(snapshot))
+      return snapshot.join('')
+    }
+
+    expect(run(true)).toBe(run(false))
+    expect(run(true)).toBe('>yzaxc')
+  })
+
+  it('途中から歩行する場合は破棄しない', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b', 'c', 'd')
+
+    const ctx = createEditContext(nextLV(oplog.cg), true)
+    const snapshot: string[] = []
+    traverseAndApply(ctx, oplog, wrapArray(snapshot), 0, 2)
+    traverseAndApply(ctx, oplog, wrapArray(snapshot), 2, 4)
+
+    expect(snapshot.join('')).toBe('abcd')
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  checkoutSimpleString,
+  encodeOpLog,
+  decodeOpLog,
+} from '../src/index.js'
+import type { ListOpLog } from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** エンコード→デコードした結果が元のOpLogと一致することを確認する */
+function expectRoundTrip(oplog: ListOpLog<string>): ListOpLog<string> {
+  const decoded = decodeOpLog(encodeOpLog(oplog))
+  expect(decoded.ops).toEqual(oplog.ops)
+  expect(decoded.cg.entries).toEqual(oplog.cg.entries)
+  expect(decoded.cg.heads).toEqual(oplog.cg.heads)
+  expect(checkoutSimpleString(decoded)).toBe(checkoutSimpleString(oplog))
+  return decoded
+}
+
+describe('encodeOpLog / decodeOpLog', () => {
+  it('空のOpLogを往復できる', () => {
+    const decoded = expectRoundTrip(createOpLog<string>())
+    expect(decoded.ops).toHaveLength(0)
+  })
+
+  it('挿入と削除を往復できる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'hello world')
+    localDelete(oplog, 'alice', 5, 6) // Delete キー
+    localInsert(oplog, 'alice', 5, ...'!!!')
+    localDelete(oplog, 'alice', 7) // Backspace 相当の連続削除
+    localDelete(oplog, 'alice', 6)
+    localDelete(oplog, 'alice', 5)
+    expectRoundTrip(oplog)
+    expect(checkoutSimpleString(oplog)).toBe('hello')
+  })
+
+  it('並行編集を含む履歴を往復できる', () => {
+    const a = createOpLog<string>()
+    const b = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    mergeOplogInto(b, a)
+    localInsert(a, 'alice', 3, ...'def')
+    localInsert(b, 'bob', 0, ...'xyz')
+    localDelete(b, 'bob', 4)
+    mergeOplogInto(a, b)
+    localInsert(a, 'alice', 1, '-')
+
+    const decoded = expectRoundTrip(a)
+    expect(decoded.cg.heads).toHaveLength(1)
+  })
+
+  it('複数文字の要素・サロゲートペア・孤立サロゲートを保持する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'エージェント🙂', 0, 'ab', '', '😀', '\ud800', 'x\udfff', 'あ')
+    localInsert(oplog, 'エージェント🙂', 0, ...'日本語')
+    expectRoundTrip(oplog)
+  })
+
+  it('ランダムな並行編集を往復できる', () => {
+    const rng = createRng(12345)
+    const agents = ['a', 'b', 'c']
+    const logs = agents.map(() => createOpLog<string>())
+
+    for (let step = 0; step < 300; step++) {
+      const i = Math.floor(rng() * agents.length)
+      const log = logs[i]!
+      const len = checkoutSimpleString(log).length
+
+      if (len > 0 && rng() < 0.35) {
+        const pos = Math.floor(rng() * len)
+        localDelete(log, agents[i]!, pos, 1 + Math.floor(rng() * Math.min(3, len - pos)))
+      } else {
+        const pos = Math.floor(rng() * (len + 1))
+        const text = 'xyz'.slice(0, 1 + Math.floor(rng() * 3))
+        localInsert(log, agents[i]!, pos, ...text)
+      }
+
+      if (rng() < 0.2) {
+        const j = Math.floor(rng() * agents.length)
+        mergeOplogInto(log, logs[j]!)
+      }
+    }
+
+    for (const log of logs) expectRoundTrip(log)
+  })
+
+  it('逐次入力は操作1件あたり1バイト程度に圧縮される', () => {
+    const oplog = createOpLog<string>()
+    const text = 'The quick brown fox jumps over the lazy dog. '.repeat(50)
+    for (let i = 0; i < text.length; i++) localInsert(oplog, 'alice', i, text[i]!)
+
+    const bytes = encodeOpLog(oplog)
+    expect(bytes.length).toBeLessThan(text.length + 32)
+  })
+})
+
+describe('decodeOpLog (不正な入力)', () => {
+  const valid = (() => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'hello')
+    return encodeOpLog(oplog)
+  })()
+
+  it('マジックナンバーが異なるとエラー', () => {
+    expect(() => decodeOpLog(Uint8Array.from([1, 2, 3, 4, 1]))).toThrow()
+  })
+
+  it('未対応のフォーマットバージョンはエラー', () => {
+    const bytes = valid.slice()
+    bytes[4] = 99
+    expect(() => decodeOpLog(bytes)).toThrow()
+  })
+
+  it('途中で切れたデータはエラー', () => {
+    for (let len = 0; len < valid.length; len++) {
+      expect(() => decodeOpLog(valid.slice(0, len))).toThrow()
+    }
+  })
+
+  it('末尾に余分なデータがあるとエラー', () => {
+    expect(() => decodeOpLog(Uint8Array.from([...valid, 0]))).toThrow()
+  })
+})
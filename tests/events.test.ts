@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  docInsert,
+  docDelete,
+  getContent,
+  mergeRemote,
+  createTextDocument,
+  textDocInsert,
+  textDocDelete,
+  getTextDocText,
+  mergeTextRemote,
+  createOpLog,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  checkoutSimpleString,
+  observe,
+} from '../src/index.js'
+import type { ChangeEvent, Delta } from '../src/index.js'
+import { composeInsert, composeDelete } from '../src/events.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** 差分を配列に適用する */
+function applyDelta<T>(content: readonly T[], delta: Delta<T[]>): T[] {
+  const result: T[] = []
+  let pos = 0
+  for (const op of delta) {
+    if ('retain' in op) {
+      result.push(...content.slice(pos, pos + op.retain))
+      pos += op.retain
+    } else if ('insert' in op) {
+      result.push(...op.insert)
+    } else {
+      pos += op.delete
+    }
+  }
+  result.push(...content.slice(pos))
+  return result
+}
+
+/** 差分を文字列に適用する */
+function applyTextDelta(text: string, delta: Delta<string>): string {
+  let result = ''
+  let pos = 0
+  for (const op of delta) {
+    if ('retain' in op) {
+      result += text.slice(pos, pos + op.retain)
+      pos += op.retain
+    } else if ('insert' in op) {
+      result += op.insert
+    } else {
+      pos += op.delete
+    }
+  }
+  return result + text.slice(pos)
+}
+
+describe('composeInsert / composeDelete', () => {
+  it('挿入と削除を1つの差分に合成する', () => {
+    let delta: Delta<string[]> = []
+    delta = composeInsert(delta, 2, ['x', 'y'])
+    delta = composeDelete(delta, 5, 2)
+    expect(delta).toEqual([{ retain: 2 }, { insert: ['x', 'y'] }, { retain: 1 }, { delete: 2 }])
+  })
+
+  it('差分内で挿入した要素の削除は相殺される', () => {
+    let delta: Delta<string[]> = []
+    delta = composeInsert(delta, 0, ['a', 'b', 'c'])
+    delta = composeDelete(delta, 1, 1)
+    expect(delta).toEqual([{ insert: ['a', 'c'] }])
+
+    delta = composeDelete(delta, 0, 2)
+    expect(delta).toEqual([])
+  })
+
+  it('挿入は同じ位置の削除より前に正規化される', () => {
+    let delta: Delta<string[]> = []
+    delta = composeDelete(delta, 1, 1)
+    delta = composeInsert(delta, 1, ['z'])
+    expect(delta).toEqual([{ retain: 1 }, { insert: ['z'] }, { delete: 1 }])
+  })
+
+  it('ランダムな編集列を合成しても逐次適用と一致する', () => {
+    const rng = createRng(99)
+    for (let round = 0; round < 50; round++) {
+      const original = 'abcdefghij'.split('')
+      let content = original.slice()
+      let delta: Delta<string[]> = []
+      for (let step = 0; step < 20; step++) {
+        if (content.length > 0 && rng() < 0.5) {
+          const pos = Math.floor(rng() * content.length)
+          const len = 1 + Math.floor(rng() * Math.min(3, content.length - pos))
+          content.splice(pos, len)
+          delta = composeDelete(delta, pos, len)
+        } else {
+          const pos = Math.floor(rng() * (content.length + 1))
+          const ins = ['X', 'Y'].slice(0, 1 + Math.floor(rng() * 2))
+          content = [...content.slice(0, pos), ...ins, ...content.slice(pos)]
+          delta = composeInsert(delta, pos, ins)
+        }
+        expect(applyDelta(original, delta)).toEqual(content)
+      }
+    }
+  })
+})
+
+describe('observe (Document)', () => {
+  it('ローカル編集を差分として通知する', () => {
+    const doc = createDocument<string>()
+    const events: ChangeEvent<string[]>[] = []
+    observe(doc, (e) => events.push(e))
+
+    docInsert(doc, 'A', 0, 'a', 'b', 'c')
+    docDelete(doc, 'A', 1)
+
+    expect(events).toEqual([
+      { origin: 'local', delta: [{ insert: ['a', 'b', 'c'] }] },
+      { origin: 'local', delta: [{ retain: 1 }, { delete: 1 }] },
+    ])
+  })
+
+  it('fast-forwardのマージを差分として通知する', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, 'a', 'b', 'c')
+
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+    localInsert(remote, 'B', 3, 'd')
+    localDelete(remote, 'B', 0)
+
+    const events: ChangeEvent<string[]>[] = []
+    observe(doc, (e) => events.push(e))
+    mergeRemote(doc, remote)
+
+    expect(events).toEqual([
+      { origin: 'remote', delta: [{ delete: 1 }, { retain: 2 }, { insert: ['d'] }] },
+    ])
+  })
+
+  it('並行編集のマージでも差分を適用すると同じ内容になる', () => {
+    const rng = createRng(2024)
+    for (let round = 0; round < 30; round++) {
+      const doc = createDocument<string>()
+      docInsert(doc, 'A', 0, ...'shared')
+      const remote = createOpLog<string>()
+      mergeOplogInto(remote, doc.oplog)
+
+      for (let step = 0; step < 6; step++) {
+        const local = rng() < 0.5
+        const len = local ? getContent(doc).length : checkoutSimpleString(remote).length
+        if (len > 0 && rng() < 0.4) {
+          const pos = Math.floor(rng() * len)
+          if (local) docDelete(doc, 'A', pos)
+          else localDelete(remote, 'B', pos)
+        } else {
+          const pos = Math.floor(rng() * (len + 1))
+          if (local) docInsert(doc, 'A', pos, 'x')
+          else localInsert(remote, 'B', pos, 'y')
+        }
+      }
+
+      const before = getContent(doc).slice()
+      let delta: Delta<string[]> | null = null
+      const unobserve = observe(doc, (e) => (delta = e.delta))
+      mergeRemote(doc, remote)
+      unobserve()
+
+      expect(applyDelta(before, delta ?? [])).toEqual(getContent(doc))
+    }
+  })
+
+  it('購読を解除すると通知されない', () => {
+    const doc = createDocument<string>()
+    let count = 0
+    const unobserve = observe(doc, () => count++)
+    docInsert(doc, 'A', 0, 'a')
+    unobserve()
+    docInsert(doc, 'A', 1, 'b')
+    expect(count).toBe(1)
+  })
+})
+
+describe('observe (TextDocument)', () => {
+  it('ローカル編集を文字列の差分として通知する', () => {
+    const doc = createTextDocument()
+    const events: ChangeEvent<string>[] = []
+    observe(doc, (e) => events.push(e))
+
+    textDocInsert(doc, 'A', 0, 'hello')
+    textDocDelete(doc, 'A', 1, 3)
+
+    expect(events).toEqual([
+      { origin: 'local', delta: [{ insert: 'hello' }] },
+      { origin: 'local', delta: [{ retain: 1 }, { delete: 3 }] },
+    ])
+  })
+
+  it('並行編集のマージを差分として通知する', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'A', 0, 'hello world')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+
+    textDocDelete(doc, 'A', 0, 6)
+    localInsert(remote, 'B', 5, ...', dear')
+    localInsert(remote, 'B', 17, '!')
+
+    const before = getTextDocText(doc)
+    const events: ChangeEvent<string>[] = []
+    observe(doc, (e) => events.push(e))
+    mergeTextRemote(doc, remote)
+
+    expect(getTextDocText(doc)).toBe(', dearworld!')
+    expect(events).toHaveLength(1)
+    expect(events[0]!.origin).toBe('remote')
+    expect(applyTextDelta(before, events[0]!.delta)).toBe(getTextDocText(doc))
+  })
+})
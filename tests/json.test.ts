@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  localDelete,
+  localMark,
+  localMove,
+  localSeqInsert,
+  pushTxn,
+  mergeOplogInto,
+  compactOpLog,
+  checkoutSimpleString,
+  toJSON,
+  fromJSON,
+} from '../src/index.js'
+
+/** 2人の並行編集を含む OpLog */
+function sampleOpLog() {
+  const a = createOpLog<string>()
+  localInsert(a, 'alice', 0, ...'hello')
+  const b = createOpLog<string>()
+  mergeOplogInto(b, a)
+  localDelete(a, 'alice', 0, 1)
+  localInsert(a, 'alice', 0, 'H')
+  localInsert(b, 'bob', 5, ...' world')
+  mergeOplogInto(a, b)
+  localMark(a, 'alice', { start: 0, end: 5, markType: 'bold', value: true, expand: 'after' })
+  localMove(a, 'alice', 5, 10)
+  return a
+}
+
+describe('JSON形式', () => {
+  it('RawVersion と RLE のランで書き出し、読み込むと元に戻る', () => {
+    const oplog = sampleOpLog()
+    const json = toJSON(oplog)
+
+    expect(json.formatVersion).toBe(1)
+    expect(json.cg[0]).toEqual({ agent: 'alice', seq: 0, len: 7, parents: [] })
+    expect(json.cg).toContainEqual({ agent: 'bob', seq: 0, len: 6, parents: [['alice', 4]] })
+    expect(json.ops[0]).toEqual({ type: 'ins', pos: 0, content: [...'hello'] })
+
+    // JSON文字列を経由しても同じ
+    const restored = fromJSON(JSON.parse(JSON.stringify(json)))
+    expect(restored).toEqual(oplog)
+    expect(checkoutSimpleString(restored)).toBe(checkoutSimpleString(oplog))
+  })
+
+  it('名前付きシーケンスとトランザクションも保たれる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, 'a')
+    localSeqInsert(oplog, 'title', 'alice', 0, ['T'])
+    localInsert(oplog, 'alice', 1, 'b')
+    pushTxn(oplog, 1, 3)
+
+    const json = toJSON(oplog)
+    expect(json.ops[1]).toEqual({ type: 'ins', pos: 0, content: ['T'], target: 'title' })
+    expect(json.txns).toEqual([[1, 3]])
+    expect(fromJSON(json)).toEqual(oplog)
+  })
+
+  it('途中のバージョンからの差分を書き出して読み込める', () => {
+    const oplog = sampleOpLog()
+    const peer = createOpLog<string>()
+    localInsert(peer, 'alice', 0, ...'hello')
+
+    const json = toJSON(oplog, [4])
+    expect(json.cg.every((e) => e.agent !== 'alice' || e.seq >= 5)).toBe(true)
+    expect(() => fromJSON(json)).toThrow('無効なJSON: cg[0].parents[0]: 未知のバージョンです')
+
+    fromJSON(json, peer)
+    expect(checkoutSimpleString(peer)).toBe(checkoutSimpleString(oplog))
+    expect(toJSON(oplog, oplog.cg.heads)).toEqual({ formatVersion: 1, cg: [], ops: [] })
+  })
+
+  it('圧縮済みのOpLogはベースを含めて書き出す', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'hello')
+    localDelete(oplog, 'alice', 0, 1)
+    localMove(oplog, 'alice', 0, 3)
+    compactOpLog(oplog, [5])
+    const json = toJSON(oplog)
+    expect(json.base).toEqual({ version: [['alice', 5]], content: [...'ello'] })
+    expect(json.ops).toEqual([{ type: 'move', from: 0, to: 3 }])
+
+    const restored = fromJSON(json)
+    expect(restored).toEqual(oplog)
+    expect(checkoutSimpleString(restored)).toBe(checkoutSimpleString(oplog))
+    expect(() => toJSON(oplog, [3])).toThrow()
+    expect(() => fromJSON(json, sampleOpLog())).toThrow()
+  })
+
+  it('検証エラーは問題のある要素を示す', () => {
+    const valid = () => JSON.parse(JSON.stringify(toJSON(sampleOpLog())))
+    const error = (edit: (json: ReturnType<typeof valid>) => void) => {
+      const json = valid()
+      edit(json)
+      return () => fromJSON(json)
+    }
+
+    expect(() => fromJSON(null)).toThrow('無効なJSON: $')
+    expect(error((j) => (j.formatVersion = 2))).toThrow('無効なJSON: formatVersion')
+    expect(error((j) => (j.cg[1].agent = 3))).toThrow('無効なJSON: cg[1].agent')
+    expect(error((j) => (j.cg[2].parents[0] = ['carol', 0]))).toThrow('無効なJSON: cg[2].parents[0]')
+    expect(error((j) => (j.cg[0].len = 0))).toThrow('無効なJSON: cg[0].len')
+    expect(error((j) => (j.ops[1].pos = -1))).toThrow('無効なJSON: ops[1].pos')
+    expect(error((j) => (j.ops[2].type = 'replace'))).toThrow('無効なJSON: ops[2].type')
+    expect(error((j) => j.ops.pop())).toThrow('無効なJSON: ops: 操作数とCGが一致しません')
+    expect(error((j) => (j.txns = [[0, 1]]))).toThrow('無効なJSON: txns[0][1]')
+
+    const markIdx = valid().ops.findIndex((op: { type: string }) => op.type === 'mark')
+    expect(error((j) => (j.ops[markIdx].mark.expand = 'all'))).toThrow(`無効なJSON: ops[${markIdx}].mark.expand`)
+  })
+})
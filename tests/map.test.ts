@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  mergeOplogInto,
+  mapSet,
+  mapDelete,
+  mapGet,
+  mapGetAll,
+  mapToObject,
+  createDocument,
+  docInsert,
+  getText,
+  mergeRemote,
+  createSyncPatch,
+  applySyncPatch,
+  summarizeVersion,
+  encodeOpLog,
+  decodeOpLog,
+  toJSON,
+  fromJSON,
+  checkoutSimpleString,
+  compactOpLog,
+  type ListOpLog,
+} from '../src/index.js'
+
+/** 同じ操作を持つ別のOpLog */
+function fork(oplog: ListOpLog<string>): ListOpLog<string> {
+  const copy = createOpLog<string>()
+  mergeOplogInto(copy, oplog)
+  return copy
+}
+
+describe('マップ', () => {
+  it('値を設定・上書き・削除する', () => {
+    const map = createOpLog<string>()
+    mapSet(map, 'alice', 'title', 'Draft')
+    mapSet(map, 'alice', 'title', 'Final')
+    mapSet(map, 'alice', 'lang', 'ja')
+    mapDelete(map, 'alice', 'lang')
+
+    expect(mapGet(map, 'title')).toBe('Final')
+    expect(mapGet(map, 'lang')).toBeUndefined()
+    expect(mapGet(map, 'missing')).toBeUndefined()
+    expect(mapToObject(map)).toEqual({ title: 'Final' })
+  })
+
+  it('過去のバージョンの値を取得できる', () => {
+    const map = createOpLog<string>()
+    mapSet(map, 'alice', 'size', 10)
+    const v1 = map.cg.heads.slice()
+    mapSet(map, 'alice', 'size', 12)
+
+    expect(mapGet(map, 'size', v1)).toBe(10)
+    expect(mapToObject(map, [])).toEqual({})
+  })
+
+  it('因果的に後の書き込みが並行しない古い値を上書きする', () => {
+    const a = createOpLog<string>()
+    mapSet(a, 'zed', 'title', 'old')
+    const b = fork(a)
+    mapSet(b, 'amy', 'title', 'new')
+    mergeOplogInto(a, b)
+
+    expect(mapGet(a, 'title')).toBe('new')
+    expect(mapGetAll(a, 'title')).toEqual(['new'])
+  })
+
+  it('並行する書き込みはすべて保持され、どのピアでも同じ値が選ばれる', () => {
+    const a = createOpLog<string>()
+    const b = createOpLog<string>()
+    mapSet(a, 'alice', 'title', 'A')
+    mapSet(b, 'bob', 'title', 'B')
+    mergeOplogInto(a, b)
+    mergeOplogInto(b, a)
+
+    expect(mapGetAll(a, 'title')).toEqual(['A', 'B'])
+    expect(mapGet(a, 'title')).toBe('B')
+    expect(mapGet(b, 'title')).toBe('B')
+
+    // 並行する値を見た上での書き込みで解決される
+    mapSet(a, 'alice', 'title', 'AB')
+    mergeOplogInto(b, a)
+    expect(mapGetAll(b, 'title')).toEqual(['AB'])
+  })
+
+  it('並行する書き込みは Lamport 時刻が大きい方を選び、同じならエージェント名で決める', () => {
+    const a = createOpLog<string>()
+    const b = createOpLog<string>()
+    // amy は先に他の操作をしているので、並行する書き込みの Lamport 時刻が大きい
+    mapSet(a, 'amy', 'draft', true)
+    mapSet(a, 'amy', 'draft', false)
+    mapSet(a, 'amy', 'title', 'amy')
+    mapSet(b, 'zed', 'title', 'zed')
+    mergeOplogInto(a, b)
+    mergeOplogInto(b, a)
+
+    expect(mapGetAll(a, 'title')).toEqual(['zed', 'amy'])
+    expect(mapGet(a, 'title')).toBe('amy')
+    expect(mapGet(b, 'title')).toBe('amy')
+
+    // Lamport 時刻が同じ場合はエージェント名の大きい方
+    mapSet(a, 'amy', 'lang', 'ja')
+    mapSet(b, 'zed', 'lang', 'en')
+    mergeOplogInto(a, b)
+    mergeOplogInto(b, a)
+    expect(mapGet(a, 'lang')).toBe('en')
+    expect(mapGet(b, 'lang')).toBe('en')
+  })
+
+  it('削除と並行する書き込みの値は残る', () => {
+    const a = createOpLog<string>()
+    mapSet(a, 'alice', 'tag', 'x')
+    const b = fork(a)
+    mapDelete(a, 'alice', 'tag')
+    mapSet(b, 'bob', 'tag', 'y')
+    mergeOplogInto(a, b)
+
+    expect(mapGetAll(a, 'tag')).toEqual(['y'])
+    expect(mapGet(a, 'tag')).toBe('y')
+  })
+
+  it('索引を作った後に追加された操作も反映される', () => {
+    const a = createOpLog<string>()
+    mapSet(a, 'alice', 'k', 1)
+    expect(mapToObject(a)).toEqual({ k: 1 })
+
+    const b = fork(a)
+    mapSet(b, 'bob', 'other', null)
+    mapSet(a, 'alice', 'k', 2)
+    mergeOplogInto(a, b)
+    expect(mapToObject(a)).toEqual({ k: 2, other: null })
+    expect(mapGet(a, 'k', [0])).toBe(1)
+  })
+})
+
+describe('マップと文書の履歴', () => {
+  it('テキストと同じ因果グラフに記録され、ドキュメントの同期で一緒に届く', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'alice', 0, ...'hello')
+    mapSet(doc.oplog, 'alice', 'title', 'Greeting')
+    docInsert(doc, 'alice', 5, '!')
+
+    const other = createDocument<string>()
+    mergeRemote(other, doc.oplog)
+    expect(getText(other)).toBe('hello!')
+    expect(mapGet(other.oplog, 'title')).toBe('Greeting')
+
+    // テキストのバージョンを指定してメタデータを読める
+    expect(mapGet(doc.oplog, 'title', [4])).toBeUndefined()
+    expect(mapGet(doc.oplog, 'title', [5])).toBe('Greeting')
+  })
+
+  it('同期パッチで不足している操作だけを送る', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'ab')
+    mapSet(a, 'alice', 'pinned', true)
+    const b = fork(a)
+    mapSet(a, 'alice', 'archived', false)
+
+    const patch = createSyncPatch(a, summarizeVersion(b.cg))
+    expect(patch.ops).toEqual([{ type: 'map', map: { type: 'set', key: 'archived', value: false } }])
+    applySyncPatch(b, patch)
+    expect(mapToObject(b)).toEqual({ pinned: true, archived: false })
+  })
+
+  it('バイナリエンコードと JSON で保存・復元できる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'xyz')
+    mapSet(oplog, 'alice', 'title', 'タイトル')
+    mapSet(oplog, 'bob', 'count', 3)
+    mapSet(oplog, 'alice', 'flag', null)
+    mapDelete(oplog, 'bob', 'title')
+    localInsert(oplog, 'alice', 1, '-')
+
+    for (const restored of [decodeOpLog(encodeOpLog(oplog)), fromJSON<string>(JSON.parse(JSON.stringify(toJSON(oplog))))]) {
+      expect(checkoutSimpleString(restored)).toBe('x-yz')
+      expect(mapToObject(restored)).toEqual({ count: 3, flag: null })
+      expect(restored.ops).toEqual(oplog.ops)
+    }
+  })
+
+  it('マップ操作を含む履歴は圧縮できない', () => {
+    const oplog = createOpLog<string>()
+    mapSet(oplog, 'alice', 'title', 'x')
+    localInsert(oplog, 'alice', 0, 'a')
+    expect(() => compactOpLog(oplog, oplog.cg.heads)).toThrow('マップ操作を含む履歴は圧縮できません')
+  })
+})
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  openDocument,
+  docInsert,
+  docDelete,
+  mergeRemote,
+  createTextDocument,
+  textDocInsert,
+  mergeTextRemote,
+  createOpLog,
+  localMark,
+  mergeOplogInto,
+  compactOpLog,
+  encodeOpLog,
+  decodeOpLog,
+  createSyncHello,
+  createSyncPatch,
+  applySyncPatch,
+  addMark,
+  removeMark,
+  getFormattedSpans,
+  type Document,
+} from '../src/index.js'
+
+/** 'hello world' を入力したドキュメント */
+function helloDoc(): Document<string> {
+  const doc = createDocument<string>()
+  docInsert(doc, 'alice', 0, ...'hello world')
+  return doc
+}
+
+/** 同じ OpLog を持つリモートのドキュメント */
+function fork(doc: Document<string>): Document<string> {
+  const oplog = createOpLog<string>()
+  mergeOplogInto(oplog, doc.oplog)
+  return openDocument(oplog)
+}
+
+describe('addMark / removeMark', () => {
+  it('範囲に書式を設定する', () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 5, 'bold')
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 5, marks: { bold: true } },
+      { start: 5, end: 11, marks: {} },
+    ])
+  })
+
+  it('空の文書は空のスパン', () => {
+    expect(getFormattedSpans(createDocument<string>())).toEqual([])
+  })
+
+  it('無効な範囲はエラー', () => {
+    const doc = helloDoc()
+    expect(() => addMark(doc, 'alice', 3, 3, 'bold')).toThrow()
+    expect(() => addMark(doc, 'alice', 0, 12, 'bold')).toThrow()
+    expect(() => localMark(doc.oplog, 'alice', {
+      start: -1, end: 2, markType: 'bold', value: true, expand: 'none',
+    })).toThrow()
+  })
+
+  it("expand: 'after' は末尾への入力に書式を広げる", () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 5, 'bold')
+    docInsert(doc, 'alice', 5, '!')
+    docInsert(doc, 'alice', 0, '>')
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 1, marks: {} },
+      { start: 1, end: 7, marks: { bold: true } },
+      { start: 7, end: 13, marks: {} },
+    ])
+  })
+
+  it("expand: 'none' は両端への入力に書式を広げない", () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 5, 'link', 'https://example.com', 'none')
+    docInsert(doc, 'alice', 5, '!')
+    docInsert(doc, 'alice', 0, '>')
+    docInsert(doc, 'alice', 3, '-')
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 1, marks: {} },
+      { start: 1, end: 7, marks: { link: 'https://example.com' } },
+      { start: 7, end: 14, marks: {} },
+    ])
+  })
+
+  it("expand: 'both' は文書の両端まで広がる", () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 11, 'italic', true, 'both')
+    docInsert(doc, 'alice', 0, '<')
+    docInsert(doc, 'alice', 12, '>')
+
+    expect(getFormattedSpans(doc)).toEqual([{ start: 0, end: 13, marks: { italic: true } }])
+  })
+
+  it('書式を取り除く', () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 11, 'bold')
+    removeMark(doc, 'alice', 2, 8, 'bold')
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 2, marks: { bold: true } },
+      { start: 2, end: 8, marks: {} },
+      { start: 8, end: 11, marks: { bold: true } },
+    ])
+  })
+
+  it('削除された要素にかかる書式は残りの要素に適用される', () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 2, 8, 'bold')
+    docDelete(doc, 'alice', 0, 4)
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 4, marks: { bold: true } },
+      { start: 4, end: 7, marks: {} },
+    ])
+  })
+
+  it('過去のバージョンを指定できる', () => {
+    const doc = helloDoc()
+    const v1 = doc.branch.version.slice()
+    addMark(doc, 'alice', 0, 5, 'bold')
+
+    expect(getFormattedSpans(doc, v1)).toEqual([{ start: 0, end: 11, marks: {} }])
+  })
+
+  it('TextDocument にも書式を設定できる', () => {
+    const doc = createTextDocument()
+    textDocInsert(doc, 'alice', 0, 'abc')
+    addMark(doc, 'alice', 1, 2, 'code')
+    textDocInsert(doc, 'alice', 2, 'x')
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 1, marks: {} },
+      { start: 1, end: 3, marks: { code: true } },
+      { start: 3, end: 4, marks: {} },
+    ])
+  })
+})
+
+describe('書式の並行編集', () => {
+  it('書式の末尾への並行する挿入は expand に従う', () => {
+    const doc = helloDoc()
+    const remote = fork(doc)
+
+    addMark(doc, 'alice', 0, 5, 'bold')
+    addMark(doc, 'alice', 0, 5, 'link', 'x', 'none')
+    docInsert(remote, 'bob', 5, '!')
+    mergeRemote(doc, remote.oplog)
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 5, marks: { bold: true, link: 'x' } },
+      { start: 5, end: 6, marks: { bold: true } },
+      { start: 6, end: 12, marks: {} },
+    ])
+  })
+
+  it('並行する同じ種類の書式はどのピアでも同じ値に収束する', () => {
+    const doc = helloDoc()
+    const remote = fork(doc)
+
+    addMark(doc, 'alice', 0, 8, 'color', 'red')
+    addMark(remote, 'bob', 3, 11, 'color', 'blue')
+    mergeRemote(doc, remote.oplog)
+    mergeRemote(remote, doc.oplog)
+
+    const spans = getFormattedSpans(doc)
+    expect(getFormattedSpans(remote)).toEqual(spans)
+    // Lamport 時刻が同じなのでエージェント名の大きい bob が優先される
+    expect(spans).toEqual([
+      { start: 0, end: 3, marks: { color: 'red' } },
+      { start: 3, end: 11, marks: { color: 'blue' } },
+    ])
+  })
+
+  it('因果的に後の操作が優先される', () => {
+    const doc = helloDoc()
+    addMark(doc, 'zed', 0, 11, 'bold')
+    const remote = fork(doc)
+    removeMark(remote, 'amy', 0, 5, 'bold')
+    mergeRemote(doc, remote.oplog)
+
+    expect(getFormattedSpans(doc)).toEqual([
+      { start: 0, end: 5, marks: {} },
+      { start: 5, end: 11, marks: { bold: true } },
+    ])
+  })
+
+  it('TextDocument 同士のマージでも書式が保たれる', () => {
+    const a = createTextDocument()
+    textDocInsert(a, 'alice', 0, 'abcdef')
+    const b = createTextDocument()
+    mergeTextRemote(b, a.oplog)
+
+    addMark(a, 'alice', 1, 4, 'bold')
+    textDocInsert(b, 'bob', 2, 'XY')
+    mergeTextRemote(a, b.oplog)
+    mergeTextRemote(b, a.oplog)
+
+    expect(a.text).toBe('abXYcdef')
+    expect(getFormattedSpans(b)).toEqual(getFormattedSpans(a))
+    expect(getFormattedSpans(a)).toEqual([
+      { start: 0, end: 1, marks: {} },
+      { start: 1, end: 6, marks: { bold: true } },
+      { start: 6, end: 8, marks: {} },
+    ])
+  })
+})
+
+describe('書式操作の保存と同期', () => {
+  it('エンコードしても書式操作が保たれる', () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 5, 'bold')
+    addMark(doc, 'alice', 2, 4, 'size', 12, 'none')
+    addMark(doc, 'alice', 1, 3, 'flag', false, 'before')
+    removeMark(doc, 'alice', 6, 9, 'em', 'both')
+
+    const decoded = decodeOpLog(encodeOpLog(doc.oplog))
+    expect(decoded).toEqual(doc.oplog)
+    expect(getFormattedSpans(openDocument(decoded))).toEqual(getFormattedSpans(doc))
+  })
+
+  it('同期パッチで書式操作を送れる', () => {
+    const doc = helloDoc()
+    const peer = fork(doc)
+    addMark(doc, 'alice', 0, 5, 'bold')
+
+    applySyncPatch(peer.oplog, createSyncPatch(doc.oplog, createSyncHello(peer.oplog).summary))
+    expect(getFormattedSpans(peer, peer.oplog.cg.heads)).toEqual(getFormattedSpans(doc))
+  })
+
+  it('書式操作を含む履歴は圧縮できない', () => {
+    const doc = helloDoc()
+    addMark(doc, 'alice', 0, 5, 'bold')
+    expect(() => compactOpLog(doc.oplog, doc.oplog.cg.heads)).toThrow()
+  })
+})
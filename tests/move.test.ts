@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  openDocument,
+  docInsert,
+  docDelete,
+  docMove,
+  getContent,
+  mergeRemote,
+  createOpLog,
+  localInsert,
+  localMove,
+  pushOps,
+  getOp,
+  checkout,
+  checkoutAt,
+  checkoutSimpleString,
+  encodeOpLog,
+  decodeOpLog,
+  createSyncPatch,
+  applySyncPatch,
+  createSyncHello,
+  createTextDocument,
+  textDocInsert,
+  getTextDocText,
+  mergeTextRemote,
+  blame,
+  observe,
+  createUndoManager,
+  undo,
+  type Document,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** 同じ履歴を持つ別のドキュメント */
+function fork<T>(doc: Document<T>): Document<T> {
+  const copy = openDocument(createOpLog<T>())
+  mergeRemote(copy, doc.oplog)
+  return copy
+}
+
+/** 'abcd' のような1文字ずつの要素を持つドキュメント */
+function listDoc(content: string): Document<string> {
+  const doc = createDocument<string>()
+  docInsert(doc, 'init', 0, ...content)
+  return doc
+}
+
+/** 双方向にマージする */
+function sync<T>(a: Document<T>, b: Document<T>): void {
+  mergeRemote(a, b.oplog)
+  mergeRemote(b, a.oplog)
+}
+
+describe('移動操作', () => {
+  it('要素を前後に移動できる', () => {
+    const doc = listDoc('abcd')
+    docMove(doc, 'alice', 0, 3)
+    expect(getContent(doc).join('')).toBe('bcda')
+    docMove(doc, 'alice', 2, 0)
+    expect(getContent(doc).join('')).toBe('dbca')
+
+    expect(getOp(doc.oplog, 4)).toEqual({ type: 'move', from: 0, to: 3 })
+    expect(checkout(doc.oplog).snapshot.join('')).toBe('dbca')
+    expect(checkoutAt(doc.oplog, [4]).snapshot.join('')).toBe('bcda')
+    expect(() => docMove(doc, 'alice', 4, 0)).toThrow()
+  })
+
+  it('並行して同じ要素を移動しても1か所にだけ残る', () => {
+    const a = listDoc('abcd')
+    const b = fork(a)
+    docMove(a, 'alice', 0, 3)
+    docMove(b, 'bob', 0, 1)
+    sync(a, b)
+
+    // (エージェント, シーケンス番号) が大きい bob の移動が勝つ
+    expect(getContent(a).join('')).toBe('bacd')
+    expect(getContent(b).join('')).toBe('bacd')
+    expect(checkoutSimpleString(a.oplog)).toBe('bacd')
+  })
+
+  it('並行する移動を見た上での移動が勝つ', () => {
+    const a = listDoc('abcd')
+    const b = fork(a)
+    docMove(a, 'alice', 0, 3)
+    docMove(b, 'bob', 0, 1)
+    sync(a, b)
+    docMove(a, 'alice', 1, 3)
+    sync(a, b)
+
+    expect(getContent(a).join('')).toBe('bcda')
+    expect(getContent(b).join('')).toBe('bcda')
+  })
+
+  it('移動と並行する削除は要素を削除する', () => {
+    const a = listDoc('abcd')
+    const b = fork(a)
+    docMove(a, 'alice', 1, 3)
+    docDelete(b, 'bob', 1)
+    sync(a, b)
+
+    expect(getContent(a).join('')).toBe('acd')
+    expect(getContent(b).join('')).toBe('acd')
+  })
+
+  it('移動先の周りへの並行挿入は移動先の隣に入る', () => {
+    const a = listDoc('abcd')
+    const b = fork(a)
+    docMove(a, 'alice', 0, 3)
+    docInsert(b, 'bob', 1, 'x')
+    docInsert(b, 'bob', 5, 'y')
+    sync(a, b)
+
+    expect(getContent(a).join('')).toBe('xbcday')
+    expect(getContent(b).join('')).toBe('xbcday')
+  })
+
+  it('移動された要素への並行する移動後の削除', () => {
+    const a = listDoc('abc')
+    const b = fork(a)
+    docMove(a, 'alice', 2, 0)
+    docMove(b, 'bob', 2, 1)
+    docDelete(b, 'bob', 1)
+    sync(a, b)
+
+    expect(getContent(a).join('')).toBe('ab')
+    expect(getContent(b).join('')).toBe('ab')
+  })
+
+  it('リモートの移動を変更イベントとして通知する', () => {
+    const a = listDoc('abc')
+    const b = fork(a)
+    const deltas: unknown[] = []
+    observe(b, (event) => deltas.push(event.delta))
+    docMove(a, 'alice', 0, 2)
+    mergeRemote(b, a.oplog)
+
+    expect(getContent(b).join('')).toBe('bca')
+    expect(deltas).toEqual([[{ delete: 1 }, { retain: 2 }, { insert: ['a'] }]])
+  })
+
+  it('TextDocument にも移動をマージできる', () => {
+    const a = listDoc('abc')
+    const text = createTextDocument()
+    mergeTextRemote(text, a.oplog)
+    textDocInsert(text, 'carol', 3, '!')
+    docMove(a, 'alice', 0, 2)
+    mergeTextRemote(text, a.oplog)
+
+    expect(getTextDocText(text)).toBe('bca!')
+  })
+
+  it('移動された要素の挿入を取り消すと移動先から削除する', () => {
+    const a = listDoc('ab')
+    const um = createUndoManager(a, 'alice')
+    docInsert(a, 'alice', 2, 'c')
+    const b = fork(a)
+    docMove(b, 'bob', 2, 0)
+    mergeRemote(a, b.oplog)
+    expect(getContent(a).join('')).toBe('cab')
+
+    undo(um)
+    expect(getContent(a).join('')).toBe('ab')
+  })
+
+  it('blame は移動された要素を挿入した操作を返す', () => {
+    const doc = listDoc('ab')
+    docMove(doc, 'alice', 0, 1)
+    expect(blame(doc.oplog)).toEqual([
+      { start: 0, end: 1, agent: 'init', seq: 1 },
+      { start: 1, end: 2, agent: 'init', seq: 0 },
+    ])
+  })
+})
+
+describe('移動操作の保存と同期', () => {
+  it('エンコードしても移動が保たれる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'abcd')
+    localMove(oplog, 'alice', 3, 0)
+    localMove(oplog, 'alice', 1, 2)
+
+    const decoded = decodeOpLog(encodeOpLog(oplog))
+    expect(decoded).toEqual(oplog)
+    expect(checkoutSimpleString(decoded)).toBe('dbac')
+  })
+
+  it('同期パッチや外部操作として移動を送れる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'alice', 0, ...'abc')
+    localMove(oplog, 'alice', 0, 2)
+
+    const peer = createOpLog<string>()
+    applySyncPatch(peer, createSyncPatch(oplog, createSyncHello(peer).summary))
+    expect(checkoutSimpleString(peer)).toBe('bca')
+
+    expect(pushOps(peer, ['bob', 0], [['alice', 3]], { type: 'move', from: 2, to: 0 })).toBe(1)
+    expect(checkoutSimpleString(peer)).toBe('abc')
+  })
+
+  it('ランダムな並行編集と移動でも収束し、要素は重複しない', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const rng = createRng(seed)
+      const docs = [listDoc('abcdef'), createDocument<string>(), createDocument<string>()]
+      mergeRemote(docs[1]!, docs[0]!.oplog)
+      mergeRemote(docs[2]!, docs[0]!.oplog)
+      let next = 0
+
+      for (let round = 0; round < 6; round++) {
+        docs.forEach((doc, i) => {
+          for (let k = 0; k < 4; k++) {
+            const len = getContent(doc).length
+            const r = rng()
+            if (len > 1 && r < 0.5) {
+              docMove(doc, 'agent' + i, Math.floor(rng() * len), Math.floor(rng() * len))
+            } else if (len > 0 && r < 0.7) {
+              docDelete(doc, 'agent' + i, Math.floor(rng() * len))
+            } else {
+              docInsert(doc, 'agent' + i, Math.floor(rng() * (len + 1)), String(next++))
+            }
+          }
+        })
+        const [x, y] = [Math.floor(rng() * 3), Math.floor(rng() * 3)]
+        if (x !== y) sync(docs[x]!, docs[y]!)
+      }
+      sync(docs[0]!, docs[1]!)
+      sync(docs[1]!, docs[2]!)
+      sync(docs[0]!, docs[1]!)
+
+      const expected = checkout(docs[0]!.oplog).snapshot
+      expect(new Set(expected).size).toBe(expected.length)
+      for (const doc of docs) expect(getContent(doc)).toEqual(expected)
+    }
+  })
+})
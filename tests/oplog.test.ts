@@ -4,9 +4,13 @@ import {
   localInsert,
   localDelete,
   pushOp,
+  pushOps,
   getLatestVersion,
   mergeOplogInto,
+  getOp,
+  sliceOps,
 } from '../src/oplog.js'
+import { nextLV } from '../src/causal-graph.js'
 
 describe('createOpLog', () => {
   it('空のOpLogを作成する', () => {
@@ -21,10 +25,10 @@ describe('localInsert', () => {
     const oplog = createOpLog<string>()
     localInsert(oplog, 'A', 0, 'h', 'e', 'l', 'l', 'o')
 
-    expect(oplog.ops.length).toBe(5)
-    expect(oplog.ops[0]).toEqual({ type: 'ins', pos: 0, content: 'h' })
-    expect(oplog.ops[1]).toEqual({ type: 'ins', pos: 1, content: 'e' })
-    expect(oplog.ops[4]).toEqual({ type: 'ins', pos: 4, content: 'o' })
+    expect(nextLV(oplog.cg)).toBe(5)
+    expect(getOp(oplog, 0)).toEqual({ type: 'ins', pos: 0, content: 'h' })
+    expect(getOp(oplog, 1)).toEqual({ type: 'ins', pos: 1, content: 'e' })
+    expect(getOp(oplog, 4)).toEqual({ type: 'ins', pos: 4, content: 'o' })
     expect(oplog.cg.heads).toEqual([4])
   })
 
@@ -33,8 +37,8 @@ describe('localInsert', () => {
     localInsert(oplog, 'A', 0, 'a', 'b')
     localInsert(oplog, 'A', 2, 'c')
 
-    expect(oplog.ops.length).toBe(3)
-    expect(oplog.ops[2]).toEqual({ type: 'ins', pos: 2, content: 'c' })
+    expect(nextLV(oplog.cg)).toBe(3)
+    expect(getOp(oplog, 2)).toEqual({ type: 'ins', pos: 2, content: 'c' })
   })
 })
 
@@ -44,9 +48,9 @@ describe('localDelete', () => {
     localInsert(oplog, 'A', 0, 'h', 'e', 'l', 'l', 'o')
     localDelete(oplog, 'A', 1, 2)
 
-    expect(oplog.ops.length).toBe(7)
-    expect(oplog.ops[5]).toEqual({ type: 'del', pos: 1 })
-    expect(oplog.ops[6]).toEqual({ type: 'del', pos: 1 })
+    expect(nextLV(oplog.cg)).toBe(7)
+    expect(getOp(oplog, 5)).toEqual({ type: 'del', pos: 1 })
+    expect(getOp(oplog, 6)).toEqual({ type: 'del', pos: 1 })
   })
 
   it('長さ0の削除はエラーを投げる', () => {
@@ -61,8 +65,8 @@ describe('pushOp', () => {
     const result = pushOp(oplog, ['A', 0], [], 'ins', 0, 'h')
 
     expect(result).toBe(true)
-    expect(oplog.ops.length).toBe(1)
-    expect(oplog.ops[0]).toEqual({ type: 'ins', pos: 0, content: 'h' })
+    expect(nextLV(oplog.cg)).toBe(1)
+    expect(getOp(oplog, 0)).toEqual({ type: 'ins', pos: 0, content: 'h' })
   })
 
   it('既存操作は追加されずfalseを返す', () => {
@@ -71,7 +75,7 @@ describe('pushOp', () => {
     const result = pushOp(oplog, ['A', 0], [], 'ins', 0, 'h')
 
     expect(result).toBe(false)
-    expect(oplog.ops.length).toBe(1)
+    expect(nextLV(oplog.cg)).toBe(1)
   })
 
   it('挿入操作にコンテンツがないとエラー', () => {
@@ -80,6 +84,48 @@ describe('pushOp', () => {
   })
 })
 
+describe('pushOps', () => {
+  it('連続した挿入をまとめて追加できる', () => {
+    const oplog = createOpLog<string>()
+    const text = 'x'.repeat(500)
+    expect(pushOps(oplog, ['A', 0], [], { type: 'ins', pos: 0, content: text.split('') })).toBe(500)
+
+    expect(nextLV(oplog.cg)).toBe(500)
+    expect(oplog.cg.entries).toHaveLength(1)
+    expect(oplog.ops).toHaveLength(1)
+    expect(getOp(oplog, 499)).toEqual({ type: 'ins', pos: 499, content: 'x' })
+  })
+
+  it('連続した削除をまとめて追加できる', () => {
+    const oplog = createOpLog<string>()
+    pushOps(oplog, ['A', 0], [], { type: 'ins', pos: 0, content: ['a', 'b', 'c'] })
+    expect(pushOps(oplog, ['B', 0], [['A', 2]], { type: 'del', pos: 0, len: 2 })).toBe(2)
+
+    expect(getOp(oplog, 4)).toEqual({ type: 'del', pos: 0 })
+    expect(getLatestVersion(oplog)).toEqual([['B', 1]])
+  })
+
+  it('先頭の一部が既知の場合は残りだけを追加する', () => {
+    const oplog = createOpLog<string>()
+    pushOps(oplog, ['A', 0], [], { type: 'ins', pos: 0, content: ['a', 'b'] })
+
+    // 既知の A:0..1 を含むラン A:0..3
+    expect(pushOps(oplog, ['A', 0], [], { type: 'ins', pos: 0, content: ['a', 'b', 'c', 'd'] })).toBe(2)
+    expect(nextLV(oplog.cg)).toBe(4)
+    expect(getOp(oplog, 2)).toEqual({ type: 'ins', pos: 2, content: 'c' })
+    expect(getOp(oplog, 3)).toEqual({ type: 'ins', pos: 3, content: 'd' })
+
+    expect(pushOps(oplog, ['A', 1], [['A', 0]], { type: 'del', pos: 0, len: 3 })).toBe(0)
+  })
+
+  it('長さ0の操作はエラー', () => {
+    const oplog = createOpLog<string>()
+    expect(() => pushOps(oplog, ['A', 0], [], { type: 'ins', pos: 0, content: [] })).toThrow()
+    expect(() => pushOps(oplog, ['A', 0], [], { type: 'del', pos: 0, len: 0 })).toThrow()
+    expect(nextLV(oplog.cg)).toBe(0)
+  })
+})
+
 describe('getLatestVersion', () => {
   it('最新バージョンを取得する', () => {
     const oplog = createOpLog<string>()
@@ -100,7 +146,7 @@ describe('mergeOplogInto', () => {
 
     mergeOplogInto(oplog1, oplog2)
 
-    expect(oplog1.ops.length).toBe(5)
+    expect(nextLV(oplog1.cg)).toBe(5)
     expect(oplog1.cg.heads.length).toBe(2)
   })
 
@@ -117,7 +163,76 @@ describe('mergeOplogInto', () => {
 
     mergeOplogInto(oplog1, oplog2)
 
-    expect(oplog1.ops.length).toBe(3)
-    expect(oplog1.ops[2]).toEqual({ type: 'ins', pos: 2, content: 'y' })
+    expect(nextLV(oplog1.cg)).toBe(3)
+    expect(getOp(oplog1, 2)).toEqual({ type: 'ins', pos: 2, content: 'y' })
+  })
+})
+
+describe('操作のラン', () => {
+  it('連続した挿入は1つのランにまとめられる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, ...'x'.repeat(10000))
+    localInsert(oplog, 'A', 10000, 'y')
+
+    expect(oplog.ops).toHaveLength(1)
+    expect(getOp(oplog, 10000)).toEqual({ type: 'ins', pos: 10000, content: 'y' })
+  })
+
+  it('同じ位置への連続した削除は1つのランにまとめられる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b', 'c', 'd')
+    localDelete(oplog, 'A', 1)
+    localDelete(oplog, 'A', 1, 2)
+    localDelete(oplog, 'A', 0)
+
+    expect(oplog.ops).toEqual([
+      { type: 'ins', version: 0, pos: 0, content: ['a', 'b', 'c', 'd'] },
+      { type: 'del', version: 4, pos: 1, len: 3 },
+      { type: 'del', version: 7, pos: 0, len: 1 },
+    ])
+  })
+
+  it('位置が連続しない挿入は別のランになる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b')
+    localInsert(oplog, 'A', 0, 'c')
+
+    expect(oplog.ops).toHaveLength(2)
+    expect(getOp(oplog, 2)).toEqual({ type: 'ins', pos: 0, content: 'c' })
+  })
+
+  it('sliceOpsは境界のランを切り詰めたコピーを返す', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a', 'b', 'c')
+    localDelete(oplog, 'A', 0, 3)
+
+    const runs = sliceOps(oplog, 1, 5)
+    expect(runs).toEqual([
+      { type: 'ins', version: 1, pos: 1, content: ['b', 'c'] },
+      { type: 'del', version: 3, pos: 0, len: 2 },
+    ])
+
+    // コピーを書き換えても元のOpLogには影響しない
+    if (runs[0]!.type === 'ins') runs[0]!.content.push('z')
+    expect(getOp(oplog, 3)).toEqual({ type: 'del', pos: 0 })
+    expect(oplog.ops[0]).toEqual({ type: 'ins', version: 0, pos: 0, content: ['a', 'b', 'c'] })
+  })
+
+  it('存在しないLVの取得はエラー', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, 'a')
+    expect(() => getOp(oplog, 1)).toThrow()
+  })
+
+  it('マージ後もソースのランとは共有しない', () => {
+    const oplog1 = createOpLog<string>()
+    localInsert(oplog1, 'A', 0, 'a', 'b')
+
+    const oplog2 = createOpLog<string>()
+    mergeOplogInto(oplog2, oplog1)
+    localInsert(oplog2, 'A', 2, 'c')
+
+    expect(oplog2.ops).toHaveLength(1)
+    expect(oplog1.ops).toEqual([{ type: 'ins', version: 0, pos: 0, content: ['a', 'b'] }])
   })
 })
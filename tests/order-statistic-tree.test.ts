@@ -132,6 +132,77 @@ describe('OrderStatisticTree', () => {
     })
   })
 
+  describe('curPosOfItem', () => {
+    it('前にある curState === INS の要素数を返す', () => {
+      const tree = new OrderStatisticTree()
+      const items = [
+        makeItem(0, ItemState.Inserted, ItemState.Inserted),
+        makeItem(1, ItemState.Deleted, ItemState.Deleted),
+        makeItem(2, ItemState.NotYetInserted, ItemState.Inserted),
+        makeItem(3, ItemState.Inserted, ItemState.Inserted),
+        makeItem(4, ItemState.Inserted, ItemState.Inserted),
+      ]
+      for (const item of items) tree.push(item)
+
+      expect(items.map((item) => tree.curPosOfItem(item))).toEqual([0, 1, 1, 1, 2])
+      expect(tree.curLength).toBe(3)
+      expect(tree.curPosOfItem(makeItem(9, ItemState.Inserted, ItemState.Inserted))).toBe(-1)
+    })
+
+    it('プレースホルダーのランの後ろの要素はランの長さを数える', () => {
+      const tree = new OrderStatisticTree()
+      tree.pushPlaceholder(100, 5)
+      const item = makeItem(0, ItemState.Inserted, ItemState.Inserted)
+      tree.push(item)
+      expect(tree.curPosOfItem(item)).toBe(5)
+    })
+  })
+
+  describe('プレースホルダーのラン', () => {
+    it('ランは1ノードで複数要素として数えられる', () => {
+      const tree = new OrderStatisticTree()
+      tree.pushPlaceholder(1000, 5)
+      expect(tree.length).toBe(5)
+      expect(tree.findByCurPos(3)).toEqual({ idx: 3, endPos: 3 })
+    })
+
+    it('getByIndex でランの途中の要素が実体化される', () => {
+      const tree = new OrderStatisticTree()
+      tree.pushPlaceholder(1000, 5)
+
+      const item = tree.getByIndex(2)!
+      expect(item.opId).toBe(1002)
+      expect(tree.length).toBe(5)
+      expect(tree.getPlaceholder(1002)).toBe(item)
+      expect(tree.indexOfItem(item)).toBe(2)
+      expect(tree.getByIndex(0)!.opId).toBe(1000)
+      expect(tree.getByIndex(4)!.opId).toBe(1004)
+    })
+
+    it('ランの途中への挿入で分割される', () => {
+      const tree = new OrderStatisticTree()
+      tree.pushPlaceholder(1000, 4)
+      tree.insertAt(2, makeItem(0, ItemState.Inserted, ItemState.Inserted))
+
+      expect(tree.length).toBe(5)
+      expect(tree.getByIndex(2)!.opId).toBe(0)
+      expect(tree.getByIndex(3)!.opId).toBe(1002)
+    })
+
+    it('実体化した要素の状態変更がカウンタに反映される', () => {
+      const tree = new OrderStatisticTree()
+      tree.pushPlaceholder(1000, 4)
+
+      const item = tree.getByIndex(1)!
+      item.curState = ItemState.Deleted
+      item.endState = ItemState.Deleted
+      tree.refreshCountsForItem(item)
+
+      // 1000 → (1001は削除) → 1002 の直後
+      expect(tree.findByCurPos(2)).toEqual({ idx: 3, endPos: 2 })
+    })
+  })
+
   describe('大量データ', () => {
     it('1000アイテムの挿入と取得', () => {
       const tree = new OrderStatisticTree()
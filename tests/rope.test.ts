@@ -173,6 +173,77 @@ describe('Rope', () => {
       rope.delete(1) // 'b' を削除
       expect(rope.toString()).toBe('ac')
     })
+
+    it('insertRange / deleteRange で範囲を編集できる', () => {
+      const rope = new Rope()
+      rope.insertRange(0, [...'hello world'])
+      rope.deleteRange(0, 6)
+      rope.insertRange(5, ['!', '?'])
+      expect(rope.toString()).toBe('world!?')
+    })
+  })
+
+  describe('範囲操作', () => {
+    it('fromString で文字列から構築できる', () => {
+      const text = 'abcdefghij'.repeat(300)
+      const rope = Rope.fromString(text)
+      expect(rope.length).toBe(3000)
+      expect(rope.toString()).toBe(text)
+      expect(rope.get(1234)).toBe(text[1234])
+      expect(Rope.fromString('').length).toBe(0)
+    })
+
+    it('insertText で長い文字列を途中に挿入できる', () => {
+      const rope = Rope.fromString('hello world')
+      const long = 'x'.repeat(5000)
+      rope.insertText(5, long)
+      rope.insertText(0, '>> ')
+      expect(rope.toString()).toBe('>> hello' + long + ' world')
+    })
+
+    it('deleteText で複数のリーフにまたがる範囲を削除できる', () => {
+      const text = 'abcdefghij'.repeat(500)
+      const rope = Rope.fromString(text)
+      rope.deleteText(100, 3000)
+      rope.deleteText(0, 1)
+      expect(rope.toString()).toBe(text.slice(1, 100) + text.slice(3100))
+      rope.deleteText(0, rope.length)
+      expect(rope.toString()).toBe('')
+    })
+
+    it('範囲操作のランダムな組み合わせが文字列操作と一致する', () => {
+      let state = 7
+      const rng = () => {
+        state ^= state << 13
+        state ^= state >> 17
+        state ^= state << 5
+        return (state >>> 0) / 0xffffffff
+      }
+
+      const rope = new Rope()
+      let expected = ''
+      for (let i = 0; i < 300; i++) {
+        const pos = Math.floor(rng() * (expected.length + 1))
+        if (rng() < 0.6 || expected.length === 0) {
+          const text = String.fromCharCode(97 + (i % 26)).repeat(1 + Math.floor(rng() * 2000))
+          rope.insertText(pos, text)
+          expected = expected.slice(0, pos) + text + expected.slice(pos)
+        } else {
+          const len = Math.floor(rng() * (expected.length - pos + 1))
+          rope.deleteText(pos, len)
+          expected = expected.slice(0, pos) + expected.slice(pos + len)
+        }
+        expect(rope.length).toBe(expected.length)
+      }
+      expect(rope.toString()).toBe(expected)
+    })
+
+    it('大きな文字列を挿入しても平衡が保たれる', () => {
+      const rope = Rope.fromString('ab')
+      rope.insertText(1, 'x'.repeat(512 * 1024))
+      // リーフ1024個 → 完全二分木なら高さ11
+      expect(rope._root!.height).toBeLessThanOrEqual(13)
+    })
   })
 
   describe('AVLバランス', () => {
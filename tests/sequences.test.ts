@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createSequenceDocument,
+  openSequenceDocument,
+  seqInsert,
+  seqDelete,
+  getSequence,
+  getSequenceText,
+  mergeSequenceRemote,
+  createOpLog,
+  localInsert,
+  localSeqInsert,
+  mergeOplogInto,
+  opTarget,
+  sequenceNames,
+  checkout,
+  checkoutAt,
+  checkoutSimpleString,
+  compactOpLog,
+  encodeOpLog,
+  decodeOpLog,
+  summarizeVersion,
+  createSyncHello,
+  createSyncPatch,
+  applySyncPatch,
+  openDocument,
+  getText,
+  type ListOpLog,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+const NAMES = ['', 'title', 'body']
+
+describe('名前付きシーケンス', () => {
+  it('シーケンスごとに独立した内容を持つ', () => {
+    const doc = createSequenceDocument()
+    seqInsert(doc, 'title', 'alice', 0, ...'Notes')
+    seqInsert(doc, 'body', 'alice', 0, ...'hello')
+    seqInsert(doc, 'title', 'alice', 5, ...'!')
+    seqDelete(doc, 'body', 'alice', 0)
+
+    expect(getSequenceText(doc, 'title')).toBe('Notes!')
+    expect(getSequenceText(doc, 'body')).toBe('ello')
+    expect(getSequence(doc, 'footnotes')).toEqual([])
+    expect(sequenceNames(doc.oplog)).toEqual(['', 'title', 'body'])
+
+    // すべてのシーケンスのバージョンは共通
+    for (const branch of doc.branches.values()) expect(branch.version).toEqual(doc.oplog.cg.heads)
+  })
+
+  it('操作の対象シーケンスを記録する', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'a', 0, 'x')
+    localSeqInsert(oplog, 'title', 'a', 0, ['y', 'z'])
+    localInsert(oplog, 'a', 1, 'w')
+
+    expect([0, 1, 2, 3].map((lv) => opTarget(oplog, lv))).toEqual(['', 'title', 'title', ''])
+    expect(checkoutSimpleString(oplog)).toBe('xw')
+    expect(checkoutSimpleString(oplog, 'title')).toBe('yz')
+    expect(checkoutAt(oplog, [1], 'title').snapshot).toEqual(['y'])
+  })
+
+  it('渡した配列は OpLog に取り込まれず、後の挿入で変更されない', () => {
+    const oplog = createOpLog<string>()
+    const content = ['x']
+    localSeqInsert(oplog, 'title', 'a', 0, content)
+    localSeqInsert(oplog, 'title', 'a', 1, ['y'])
+    content.push('!')
+
+    expect(content).toEqual(['x', '!'])
+    expect(checkoutSimpleString(oplog, 'title')).toBe('xy')
+  })
+
+  it('既定のシーケンスは Document から編集できる', () => {
+    const doc = createSequenceDocument()
+    seqInsert(doc, '', 'alice', 0, ...'main')
+    seqInsert(doc, 'title', 'alice', 0, ...'T')
+
+    expect(getText(openDocument(doc.oplog))).toBe('main')
+  })
+
+  it('並行編集をマージすると各シーケンスが収束する', () => {
+    const a = createSequenceDocument()
+    seqInsert(a, 'title', 'alice', 0, ...'Title')
+    seqInsert(a, 'body', 'alice', 0, ...'Body')
+    const b = openSequenceDocument(createOpLog<string>())
+    mergeSequenceRemote(b, a.oplog)
+
+    seqInsert(a, 'title', 'alice', 5, ...'!')
+    seqDelete(a, 'body', 'alice', 0)
+    seqInsert(b, 'title', 'bob', 0, ...'>')
+    seqInsert(b, 'body', 'bob', 4, ...'.')
+    mergeSequenceRemote(a, b.oplog)
+    mergeSequenceRemote(b, a.oplog)
+
+    for (const doc of [a, b]) {
+      expect(getSequenceText(doc, 'title')).toBe('>Title!')
+      expect(getSequenceText(doc, 'body')).toBe('ody.')
+    }
+  })
+
+  it('ランダムな並行編集でも再生した結果と一致する', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const rng = createRng(seed)
+      const docs = [createSequenceDocument(), createSequenceDocument()]
+      for (let round = 0; round < 4; round++) {
+        docs.forEach((doc, i) => {
+          for (let k = 0; k < 6; k++) {
+            const name = NAMES[Math.floor(rng() * NAMES.length)]!
+            const len = getSequence(doc, name).length
+            if (len > 0 && rng() < 0.4) {
+              seqDelete(doc, name, 'agent' + i, Math.floor(rng() * len))
+            } else {
+              seqInsert(doc, name, 'agent' + i, Math.floor(rng() * (len + 1)), 'abc'[k % 3]!)
+            }
+          }
+        })
+        mergeSequenceRemote(docs[0]!, docs[1]!.oplog)
+        mergeSequenceRemote(docs[1]!, docs[0]!.oplog)
+      }
+
+      for (const name of NAMES) {
+        const expected = checkoutSimpleString(docs[0]!.oplog, name)
+        expect(getSequenceText(docs[0]!, name)).toBe(expected)
+        expect(getSequenceText(docs[1]!, name)).toBe(expected)
+        expect(checkout(docs[0]!.oplog, name).snapshot.join('')).toBe(expected)
+      }
+    }
+  })
+})
+
+describe('名前付きシーケンスの保存と同期', () => {
+  /** 複数のシーケンスへの操作を含むOpLog */
+  function multiOpLog(): ListOpLog<string> {
+    const doc = createSequenceDocument()
+    seqInsert(doc, 'title', 'alice', 0, ...'Hi')
+    seqInsert(doc, '', 'alice', 0, ...'main')
+    seqInsert(doc, 'body', 'bob', 0, ...'text')
+    return doc.oplog
+  }
+
+  it('マージしても対象シーケンスが保たれる', () => {
+    const src = multiOpLog()
+    const dest = createOpLog<string>()
+    localInsert(dest, 'carol', 0, 'c')
+    mergeOplogInto(dest, src)
+
+    expect(checkoutSimpleString(dest, 'title')).toBe('Hi')
+    expect(checkoutSimpleString(dest, 'body')).toBe('text')
+    expect(checkoutSimpleString(dest)).toHaveLength(5)
+    expect(summarizeVersion(dest.cg)).toEqual({ carol: [[0, 1]], ...summarizeVersion(src.cg) })
+  })
+
+  it('エンコードしても対象シーケンスが保たれる', () => {
+    const oplog = multiOpLog()
+    const decoded = decodeOpLog(encodeOpLog(oplog))
+    expect(decoded).toEqual(oplog)
+    expect(checkoutSimpleString(decoded, 'body')).toBe('text')
+  })
+
+  it('同期パッチで対象シーケンスを送れる', () => {
+    const oplog = multiOpLog()
+    const peer = createOpLog<string>()
+    applySyncPatch(peer, createSyncPatch(oplog, createSyncHello(peer).summary))
+
+    for (const name of ['', 'title', 'body']) {
+      expect(checkoutSimpleString(peer, name)).toBe(checkoutSimpleString(oplog, name))
+    }
+  })
+
+  it('名前付きシーケンスと圧縮は併用できない', () => {
+    const oplog = multiOpLog()
+    expect(() => compactOpLog(oplog, oplog.cg.heads)).toThrow()
+
+    const compacted = createOpLog<string>()
+    localInsert(compacted, 'a', 0, 'x')
+    compactOpLog(compacted, compacted.cg.heads)
+    expect(() => localSeqInsert(compacted, 'title', 'a', 0, ['y'])).toThrow()
+    expect(() => mergeOplogInto(compacted, oplog)).toThrow()
+    expect(compacted.ops).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createNetworkSim,
+  stepNetworkSim,
+  settleNetworkSim,
+  assertConverged,
+  runNetworkSim,
+  docInsert,
+  docDelete,
+  docMove,
+  transact,
+  getText,
+  nextLV,
+  type SimEdit,
+} from '../src/index.js'
+
+describe('ネットワークシミュレータ', () => {
+  it('遅延・順序の入れ替え・重複・分断があってもすべてのピアが収束する', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const sim = runNetworkSim({ peers: 4, seed, partitionRate: 0.1 }, 60)
+      expect(getText(sim.peers[0]!).length).toBeGreaterThan(0)
+    }
+  })
+
+  it('同じシードなら同じ結果になる', () => {
+    const a = runNetworkSim({ peers: 3, seed: 42 }, 50)
+    const b = runNetworkSim({ peers: 3, seed: 42 }, 50)
+    expect(getText(a.peers[0]!)).toBe(getText(b.peers[0]!))
+    expect(a.stats).toEqual(b.stats)
+    expect(a.tick).toBe(b.tick)
+  })
+
+  it('重複・順序の入れ替え・分断を実際に起こす', () => {
+    const sim = runNetworkSim({ peers: 4, seed: 7, duplicateRate: 0.3, partitionRate: 0.2 }, 100)
+    expect(sim.stats.duplicated).toBeGreaterThan(0)
+    expect(sim.stats.reordered).toBeGreaterThan(0)
+    expect(sim.stats.held).toBeGreaterThan(0)
+    expect(sim.stats.delivered).toBe(sim.stats.sent)
+  })
+
+  it('相手が持っていない操作だけを送る', () => {
+    // ピアが2つなら、それぞれの操作はちょうど1回だけ相手に送られる
+    const sim = runNetworkSim({ peers: 2, seed: 5, duplicateRate: 0, partitionRate: 0.2 }, 80)
+    expect(sim.stats.reordered).toBeGreaterThan(0)
+    expect(sim.stats.sentOps).toBe(nextLV(sim.peers[0]!.oplog.cg))
+  })
+
+  it('配送前は収束していないことを検出する', () => {
+    const sim = createNetworkSim({ peers: 2, seed: 3, editRate: 1 })
+    stepNetworkSim(sim)
+    expect(() => assertConverged(sim)).toThrow()
+    settleNetworkSim(sim)
+    assertConverged(sim)
+  })
+
+  it('編集の内容を差し替えられる', () => {
+    const edit: SimEdit = (doc, agent, rng) => {
+      const len = doc.branch.snapshot.length
+      transact(doc, agent, () => {
+        docInsert(doc, agent, Math.floor(rng() * (len + 1)), ...'xy')
+        if (len > 2) docMove(doc, agent, Math.floor(rng() * len), Math.floor(rng() * len))
+        if (len > 4 && rng() < 0.5) docDelete(doc, agent, Math.floor(rng() * len))
+      })
+    }
+    for (let seed = 1; seed <= 10; seed++) {
+      runNetworkSim({ peers: 3, seed, edit }, 40)
+    }
+  })
+
+  it('不正な設定はエラーになる', () => {
+    expect(() => createNetworkSim({ peers: 0, seed: 1 })).toThrow()
+    expect(() => createNetworkSim({ peers: 2, seed: 0 })).toThrow()
+  })
+})
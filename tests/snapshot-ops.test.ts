@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { createOpLog, localInsert, localDelete, mergeOplogInto } from '../src/oplog.js'
+import { nextLV } from '../src/causal-graph.js'
+import { traverseAndApply, createEditContext } from '../src/edit-context.js'
+import { checkoutSimpleString } from '../src/branch.js'
+import { wrapArray, batchSnapshot, type SnapshotOps } from '../src/snapshot-ops.js'
+
+/** inner への呼び出しを記録する SnapshotOps */
+function loggingSnapshot(arr: string[], log: string[]): SnapshotOps<string> {
+  const inner = wrapArray(arr)
+  return {
+    insert(pos, content) {
+      log.push(`insert ${pos}`)
+      inner.insert(pos, content)
+    },
+    insertRange(pos, items) {
+      log.push(`insertRange ${pos} ${items.length}`)
+      inner.insertRange(pos, items)
+    },
+    delete(pos) {
+      log.push(`delete ${pos}`)
+      inner.delete(pos)
+    },
+    deleteRange(pos, len) {
+      log.push(`deleteRange ${pos} ${len}`)
+      inner.deleteRange(pos, len)
+    },
+    get(pos) {
+      return inner.get(pos)
+    },
+  }
+}
+
+describe('wrapArray', () => {
+  it('範囲の挿入・削除を配列に適用する', () => {
+    const arr = [...'ad']
+    const snapshot = wrapArray(arr)
+    snapshot.insertRange(1, [...'bc'])
+    expect(arr.join('')).toBe('abcd')
+    snapshot.deleteRange(0, 3)
+    expect(arr.join('')).toBe('d')
+  })
+
+  it('長い範囲を挿入してもスタックが溢れない', () => {
+    const arr = [...'ab']
+    wrapArray(arr).insertRange(1, new Array<string>(300_000).fill('x'))
+    expect(arr).toHaveLength(300_002)
+    expect(arr[0]).toBe('a')
+    expect(arr[300_001]).toBe('b')
+  })
+})
+
+describe('batchSnapshot', () => {
+  it('連続する挿入と削除をまとめる', () => {
+    const arr = [...'0123456789']
+    const log: string[] = []
+    const batched = batchSnapshot(loggingSnapshot(arr, log))
+
+    batched.insert(2, 'a')
+    batched.insert(3, 'b')
+    batched.insertRange(4, [...'cd'])
+    // 前方への削除の繰り返し
+    batched.delete(0)
+    batched.delete(0)
+    // 後ろから前への削除の繰り返し
+    batched.delete(8)
+    batched.delete(7)
+    batched.flush()
+
+    expect(log).toEqual(['insertRange 2 4', 'deleteRange 0 2', 'deleteRange 7 2'])
+    expect(arr.join('')).toBe('abcd234789')
+  })
+
+  it('get の前にまとめている編集を適用する', () => {
+    const arr = [...'abc']
+    const batched = batchSnapshot(wrapArray(arr))
+    batched.insert(3, 'd')
+    expect(batched.get(3)).toBe('d')
+    batched.delete(0)
+    batched.insert(0, 'x')
+    batched.flush()
+    expect(arr.join('')).toBe('xbcd')
+  })
+})
+
+describe('traverseAndApply の範囲適用', () => {
+  it('連続した操作は範囲の呼び出しにまとめる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, ...'hello world')
+    localDelete(oplog, 'A', 0, 6)
+
+    const arr: string[] = []
+    const log: string[] = []
+    traverseAndApply(createEditContext(nextLV(oplog.cg)), oplog, loggingSnapshot(arr, log))
+    expect(arr.join('')).toBe('world')
+    expect(log).toEqual(['insertRange 0 11', 'deleteRange 0 6'])
+  })
+
+  it('並行編集を含む履歴でも結果は変わらない', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'A', 0, ...'abcdef')
+    const b = createOpLog<string>()
+    mergeOplogInto(b, a)
+    localInsert(a, 'A', 3, ...'xyz')
+    localDelete(a, 'A', 0, 2)
+    localDelete(b, 'B', 1, 4)
+    localInsert(b, 'B', 0, ...'12')
+    mergeOplogInto(a, b)
+
+    const arr: string[] = []
+    traverseAndApply(createEditContext(nextLV(a.cg)), a, wrapArray(arr))
+    expect(arr.join('')).toBe(checkoutSimpleString(a))
+    expect(arr.join('')).toBe('12xyzf')
+  })
+})
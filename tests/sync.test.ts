@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOpLog,
+  localInsert,
+  localDelete,
+  checkoutSimpleString,
+  summarizeVersion,
+  nextLV,
+  createSyncHello,
+  createSyncAck,
+  createSyncPatch,
+  createSyncPatchSince,
+  applySyncPatch,
+  hasSyncPatchParents,
+  getLatestVersion,
+  createDocument,
+  docInsert,
+  getText,
+  mergeRemotePatch,
+} from '../src/index.js'
+import type { ListOpLog, SyncMessage, SyncPatch } from '../src/index.js'
+
+/** JSONを経由してメッセージを送受信する */
+function send<T extends SyncMessage>(msg: T): T {
+  return JSON.parse(JSON.stringify(msg)) as T
+}
+
+/** a → b の方向に1往復分の同期を行う */
+function syncOneWay(a: ListOpLog<string>, b: ListOpLog<string>): SyncPatch {
+  const hello = send(createSyncHello(b))
+  const patch = send(createSyncPatch(a, hello.summary))
+  applySyncPatch(b, patch)
+  return patch
+}
+
+describe('createSyncPatch / applySyncPatch', () => {
+  it('空のOpLogに全操作を同期できる', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'hello')
+    localDelete(a, 'alice', 0)
+
+    const b = createOpLog<string>()
+    const range = applySyncPatch(b, send(createSyncPatch(a, createSyncHello(b).summary)))
+
+    expect(range).toEqual([0, 6])
+    expect(checkoutSimpleString(b)).toBe('ello')
+    expect(summarizeVersion(b.cg)).toEqual(summarizeVersion(a.cg))
+  })
+
+  it('相手が持っていない操作だけを送る', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    const b = createOpLog<string>()
+    syncOneWay(a, b)
+
+    localInsert(a, 'alice', 3, ...'de')
+    const patch = syncOneWay(a, b)
+
+    expect(patch.cg).toEqual([{ agent: 'alice', seq: 3, len: 2, parents: [['alice', 2]] }])
+    expect(patch.ops).toEqual([{ type: 'ins', pos: 3, content: ['d', 'e'] }])
+    expect(checkoutSimpleString(b)).toBe('abcde')
+  })
+
+  it('並行編集を双方向に同期すると収束する', () => {
+    const a = createOpLog<string>()
+    const b = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'shared')
+    syncOneWay(a, b)
+
+    localInsert(a, 'alice', 0, ...'A:')
+    localDelete(a, 'alice', 2, 3)
+    localInsert(b, 'bob', 6, ...'!?')
+    localDelete(b, 'bob', 0)
+
+    syncOneWay(a, b)
+    syncOneWay(b, a)
+
+    expect(checkoutSimpleString(a)).toBe(checkoutSimpleString(b))
+    expect(nextLV(a.cg)).toBe(nextLV(b.cg))
+  })
+
+  it('同じパッチを複数回適用しても変わらない', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    const patch = send(createSyncPatch(a, {}))
+
+    const b = createOpLog<string>()
+    applySyncPatch(b, patch)
+    expect(applySyncPatch(b, patch)).toEqual([3, 3])
+    expect(checkoutSimpleString(b)).toBe('abc')
+  })
+
+  it('一部を既に持っているパッチは残りだけを適用する', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'ab')
+    const b = createOpLog<string>()
+    syncOneWay(a, b)
+
+    localInsert(a, 'alice', 2, ...'cd')
+    // 古いサマリ（何も持っていない）に対するパッチを作成
+    const patch = send(createSyncPatch(a, {}))
+    expect(patch.cg).toHaveLength(1)
+
+    expect(applySyncPatch(b, patch)).toEqual([2, 4])
+    expect(checkoutSimpleString(b)).toBe('abcd')
+  })
+
+  it('Ackで相手の最新バージョンを通知する', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    const b = createOpLog<string>()
+    syncOneWay(a, b)
+
+    const ack = send(createSyncAck(b))
+    expect(ack).toEqual({ type: 'ack', heads: getLatestVersion(a) })
+  })
+
+  it('操作数とCGが一致しないパッチはエラー', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    const patch = createSyncPatch(a, {})
+    patch.ops = [{ type: 'ins', pos: 0, content: ['a'] }]
+
+    const b = createOpLog<string>()
+    expect(() => applySyncPatch(b, patch)).toThrow()
+    expect(nextLV(b.cg)).toBe(0)
+  })
+
+  it('親が未知の操作を含むパッチはエラー', () => {
+    const a = createOpLog<string>()
+    localInsert(a, 'alice', 0, ...'abc')
+    const b = createOpLog<string>()
+    syncOneWay(a, b)
+    localInsert(a, 'alice', 3, 'd')
+
+    // bのサマリに対するパッチを空のOpLogに適用する
+    const patch = createSyncPatch(a, createSyncHello(b).summary)
+    expect(hasSyncPatchParents(createOpLog<string>(), patch)).toBe(false)
+    expect(hasSyncPatchParents(b, patch)).toBe(true)
+    expect(() => applySyncPatch(createOpLog<string>(), patch)).toThrow()
+  })
+})
+
+describe('createSyncPatchSince / mergeRemotePatch', () => {
+  it('把握している相手のバージョン以降の操作だけを送り、順序が入れ替わっても保留して適用できる', () => {
+    const doc = createDocument<string>()
+    const peer = createDocument<string>()
+
+    docInsert(doc, 'alice', 0, ...'ab')
+    const first = send(createSyncPatchSince(doc.oplog, []))
+    const sent = doc.oplog.cg.heads.slice()
+    docInsert(doc, 'alice', 2, 'c')
+    const second = send(createSyncPatchSince(doc.oplog, sent))
+    expect(second.ops).toEqual([{ type: 'ins', pos: 2, content: ['c'] }])
+
+    // 後のパッチが先に届いた場合は、親が揃うまで適用しない
+    expect(hasSyncPatchParents(peer.oplog, second)).toBe(false)
+    mergeRemotePatch(peer, first)
+    expect(getText(peer)).toBe('ab')
+    expect(hasSyncPatchParents(peer.oplog, second)).toBe(true)
+    mergeRemotePatch(peer, second)
+    expect(getText(peer)).toBe('abc')
+    expect(peer.branch.version).toEqual(peer.oplog.cg.heads)
+  })
+})
@@ -12,6 +12,10 @@ import {
   localDelete,
   mergeOplogInto,
   checkoutSimpleString,
+  nextLV,
+  localMove,
+  observe,
+  type Delta,
 } from '../src/index.js'
 
 // 再現可能な疑似乱数生成器（xorshift32）
@@ -29,7 +33,7 @@ describe('createTextDocument', () => {
   it('空のテキストドキュメントを作成する', () => {
     const doc = createTextDocument()
     expect(getTextDocText(doc)).toBe('')
-    expect(doc.oplog.ops).toHaveLength(0)
+    expect(nextLV(doc.oplog.cg)).toBe(0)
     expect(doc.version).toEqual([])
   })
 })
@@ -39,7 +43,7 @@ describe('textDocInsert', () => {
     const doc = createTextDocument()
     textDocInsert(doc, 'A', 0, 'hello')
     expect(getTextDocText(doc)).toBe('hello')
-    expect(doc.oplog.ops).toHaveLength(5)
+    expect(nextLV(doc.oplog.cg)).toBe(5)
     expect(doc.version).toHaveLength(1)
   })
 
@@ -69,7 +73,7 @@ describe('textDocInsert', () => {
     const doc = createTextDocument()
     textDocInsert(doc, 'A', 0, 'hello world')
     expect(getTextDocText(doc)).toBe('hello world')
-    expect(doc.oplog.ops).toHaveLength(11)
+    expect(nextLV(doc.oplog.cg)).toBe(11)
   })
 })
 
@@ -79,7 +83,7 @@ describe('textDocDelete', () => {
     textDocInsert(doc, 'A', 0, 'abc')
     textDocDelete(doc, 'A', 1)
     expect(getTextDocText(doc)).toBe('ac')
-    expect(doc.oplog.ops).toHaveLength(4)
+    expect(nextLV(doc.oplog.cg)).toBe(4)
   })
 
   it('複数文字の削除', () => {
@@ -313,6 +317,30 @@ describe('mergeTextRemote', () => {
     expect(getTextDocText(docA)).toContain('!')
     expect(getTextDocText(docA)).toContain('>')
   })
+
+  it('ランダムな並行編集とマージでフルリプレイと一致する', () => {
+    const rng = createRng(11)
+    const agents = ['A', 'B', 'C']
+    const docs = agents.map(() => createTextDocument())
+
+    for (let round = 0; round < 60; round++) {
+      docs.forEach((doc, i) => {
+        const len = getTextDocText(doc).length
+        if (len === 0 || rng() < 0.65) {
+          const pos = Math.floor(rng() * (len + 1))
+          textDocInsert(doc, agents[i]!, pos, 'xy'.slice(0, 1 + Math.floor(rng() * 2)))
+        } else {
+          textDocDelete(doc, agents[i]!, Math.floor(rng() * len))
+        }
+      })
+
+      const a = Math.floor(rng() * docs.length)
+      const b = Math.floor(rng() * docs.length)
+      if (a === b) continue
+      mergeTextRemote(docs[a]!, docs[b]!.oplog)
+      expect(getTextDocText(docs[a]!)).toBe(checkoutSimpleString(docs[a]!.oplog))
+    }
+  })
 })
 
 describe('getTextDocText', () => {
@@ -353,3 +381,75 @@ describe('Document APIとの一貫性', () => {
     expect(getTextDocText(doc)).toBe(checkoutSimpleString(oplog))
   })
 })
+
+describe('Rope モード', () => {
+  it('大きな文書でも編集でき、text は参照時に生成される', () => {
+    const big = 'abcdefghij'.repeat(100_000)
+    const doc = createTextDocument({ rope: true })
+    textDocInsert(doc, 'A', 0, big)
+    textDocInsert(doc, 'A', 500_000, 'XYZ')
+    expect(getTextDocText(doc).slice(499_998, 500_005)).toBe('ijXYZab')
+    textDocDelete(doc, 'A', 10, 999_980)
+
+    expect(getTextDocText(doc)).toBe('abcdefghij' + 'hijabcdefghij')
+    expect(getTextDocText(doc)).toBe(checkoutSimpleString(doc.oplog))
+  })
+
+  it('リモートの fast-forward・並行編集・移動のマージが文字列モードと一致する', () => {
+    const rng = createRng(21)
+    const agents = ['A', 'B', 'C']
+    const docs = agents.map(() => createTextDocument({ rope: true }))
+
+    for (let round = 0; round < 60; round++) {
+      docs.forEach((doc, i) => {
+        const len = getTextDocText(doc).length
+        const r = rng()
+        if (len === 0 || r < 0.55) {
+          const pos = Math.floor(rng() * (len + 1))
+          textDocInsert(doc, agents[i]!, pos, 'xyz'.slice(0, 1 + Math.floor(rng() * 3)))
+        } else if (r < 0.85 || len < 2) {
+          textDocDelete(doc, agents[i]!, Math.floor(rng() * len))
+        } else {
+          // 移動は OpLog にだけ記録し、fast-forward マージで自分に取り込む
+          const other = createOpLog<string>()
+          mergeOplogInto(other, doc.oplog)
+          localMove(other, agents[i]!, Math.floor(rng() * len), Math.floor(rng() * (len - 1)))
+          mergeTextRemote(doc, other)
+        }
+      })
+
+      const a = Math.floor(rng() * docs.length)
+      const b = Math.floor(rng() * docs.length)
+      if (a === b) continue
+      mergeTextRemote(docs[a]!, docs[b]!.oplog)
+      expect(getTextDocText(docs[a]!)).toBe(checkoutSimpleString(docs[a]!.oplog))
+    }
+  })
+
+  it('openTextDocument / restoreTextDocument でも指定できる', () => {
+    const oplog = createOpLog<string>()
+    localInsert(oplog, 'A', 0, ...'hello')
+
+    const opened = openTextDocument(oplog, { rope: true })
+    expect(getTextDocText(opened)).toBe('hello')
+
+    const restored = restoreTextDocument(oplog, 'hello', oplog.cg.heads, { rope: true })
+    textDocDelete(restored, 'B', 0)
+    expect(getTextDocText(restored)).toBe('ello')
+  })
+
+  it('変更イベントは文字列モードと同じ', () => {
+    const deltas: Delta<string>[] = []
+    const doc = createTextDocument({ rope: true })
+    observe(doc, (e) => deltas.push(e.delta))
+
+    const remote = createOpLog<string>()
+    localInsert(remote, 'B', 0, ...'ab')
+    textDocInsert(doc, 'A', 0, 'x')
+    mergeTextRemote(doc, remote)
+
+    expect(deltas[0]).toEqual([{ insert: 'x' }])
+    expect(getTextDocText(doc)).toBe(checkoutSimpleString(doc.oplog))
+    expect(deltas).toHaveLength(2)
+  })
+})
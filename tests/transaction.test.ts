@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createDocument,
+  openDocument,
+  docInsert,
+  docDelete,
+  docMove,
+  transact,
+  getText,
+  mergeRemote,
+  observe,
+  createOpLog,
+  localInsert,
+  mergeOplogInto,
+  compactOpLog,
+  encodeOpLog,
+  decodeOpLog,
+  createSyncHello,
+  createSyncPatch,
+  applySyncPatch,
+  createUndoManager,
+  undo,
+  type ChangeEvent,
+} from '../src/index.js'
+import { Rope } from '../src/rope.js'
+
+/** 手動で進める時計 */
+function createClock() {
+  const clock = { time: 0, now: () => clock.time }
+  return clock
+}
+
+describe('トランザクション', () => {
+  it('複数の編集を1回の通知とバージョン更新にまとめる', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'hello')
+    const events: ChangeEvent<string[]>[] = []
+    observe(doc, (e) => events.push(e))
+
+    const result = transact(doc, 'A', () => {
+      docInsert(doc, 'A', 5, ...' world')
+      // トランザクション中はバージョンを更新しない
+      expect(doc.branch.version).toEqual([4])
+      docDelete(doc, 'A', 0)
+      docInsert(doc, 'A', 0, 'H')
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(getText(doc)).toBe('Hello world')
+    expect(doc.branch.version).toEqual(doc.oplog.cg.heads)
+    expect(events).toEqual([
+      {
+        origin: 'local',
+        delta: [{ insert: ['H'] }, { delete: 1 }, { retain: 4 }, { insert: [...' world'] }],
+        transaction: true,
+      },
+    ])
+    expect(doc.oplog.txns).toEqual([[5, 13]])
+  })
+
+  it('入れ子のトランザクションは外側にまとめる', () => {
+    const doc = createDocument<string>()
+    let count = 0
+    observe(doc, () => count++)
+    transact(doc, 'A', () => {
+      docInsert(doc, 'A', 0, 'a')
+      transact(doc, 'A', () => docInsert(doc, 'A', 1, 'b'))
+      docMove(doc, 'A', 0, 1)
+    })
+
+    expect(getText(doc)).toBe('ba')
+    expect(count).toBe(1)
+    expect(doc.oplog.txns).toEqual([[0, 3]])
+  })
+
+  it('トランザクション中も Rope を差分更新し、作り直さない', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'hello')
+    const insertRange = vi.spyOn(Rope.prototype, 'insertRange')
+    const deleteRange = vi.spyOn(Rope.prototype, 'deleteRange')
+    const toString = vi.spyOn(Rope.prototype, 'toString')
+    try {
+      transact(doc, 'A', () => {
+        docInsert(doc, 'A', 5, ...' world')
+        docDelete(doc, 'A', 0)
+        docMove(doc, 'A', 0, 1)
+      })
+      expect(insertRange).toHaveBeenCalledTimes(1)
+      expect(deleteRange).toHaveBeenCalledTimes(1)
+
+      // スナップショットから作り直さず、更新済みの Rope から読む
+      expect(getText(doc)).toBe('lelo world')
+      expect(toString).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.restoreAllMocks()
+    }
+  })
+
+  it('別のエージェントの編集やマージはできない', () => {
+    const doc = createDocument<string>()
+    const other = createDocument<string>()
+    docInsert(other, 'B', 0, 'x')
+
+    expect(() => transact(doc, 'A', () => docInsert(doc, 'B', 0, 'y'))).toThrow()
+    expect(() => transact(doc, 'A', () => mergeRemote(doc, other.oplog))).toThrow()
+    expect(doc.oplog.ops).toEqual([])
+  })
+
+  it('例外を投げてもそれまでの編集は残り、通知される', () => {
+    const doc = createDocument<string>()
+    let count = 0
+    observe(doc, () => count++)
+
+    expect(() =>
+      transact(doc, 'A', () => {
+        docInsert(doc, 'A', 0, ...'ab')
+        throw Error('中断')
+      }),
+    ).toThrow('中断')
+    expect(getText(doc)).toBe('ab')
+    expect(doc.branch.version).toEqual([1])
+    expect(count).toBe(1)
+  })
+
+  it('UndoManager では1回の取り消し単位になる', () => {
+    const clock = createClock()
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A', { now: clock.now })
+
+    docInsert(doc, 'A', 0, 'x')
+    transact(doc, 'A', () => {
+      docInsert(doc, 'A', 1, ...'yz')
+      docInsert(doc, 'A', 0, 'w')
+    })
+    docInsert(doc, 'A', 4, '!')
+    expect(getText(doc)).toBe('wxyz!')
+
+    // 時間内の編集でもトランザクションの前後は別のグループになる
+    undo(um)
+    expect(getText(doc)).toBe('wxyz')
+    undo(um)
+    expect(getText(doc)).toBe('x')
+    undo(um)
+    expect(getText(doc)).toBe('')
+  })
+})
+
+describe('トランザクションの同期と保存', () => {
+  /** トランザクションを含むドキュメント */
+  function txnDoc() {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, 'a')
+    transact(doc, 'A', () => {
+      docInsert(doc, 'A', 1, 'b')
+      docInsert(doc, 'A', 0, 'c')
+    })
+    return doc
+  }
+
+  it('マージ・同期パッチ・エンコードでトランザクションの記録が保たれる', () => {
+    const doc = txnDoc()
+
+    const merged = createOpLog<string>()
+    localInsert(merged, 'B', 0, 'z')
+    mergeOplogInto(merged, doc.oplog)
+    expect(merged.txns).toEqual([[2, 4]])
+
+    const peer = createOpLog<string>()
+    localInsert(peer, 'B', 0, 'z')
+    const patch = createSyncPatch(doc.oplog, createSyncHello(peer).summary)
+    expect(patch.txns).toEqual([[1, 3]])
+    applySyncPatch(peer, patch)
+    applySyncPatch(peer, patch)
+    expect(peer.txns).toEqual([[2, 4]])
+
+    expect(decodeOpLog(encodeOpLog(doc.oplog))).toEqual(doc.oplog)
+  })
+
+  it('親が未知のパッチは何も適用しない', () => {
+    const doc = txnDoc()
+    const peer = openDocument(createOpLog<string>())
+    mergeRemote(peer, doc.oplog)
+    transact(doc, 'A', () => {
+      docInsert(doc, 'A', 0, 'd')
+      docInsert(doc, 'A', 0, 'e')
+    })
+
+    // 途中のトランザクションだけを受け取ったピア
+    const partial = createOpLog<string>()
+    const patch = createSyncPatch(doc.oplog, createSyncHello(peer.oplog).summary)
+    expect(() => applySyncPatch(partial, patch)).toThrow()
+    expect(partial.ops).toEqual([])
+    expect(partial.cg.entries).toEqual([])
+  })
+
+  it('圧縮すると破棄した操作のトランザクションの記録も取り除く', () => {
+    const doc = txnDoc()
+    compactOpLog(doc.oplog, doc.oplog.cg.heads)
+    expect(doc.oplog.txns).toBeUndefined()
+  })
+})
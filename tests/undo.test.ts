@@ -0,0 +1,377 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createDocument,
+  docInsert,
+  docDelete,
+  getText,
+  mergeRemote,
+  createOpLog,
+  localInsert,
+  localDelete,
+  mergeOplogInto,
+  createUndoManager,
+  destroyUndoManager,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+  stopCapturing,
+  checkout,
+  type Document,
+} from '../src/index.js'
+
+// 再現可能な疑似乱数生成器（xorshift32）
+function createRng(seed: number) {
+  let state = seed
+  return () => {
+    state ^= state << 13
+    state ^= state >> 17
+    state ^= state << 5
+    return (state >>> 0) / 0xffffffff
+  }
+}
+
+/** ランダムな挿入・削除。挿入する文字は nextChar で作る */
+function randomEdit(doc: Document<string>, agent: string, rng: () => number, nextChar: () => string): void {
+  const len = doc.branch.snapshot.length
+  if (len === 0 || rng() < 0.6) {
+    const pos = Math.floor(rng() * (len + 1))
+    docInsert(doc, agent, pos, ...Array.from({ length: 1 + Math.floor(rng() * 3) }, nextChar))
+  } else {
+    const pos = Math.floor(rng() * len)
+    docDelete(doc, agent, pos, 1 + Math.floor(rng() * Math.min(3, len - pos)))
+  }
+}
+
+/** 文字ごとの個数の増減（0 のものは持たない） */
+type CharCounts = Map<string, number>
+
+function addChars(counts: CharCounts, chars: Iterable<string>, sign: number = 1): CharCounts {
+  for (const c of chars) {
+    const n = (counts.get(c) ?? 0) + sign
+    if (n === 0) counts.delete(c)
+    else counts.set(c, n)
+  }
+  return counts
+}
+
+/** before から after への文字の増減 */
+function charChange(before: string, after: string): CharCounts {
+  return addChars(addChars(new Map(), after), before, -1)
+}
+
+/** chars のうち text に残っているもの（同じ文字は text にある個数まで） */
+function charsIn(chars: string[], text: string): string[] {
+  const counts = addChars(new Map(), text)
+  return chars.filter((c) => {
+    if (!counts.has(c)) return false
+    addChars(counts, [c], -1)
+    return true
+  })
+}
+
+/** 編集グループで入った文字と消えた文字 */
+interface CharGroup {
+  added: string[]
+  removed: string[]
+  /** 他のピアが戻した同じ文字と区別できなくなったら false */
+  exact: boolean
+}
+
+/** 手動で進める時計 */
+function createClock() {
+  const clock = { time: 0, now: () => clock.time }
+  return clock
+}
+
+describe('UndoManager', () => {
+  it('挿入を取り消してやり直せる', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+
+    docInsert(doc, 'A', 0, ...'hello')
+    expect(canUndo(um)).toBe(true)
+
+    expect(undo(um)).toBe(true)
+    expect(getText(doc)).toBe('')
+    expect(canRedo(um)).toBe(true)
+
+    expect(redo(um)).toBe(true)
+    expect(getText(doc)).toBe('hello')
+    expect(canRedo(um)).toBe(false)
+  })
+
+  it('削除を取り消すと同じ位置に元の内容が戻る', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'abcdef')
+    const um = createUndoManager(doc, 'A')
+
+    docDelete(doc, 'A', 1, 3)
+    expect(getText(doc)).toBe('aef')
+
+    undo(um)
+    expect(getText(doc)).toBe('abcdef')
+    redo(um)
+    expect(getText(doc)).toBe('aef')
+  })
+
+  it('captureTimeout 以内の編集は1つのグループになる', () => {
+    const clock = createClock()
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A', { captureTimeout: 100, now: clock.now })
+
+    docInsert(doc, 'A', 0, 'a')
+    clock.time = 50
+    docInsert(doc, 'A', 1, 'b')
+    clock.time = 300
+    docInsert(doc, 'A', 2, 'c')
+
+    undo(um)
+    expect(getText(doc)).toBe('ab')
+    undo(um)
+    expect(getText(doc)).toBe('')
+    expect(canUndo(um)).toBe(false)
+  })
+
+  it('stopCapturing で次の編集を別のグループにする', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A', { now: () => 0 })
+
+    docInsert(doc, 'A', 0, 'a')
+    stopCapturing(um)
+    docInsert(doc, 'A', 1, 'b')
+
+    undo(um)
+    expect(getText(doc)).toBe('a')
+  })
+
+  it('グループ内で挿入して削除した内容は取り消しで復元しない', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A', { now: () => 0 })
+
+    docInsert(doc, 'A', 0, ...'abc')
+    docDelete(doc, 'A', 2)
+    undo(um)
+    expect(getText(doc)).toBe('')
+  })
+
+  it('他のエージェントの編集は取り消さない', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+
+    docInsert(doc, 'A', 0, ...'mine')
+    stopCapturing(um)
+    docInsert(doc, 'B', 0, ...'yours ')
+
+    undo(um)
+    expect(getText(doc)).toBe('yours ')
+    expect(canUndo(um)).toBe(false)
+  })
+
+  it('リモートの変更が届いた後でも自分の編集だけを取り消す', () => {
+    const doc = createDocument<string>()
+    docInsert(doc, 'A', 0, ...'hello world')
+    const remote = createOpLog<string>()
+    mergeOplogInto(remote, doc.oplog)
+
+    const um = createUndoManager(doc, 'A')
+    docDelete(doc, 'A', 0, 6) // 'hello ' を削除
+    stopCapturing(um)
+    docInsert(doc, 'A', 5, '!')
+
+    // 並行して先頭と末尾に挿入
+    localInsert(remote, 'B', 0, ...'>> ')
+    localInsert(remote, 'B', 14, ...' <<')
+    localDelete(remote, 'B', 9) // 'w' を削除
+    mergeRemote(doc, remote)
+    expect(getText(doc)).toBe('>> orld! <<')
+
+    undo(um)
+    expect(getText(doc)).toBe('>> orld <<')
+    undo(um)
+    expect(getText(doc)).toBe('>> hello orld <<')
+
+    redo(um)
+    expect(getText(doc)).toBe('>> orld <<')
+  })
+
+  it('取り消しの操作は他のピアと同期できる', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+    docInsert(doc, 'A', 0, ...'abc')
+    undo(um)
+
+    const other = createDocument<string>()
+    mergeRemote(other, doc.oplog)
+    expect(getText(other)).toBe('')
+  })
+
+  it('新しい編集をするとやり直しはできなくなる', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+    docInsert(doc, 'A', 0, 'a')
+    undo(um)
+    docInsert(doc, 'A', 0, 'b')
+    expect(canRedo(um)).toBe(false)
+    expect(redo(um)).toBe(false)
+  })
+
+  it('destroyUndoManager 後の編集は記録しない', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+    destroyUndoManager(um)
+    docInsert(doc, 'A', 0, 'a')
+    expect(canUndo(um)).toBe(false)
+  })
+})
+
+describe('UndoManager の連続した取り消し・やり直し', () => {
+  it('削除の取り消しで戻したアイテムも、その前の挿入の取り消しで消える', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+
+    docInsert(doc, 'A', 0, 'x')
+    stopCapturing(um)
+    docDelete(doc, 'A', 0)
+
+    undo(um)
+    expect(getText(doc)).toBe('x')
+    undo(um)
+    expect(getText(doc)).toBe('')
+
+    redo(um)
+    expect(getText(doc)).toBe('x')
+    redo(um)
+    expect(getText(doc)).toBe('')
+    undo(um)
+    expect(getText(doc)).toBe('x')
+  })
+
+  it('別々に削除した要素を取り消すと元の順序に戻る', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+
+    docInsert(doc, 'A', 0, ...'ab')
+    stopCapturing(um)
+    docDelete(doc, 'A', 0)
+    stopCapturing(um)
+    docDelete(doc, 'A', 0)
+
+    undo(um)
+    expect(getText(doc)).toBe('b')
+    undo(um)
+    expect(getText(doc)).toBe('ab')
+    undo(um)
+    expect(getText(doc)).toBe('')
+
+    redo(um)
+    expect(getText(doc)).toBe('ab')
+    redo(um)
+    expect(getText(doc)).toBe('b')
+    redo(um)
+    expect(getText(doc)).toBe('')
+    undo(um)
+    undo(um)
+    expect(getText(doc)).toBe('ab')
+  })
+
+  it('やり直しと取り消しを繰り返しても同じ内容を行き来する', () => {
+    const doc = createDocument<string>()
+    const um = createUndoManager(doc, 'A')
+
+    docInsert(doc, 'A', 0, ...'hello world')
+    stopCapturing(um)
+    docDelete(doc, 'A', 5, 6)
+    stopCapturing(um)
+    docInsert(doc, 'A', 0, ...'> ')
+    stopCapturing(um)
+    docDelete(doc, 'A', 2, 1)
+
+    expect(getText(doc)).toBe('> ello')
+    const states = ['> hello', 'hello', 'hello world', '']
+    for (let round = 0; round < 3; round++) {
+      for (const text of states) {
+        undo(um)
+        expect(getText(doc)).toBe(text)
+      }
+      expect(canUndo(um)).toBe(false)
+      for (const text of ['hello world', 'hello', '> hello', '> ello']) {
+        redo(um)
+        expect(getText(doc)).toBe(text)
+      }
+      expect(canRedo(um)).toBe(false)
+    }
+  })
+})
+
+describe('UndoManager と並行するリモートの編集', () => {
+  it('ランダムな編集・マージ・取り消し・やり直しで、グループの文字だけが入れ替わり OpLog とも一致する', () => {
+    for (let seed = 1; seed <= 300; seed++) {
+      const rng = createRng(seed)
+      const clock = createClock()
+      const agents = ['A', 'B']
+      const docs = agents.map(() => createDocument<string>())
+      const ums = agents.map((agent, i) => createUndoManager(docs[i]!, agent, clock))
+      let chars = 0
+      const nextChar = () => String.fromCharCode(0x4e00 + chars++)
+
+      // 各ピアの取り消し・やり直しのスタックを文字で追う
+      const model = agents.map(() => ({ undo: [] as CharGroup[], redo: [] as CharGroup[], capturing: false }))
+      // 各ピアが取り消し・やり直しで戻した文字（別のアイテムとして同じ文字が現れる）
+      const restored = agents.map(() => new Set<string>())
+
+      for (let step = 0; step < 30; step++) {
+        const i = Math.floor(rng() * 2)
+        const doc = docs[i]!
+        const m = model[i]!
+        const before = getText(doc)
+        const r = rng()
+        const label = `seed ${seed} step ${step}`
+        if (r < 0.1) {
+          stopCapturing(ums[i]!)
+          m.capturing = false
+        } else if (r < 0.45) {
+          randomEdit(doc, agents[i]!, rng, nextChar)
+          const group = m.capturing ? m.undo[m.undo.length - 1]! : { added: [], removed: [], exact: true }
+          if (!m.capturing) m.undo.push(group)
+          for (const [c, n] of charChange(before, getText(doc))) {
+            if (n > 0) {
+              group.added.push(c)
+            } else if (group.added.includes(c)) {
+              // グループ内で挿入して削除した文字は取り消しで戻さない
+              group.added.splice(group.added.indexOf(c), 1)
+              if (restored[1 - i]!.has(c)) group.exact = false
+            } else {
+              group.removed.push(c)
+            }
+          }
+          m.capturing = true
+          m.redo.length = 0
+        } else if (r < 0.6) {
+          mergeRemote(doc, docs[1 - i]!.oplog)
+        } else {
+          const [from, to] = r < 0.8 ? [m.undo, m.redo] : [m.redo, m.undo]
+          const ok = r < 0.8 ? undo(ums[i]!) : redo(ums[i]!)
+          expect(ok, label).toBe(from.length > 0)
+          const group = from.pop()
+          const change = charChange(before, getText(doc))
+          for (const [c, n] of change) if (n > 0) restored[i]!.add(c)
+          if (group != null) {
+            // グループで入った文字のうち残っているものが消え、消えた文字が戻る
+            const deleted = charsIn(group.added, before)
+            const exact = group.exact && !group.added.some((c) => restored[1 - i]!.has(c))
+            if (exact) {
+              expect(change, label).toEqual(addChars(addChars(new Map(), group.removed), deleted, -1))
+            }
+            to.push({ added: group.removed, removed: deleted, exact })
+            m.capturing = false
+          }
+        }
+
+        for (const d of docs) {
+          expect(checkout(d.oplog).snapshot.join(''), label).toBe(getText(d))
+        }
+      }
+    }
+  })
+})
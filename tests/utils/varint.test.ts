@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+  pushVarint,
+  readVarint,
+  zigzagEncode,
+  zigzagDecode,
+} from '../../src/utils/varint.js'
+
+describe('pushVarint / readVarint', () => {
+  it('小さい値は1バイトになる', () => {
+    const out: number[] = []
+    pushVarint(out, 0)
+    pushVarint(out, 127)
+    expect(out).toEqual([0, 127])
+  })
+
+  it('128以上は複数バイトになる', () => {
+    const out: number[] = []
+    pushVarint(out, 300)
+    expect(out).toEqual([0xac, 0x02])
+  })
+
+  it('32ビットを超える値も往復できる', () => {
+    const values = [0, 1, 127, 128, 16384, 2 ** 32, 2 ** 40 + 5, Number.MAX_SAFE_INTEGER]
+    const out: number[] = []
+    for (const v of values) pushVarint(out, v)
+
+    const bytes = Uint8Array.from(out)
+    const cursor = { pos: 0 }
+    for (const v of values) expect(readVarint(bytes, cursor)).toBe(v)
+    expect(cursor.pos).toBe(bytes.length)
+  })
+
+  it('負の値や小数はエラー', () => {
+    expect(() => pushVarint([], -1)).toThrow()
+    expect(() => pushVarint([], 1.5)).toThrow()
+  })
+
+  it('途中で終わるデータはエラー', () => {
+    expect(() => readVarint(Uint8Array.from([0x80]), { pos: 0 })).toThrow()
+  })
+})
+
+describe('zigzagEncode / zigzagDecode', () => {
+  it('符号付き整数を交互に割り当てる', () => {
+    expect([0, -1, 1, -2, 2].map(zigzagEncode)).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it('往復で元の値に戻る', () => {
+    for (const v of [0, 1, -1, 1000, -1000, 2 ** 40, -(2 ** 40)]) {
+      expect(zigzagDecode(zigzagEncode(v))).toBe(v)
+    }
+  })
+})